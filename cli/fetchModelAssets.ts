@@ -0,0 +1,107 @@
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { gunzipSync } from 'node:zlib';
+import { getPackageVersion } from './packages';
+
+// 下载与 @imgly/background-removal 版本对应的模型和 WASM 资源，放到 public 目录由本站提供
+// 无法访问 CDN 的环境可以在其他机器下载 package.tgz 后通过 --from 导入
+
+const USAGE = `用法: npm run fetch-models -- [选项]
+
+选项:
+      --from <文件>     使用已下载的 package.tgz，不访问网络
+  -o, --out <目录>      输出目录，默认 public/background-removal-data
+  -h, --help            显示帮助
+`;
+
+const DEFAULT_OUT_DIR = 'public/background-removal-data';
+
+function getPackageUrl(version: string): string {
+  return `https://staticimgly.com/@imgly/background-removal-data/${version}/package.tgz`;
+}
+
+function readString(block: Buffer, start: number, length: number): string {
+  const field = block.subarray(start, start + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end < 0 ? length : end).toString('utf8');
+}
+
+// 解析 tar 包中的普通文件（npm 包使用 ustar 格式）
+function* readTarEntries(tar: Buffer): Generator<{ name: string; data: Buffer }> {
+  let offset = 0;
+  while (offset + 512 <= tar.length) {
+    const header = tar.subarray(offset, offset + 512);
+    const name = readString(header, 0, 100);
+    if (!name) break;
+
+    const size = parseInt(readString(header, 124, 12).trim() || '0', 8);
+    const type = String.fromCharCode(header[156]);
+    const prefix = readString(header, 345, 155);
+    const dataStart = offset + 512;
+    if (type === '0' || type === '\0') {
+      yield { name: prefix ? `${prefix}/${name}` : name, data: tar.subarray(dataStart, dataStart + size) };
+    }
+    offset = dataStart + Math.ceil(size / 512) * 512;
+  }
+}
+
+async function main(): Promise<number> {
+  const { values } = parseArgs({
+    options: {
+      from: { type: 'string' },
+      out: { type: 'string', short: 'o', default: DEFAULT_OUT_DIR },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  let archive: Buffer;
+  if (values.from) {
+    console.log(`读取 ${values.from}`);
+    archive = await readFile(values.from);
+  } else {
+    const url = getPackageUrl(await getPackageVersion('@imgly/background-removal'));
+    console.log(`下载 ${url}`);
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`下载失败（HTTP ${response.status}）`);
+    }
+    archive = Buffer.from(await response.arrayBuffer());
+  }
+
+  // 只需要包内 dist 目录中的资源清单和分块文件
+  const outDir = path.resolve(values.out);
+  await rm(outDir, { recursive: true, force: true });
+  await mkdir(outDir, { recursive: true });
+
+  let count = 0;
+  let bytes = 0;
+  for (const entry of readTarEntries(gunzipSync(archive))) {
+    const match = /^package\/dist\/([^/]+)$/.exec(entry.name);
+    if (!match) continue;
+    await writeFile(path.join(outDir, match[1]), entry.data);
+    count++;
+    bytes += entry.data.length;
+  }
+
+  if (count === 0) {
+    throw new Error('压缩包中没有找到模型资源，请确认是 @imgly/background-removal-data 的 package.tgz');
+  }
+  console.log(`已写入 ${count} 个文件（${(bytes / 1024 / 1024).toFixed(1)} MB）到 ${path.relative(process.cwd(), outDir)}`);
+  return 0;
+}
+
+main().then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (err) => {
+    console.error(err instanceof Error ? err.message : err);
+    process.exitCode = 1;
+  }
+);
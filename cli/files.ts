@@ -0,0 +1,112 @@
+import { readdir, stat } from 'node:fs/promises';
+import path from 'node:path';
+
+// 收集命令行传入的图片：支持单个文件、目录（递归）和 glob 模式
+
+const IMAGE_EXTENSIONS = new Set(['.png', '.jpg', '.jpeg', '.webp', '.avif', '.tif', '.tiff']);
+
+export interface InputFile {
+  path: string;
+  // 相对输入根目录的子目录，输出时保持相同的目录结构
+  relativeDir: string;
+}
+
+function isImageFile(file: string): boolean {
+  return IMAGE_EXTENSIONS.has(path.extname(file).toLowerCase());
+}
+
+function hasGlobPattern(pattern: string): boolean {
+  return /[*?[{]/.test(pattern);
+}
+
+function toPosix(file: string): string {
+  return file.split(path.sep).join('/');
+}
+
+// 将 glob 转换为正则：** 匹配任意层目录，* 和 ? 不跨目录，{a,b} 为多选
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      const followedBySlash = pattern[i + 2] === '/';
+      source += followedBySlash ? '(?:.*/)?' : '.*';
+      i += followedBySlash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      const end = pattern.indexOf('}', i);
+      if (end < 0) {
+        source += '\\{';
+        continue;
+      }
+      const options = pattern.slice(i + 1, end).split(',').map((option) => option.replace(/[.+^$()|[\]\\]/g, '\\$&'));
+      source += `(?:${options.join('|')})`;
+      i = end;
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i);
+      source += end < 0 ? '\\[' : pattern.slice(i, end + 1);
+      if (end >= 0) i = end;
+    } else {
+      source += char.replace(/[.+^$()|\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+async function walk(dir: string): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const files = await Promise.all(entries.map(async (entry) => {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) return walk(fullPath);
+    return entry.isFile() ? [fullPath] : [];
+  }));
+  return files.flat();
+}
+
+// glob 中第一个通配符之前的目录作为遍历起点
+function getGlobBase(pattern: string): string {
+  const segments = toPosix(pattern).split('/');
+  const index = segments.findIndex(hasGlobPattern);
+  return segments.slice(0, index).join('/') || '.';
+}
+
+export async function collectInputFiles(inputs: string[]): Promise<InputFile[]> {
+  const files = new Map<string, InputFile>();
+  const add = (file: string, root: string) => {
+    const resolved = path.resolve(file);
+    if (!files.has(resolved)) {
+      files.set(resolved, { path: resolved, relativeDir: path.relative(root, path.dirname(resolved)) });
+    }
+  };
+
+  for (const input of inputs) {
+    if (hasGlobPattern(input)) {
+      const base = getGlobBase(input);
+      const matcher = globToRegExp(toPosix(path.normalize(input)));
+      const candidates = await walk(base).catch(() => []);
+      for (const file of candidates) {
+        if (isImageFile(file) && matcher.test(toPosix(path.normalize(file)))) {
+          add(file, path.resolve(base));
+        }
+      }
+      continue;
+    }
+
+    const info = await stat(input).catch(() => null);
+    if (!info) {
+      throw new Error(`找不到输入: ${input}`);
+    }
+    if (info.isDirectory()) {
+      for (const file of await walk(input)) {
+        if (isImageFile(file)) add(file, path.resolve(input));
+      }
+    } else {
+      add(input, path.dirname(path.resolve(input)));
+    }
+  }
+
+  return [...files.values()].sort((a, b) => a.path.localeCompare(b.path));
+}
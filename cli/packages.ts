@@ -0,0 +1,19 @@
+import { readFile } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import path from 'node:path';
+
+// 读取已安装依赖的版本号，按本文件的位置解析，不依赖当前工作目录
+// 推理库的 exports 没有公开 package.json，因此从入口文件所在目录向上查找
+export async function getPackageVersion(name: string): Promise<string> {
+  let dir = path.dirname(createRequire(import.meta.url).resolve(name));
+  for (;;) {
+    const pkg = await readFile(path.join(dir, 'package.json'), 'utf8')
+      .then((text) => JSON.parse(text))
+      .catch(() => null);
+    if (pkg?.name === name) return pkg.version;
+
+    const parent = path.dirname(dir);
+    if (parent === dir) throw new Error(`找不到 ${name} 的 package.json`);
+    dir = parent;
+  }
+}
@@ -0,0 +1,295 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { parseArgs } from 'node:util';
+import { segmentForeground, Config as NodeConfig } from '@imgly/background-removal-node';
+import { decodeImageFile, encodeForInference, sharpBackend } from './sharpBackend';
+import { collectInputFiles, InputFile } from './files';
+import { getPackageVersion } from './packages';
+import { defaultConfig, ProcessingConfig } from '../src/utils/backgroundRemoval';
+import { applyPresetConfig, parseConfigObject, parsePresetFile, PresetConfig, PresetValidationError } from '../src/utils/presets';
+import { getMaskFilename, getMetadataFilename, getOutputFilename } from '../src/utils/download';
+import { extractMask } from '../src/utils/imageUtils';
+import { getWorkingSize, upsampleMask } from '../src/utils/largeImage';
+import { renderOutput } from '../src/utils/render';
+import { attachMetadata, isProcessingMetadata } from '../src/utils/metadata';
+
+// 命令行批量去除背景，与网页使用同一套配置、后处理和命名规则
+// 模型随 @imgly/background-removal-node 一起安装，默认完全离线运行
+
+const USAGE = `用法: npm run remove-bg -- <输入...> [选项]
+
+输入可以是图片文件、目录（递归查找图片）或 glob，例如 "photos/**/*.jpg"
+
+选项:
+  -c, --config <文件>           预设文件（网页导出的 JSON）、单个配置 JSON 或结果附带的元数据 JSON
+  -p, --preset <名称>           使用预设文件中的指定预设，默认第一个
+  -o, --out <目录>              输出目录，默认 ./output
+  -j, --concurrency <数量>      同时处理的图片数量，默认 2
+  -r, --report <文件>           处理报告路径，默认 <输出目录>/report.json
+      --mask                    同时输出蒙版
+      --background-image <文件> 背景模式为图片时使用的背景图
+      --public-path <目录>      模型资源目录，默认使用安装包内置的模型
+  -h, --help                    显示帮助
+`;
+
+// 网页端模型与 Node 版模型的对应关系
+const nodeModels: Record<ProcessingConfig['model'], NonNullable<NodeConfig['model']>> = {
+  isnet: 'large',
+  isnet_fp16: 'medium',
+  isnet_quint8: 'small',
+};
+
+interface FileReport {
+  input: string;
+  status: 'success' | 'failed';
+  output?: string;
+  // 输出格式无法嵌入元数据时附带的 JSON 文件
+  metadata?: string;
+  mask?: string;
+  error?: string;
+  durationMs: number;
+}
+
+interface BatchReport {
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  config: PresetConfig;
+  total: number;
+  succeeded: number;
+  failed: number;
+  files: FileReport[];
+}
+
+// 命令行参数或配置错误，退出码为 2
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+async function loadConfig(configPath: string | undefined, presetName: string | undefined): Promise<PresetConfig> {
+  if (!configPath) {
+    if (presetName) throw new UsageError('--preset 需要与 --config 一起使用');
+    return parseConfigObject({});
+  }
+
+  const text = await readFile(configPath, 'utf8').catch(() => {
+    throw new UsageError(`无法读取配置文件: ${configPath}`);
+  });
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new UsageError(`配置文件不是有效的 JSON: ${configPath}`);
+  }
+
+  // 网页导出的预设文件包含 presets 数组，否则按单个配置处理
+  if (typeof data === 'object' && data !== null && 'presets' in data) {
+    const presets = parsePresetFile(text);
+    const preset = presetName ? presets.find((item) => item.name === presetName) : presets[0];
+    if (!preset) {
+      throw new UsageError(presetName
+        ? `预设文件中没有名为「${presetName}」的预设，可用: ${presets.map((item) => item.name).join(', ')}`
+        : '预设文件中没有预设');
+    }
+    return preset.config;
+  }
+
+  if (presetName) throw new UsageError('--preset 只能用于预设文件');
+  // 处理结果的元数据中记录了当时的配置，用于复现结果
+  return parseConfigObject(isProcessingMetadata(data) ? data.config : data);
+}
+
+// 写入输出文件元数据的推理库版本
+async function getLibrary(): Promise<string> {
+  return `@imgly/background-removal-node@${await getPackageVersion('@imgly/background-removal-node')}`;
+}
+
+function createNodeConfig(config: ProcessingConfig, publicPath?: string): NodeConfig {
+  return {
+    model: nodeModels[config.model],
+    debug: config.debug,
+    output: { format: 'image/png', quality: 1 },
+    ...(publicPath ? { publicPath: `${pathToFileURL(path.resolve(publicPath)).href}/` } : {}),
+  };
+}
+
+async function processFile(
+  file: InputFile,
+  config: ProcessingConfig,
+  nodeConfig: NodeConfig,
+  outDir: string,
+  writeMask: boolean,
+  library: string
+): Promise<Omit<FileReport, 'durationMs'>> {
+  const input = await readFile(file.path);
+  const image = await decodeImageFile(input);
+
+  // 与网页相同：大图缩小到工作分辨率推理，再按原图边缘放大蒙版
+  const working = getWorkingSize(image, config.largeImage.mode);
+  const segmented = await segmentForeground(await encodeForInference(input, working.width, working.height), nodeConfig);
+  let mask = extractMask(await decodeImageFile(Buffer.from(await segmented.arrayBuffer())));
+  if (mask.width !== image.width || mask.height !== image.height) {
+    mask = upsampleMask(mask, image);
+  }
+
+  const result = await renderOutput(image, mask, config, sharpBackend);
+
+  const targetDir = path.join(outDir, file.relativeDir);
+  await mkdir(targetDir, { recursive: true });
+  const filename = path.basename(file.path);
+  const output = path.join(targetDir, getOutputFilename(filename, config.output));
+  const { blob, sidecar } = await attachMetadata(result.blob, { config, filename, file: new Blob([input]), library });
+  await writeFile(output, Buffer.from(await blob.arrayBuffer()));
+
+  let metadataPath: string | undefined;
+  if (sidecar) {
+    metadataPath = path.join(targetDir, getMetadataFilename(filename, config.output));
+    await writeFile(metadataPath, Buffer.from(await sidecar.arrayBuffer()));
+  }
+
+  let maskPath: string | undefined;
+  if (writeMask) {
+    maskPath = path.join(targetDir, getMaskFilename(filename));
+    await writeFile(maskPath, Buffer.from(await result.refinedMask.arrayBuffer()));
+  }
+
+  return { input: file.path, status: 'success', output, metadata: metadataPath, mask: maskPath };
+}
+
+// 以固定并发数依次处理任务
+async function runPool<T>(items: T[], concurrency: number, run: (item: T, index: number) => Promise<void>) {
+  let next = 0;
+  const workers = Array.from({ length: Math.min(concurrency, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      await run(items[index], index);
+    }
+  });
+  await Promise.all(workers);
+}
+
+async function main(): Promise<number> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      config: { type: 'string', short: 'c' },
+      preset: { type: 'string', short: 'p' },
+      out: { type: 'string', short: 'o', default: 'output' },
+      concurrency: { type: 'string', short: 'j', default: '2' },
+      report: { type: 'string', short: 'r' },
+      mask: { type: 'boolean', default: false },
+      'background-image': { type: 'string' },
+      'public-path': { type: 'string' },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (positionals.length === 0) {
+    throw new UsageError('请指定要处理的图片、目录或 glob');
+  }
+
+  const concurrency = Number(values.concurrency);
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new UsageError(`无效的并发数: ${values.concurrency}`);
+  }
+
+  const presetConfig = await loadConfig(values.config, values.preset);
+  const config = applyPresetConfig(presetConfig, defaultConfig);
+  if (values['background-image']) {
+    const image = await readFile(values['background-image']).catch(() => {
+      throw new UsageError(`无法读取背景图片: ${values['background-image']}`);
+    });
+    config.background = { ...config.background, image: new Blob([image]) };
+  } else if (config.output.type === 'foreground' && config.background.mode === 'image') {
+    throw new UsageError('背景模式为图片时需要通过 --background-image 指定背景图');
+  }
+
+  const files = await collectInputFiles(positionals).catch((err: Error) => {
+    throw new UsageError(err.message);
+  });
+  if (files.length === 0) {
+    throw new UsageError('没有找到可处理的图片');
+  }
+
+  const outDir = path.resolve(values.out);
+  const reportPath = path.resolve(values.report ?? path.join(outDir, 'report.json'));
+  const nodeConfig = createNodeConfig(config, values['public-path']);
+  const library = await getLibrary();
+
+  console.log(`共 ${files.length} 张图片，模型 ${config.model}，输出 ${config.output.type} / ${config.output.format}，并发 ${concurrency}`);
+
+  const startedAt = Date.now();
+  const reports: FileReport[] = new Array(files.length);
+  let finished = 0;
+
+  await runPool(files, concurrency, async (file, index) => {
+    const fileStart = Date.now();
+    let report: FileReport;
+    try {
+      report = { ...(await processFile(file, config, nodeConfig, outDir, values.mask, library)), durationMs: Date.now() - fileStart };
+    } catch (err) {
+      report = {
+        input: file.path,
+        status: 'failed',
+        error: err instanceof Error ? err.message : String(err),
+        durationMs: Date.now() - fileStart,
+      };
+    }
+    reports[index] = report;
+    finished++;
+
+    const counter = `[${String(finished).padStart(String(files.length).length)}/${files.length}]`;
+    const seconds = (report.durationMs / 1000).toFixed(1);
+    const relativeInput = path.relative(process.cwd(), file.path);
+    if (report.status === 'success') {
+      console.log(`${counter} ✓ ${relativeInput} → ${path.relative(process.cwd(), report.output!)} (${seconds}s)`);
+    } else {
+      console.error(`${counter} ✗ ${relativeInput}: ${report.error}`);
+    }
+  });
+
+  const failed = reports.filter((report) => report.status === 'failed').length;
+  const batchReport: BatchReport = {
+    startedAt: new Date(startedAt).toISOString(),
+    finishedAt: new Date().toISOString(),
+    durationMs: Date.now() - startedAt,
+    config: presetConfig,
+    total: files.length,
+    succeeded: files.length - failed,
+    failed,
+    files: reports,
+  };
+  await mkdir(path.dirname(reportPath), { recursive: true });
+  await writeFile(reportPath, JSON.stringify(batchReport, null, 2));
+
+  console.log(`完成：成功 ${batchReport.succeeded} 张，失败 ${failed} 张，用时 ${(batchReport.durationMs / 1000).toFixed(1)}s`);
+  console.log(`报告已写入 ${path.relative(process.cwd(), reportPath)}`);
+  return failed > 0 ? 1 : 0;
+}
+
+main().then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (err) => {
+    if (err instanceof PresetValidationError) {
+      console.error('配置无效:');
+      err.issues.forEach((issue) => console.error(`  ${issue}`));
+    } else if (err instanceof UsageError || (err instanceof TypeError && 'code' in err && String(err.code).startsWith('ERR_PARSE_ARGS'))) {
+      console.error(err.message);
+      console.error('使用 --help 查看用法');
+    } else {
+      console.error(err);
+    }
+    process.exitCode = 2;
+  }
+);
@@ -0,0 +1,172 @@
+import sharp from 'sharp';
+import type { RenderBackend } from '../src/utils/render';
+import type { BackgroundReplacement } from '../src/utils/compositing';
+
+// Node 中没有画布，共享的渲染流程所需的缩放、背景合成与编码由 sharp 实现
+
+// Node 没有 ImageData，共享模块中的纯像素处理只依赖它的 data/width/height
+class NodeImageData {
+  readonly colorSpace = 'srgb' as const;
+  readonly data: Uint8ClampedArray;
+  readonly width: number;
+  readonly height: number;
+
+  constructor(dataOrWidth: Uint8ClampedArray | number, widthOrHeight: number, height?: number) {
+    if (typeof dataOrWidth === 'number') {
+      this.width = dataOrWidth;
+      this.height = widthOrHeight;
+      this.data = new Uint8ClampedArray(dataOrWidth * widthOrHeight * 4);
+    } else {
+      this.data = dataOrWidth;
+      this.width = widthOrHeight;
+      this.height = height ?? dataOrWidth.length / 4 / widthOrHeight;
+    }
+  }
+}
+
+const globals = globalThis as { ImageData?: unknown };
+globals.ImageData ??= NodeImageData;
+
+function toImageData(data: Buffer, width: number, height: number): ImageData {
+  return new ImageData(new Uint8ClampedArray(data.buffer, data.byteOffset, data.length), width, height);
+}
+
+function fromImageData(image: ImageData) {
+  return sharp(Buffer.from(image.data.buffer, image.data.byteOffset, image.data.length), {
+    raw: { width: image.width, height: image.height, channels: 4 },
+  });
+}
+
+// 解码图片为 RGBA 像素，并按 EXIF 方向旋转（与浏览器 createImageBitmap 的默认行为一致）
+export async function decodeImageFile(input: Buffer): Promise<ImageData> {
+  const { data, info } = await sharp(input).rotate().ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+  return toImageData(data, info.width, info.height);
+}
+
+// 编码为 PNG 供推理使用，可同时缩小到工作分辨率
+export async function encodeForInference(input: Buffer, width: number, height: number): Promise<Buffer> {
+  return sharp(input).rotate().resize(width, height, { fit: 'fill' }).png({ compressionLevel: 1 }).toBuffer();
+}
+
+async function renderBackdrop(
+  width: number,
+  height: number,
+  original: ImageData,
+  background: BackgroundReplacement
+): Promise<Buffer> {
+  const raw = { resolveWithObject: false } as const;
+
+  switch (background.mode) {
+    case 'color':
+      return sharp({ create: { width, height, channels: 4, background: background.color } }).raw().toBuffer(raw);
+    case 'gradient': {
+      // 渐变线长度覆盖整个画布，与浏览器端 fillGradient 的几何一致
+      const angle = (background.gradientAngle * Math.PI) / 180;
+      const length = Math.abs(width * Math.cos(angle)) + Math.abs(height * Math.sin(angle));
+      const dx = (Math.cos(angle) * length) / 2;
+      const dy = (Math.sin(angle) * length) / 2;
+      const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+        <defs><linearGradient id="g" gradientUnits="userSpaceOnUse"
+          x1="${width / 2 - dx}" y1="${height / 2 - dy}" x2="${width / 2 + dx}" y2="${height / 2 + dy}">
+          <stop offset="0" stop-color="${background.gradientFrom}"/>
+          <stop offset="1" stop-color="${background.gradientTo}"/>
+        </linearGradient></defs>
+        <rect width="${width}" height="${height}" fill="url(#g)"/>
+      </svg>`;
+      return sharp(Buffer.from(svg)).resize(width, height, { fit: 'fill' }).ensureAlpha().raw().toBuffer(raw);
+    }
+    case 'blur':
+      return fromImageData(original).blur(Math.max(0.3, background.blurRadius)).raw().toBuffer(raw);
+    case 'image': {
+      if (!background.image) break;
+      const fit = background.imageFit === 'stretch' ? 'fill' : background.imageFit;
+      return sharp(Buffer.from(await background.image.arrayBuffer()))
+        .rotate()
+        .resize(width, height, { fit, background: { r: 0, g: 0, b: 0, alpha: 0 } })
+        .ensureAlpha()
+        .raw()
+        .toBuffer(raw);
+    }
+    case 'none':
+      break;
+  }
+  return Buffer.alloc(width * height * 4);
+}
+
+// 将主体按 source-over 规则叠加到背景上，超出画布的部分被裁掉
+function drawOver(
+  target: Buffer,
+  width: number,
+  height: number,
+  subject: ArrayLike<number>,
+  subjectWidth: number,
+  subjectHeight: number,
+  left: number,
+  top: number
+) {
+  const startX = Math.max(0, left);
+  const endX = Math.min(width, left + subjectWidth);
+  const startY = Math.max(0, top);
+  const endY = Math.min(height, top + subjectHeight);
+
+  for (let y = startY; y < endY; y++) {
+    for (let x = startX; x < endX; x++) {
+      const s = ((y - top) * subjectWidth + (x - left)) * 4;
+      const d = (y * width + x) * 4;
+      const sourceAlpha = subject[s + 3] / 255;
+      if (sourceAlpha === 0) continue;
+
+      const targetAlpha = (target[d + 3] / 255) * (1 - sourceAlpha);
+      const alpha = sourceAlpha + targetAlpha;
+      for (let c = 0; c < 3; c++) {
+        target[d + c] = Math.round((subject[s + c] * sourceAlpha + target[d + c] * targetAlpha) / alpha);
+      }
+      target[d + 3] = Math.round(alpha * 255);
+    }
+  }
+}
+
+export const sharpBackend: RenderBackend = {
+  async resize(image, width, height) {
+    const data = await fromImageData(image).resize(width, height, { fit: 'fill' }).raw().toBuffer();
+    return toImageData(data, width, height);
+  },
+
+  // 与浏览器端 compositeBackground 相同：先绘制背景，再按缩放和偏移放置主体
+  async composite(foreground, original, background) {
+    const { width, height } = foreground;
+    const target = await renderBackdrop(width, height, original, background);
+
+    const subjectWidth = Math.max(1, Math.round(width * background.subjectScale));
+    const subjectHeight = Math.max(1, Math.round(height * background.subjectScale));
+    const subject = subjectWidth === width && subjectHeight === height
+      ? foreground.data
+      : await fromImageData(foreground).resize(subjectWidth, subjectHeight, { fit: 'fill' }).raw().toBuffer();
+    const left = Math.round((width - subjectWidth) / 2 + background.subjectOffsetX * width);
+    const top = Math.round((height - subjectHeight) / 2 + background.subjectOffsetY * height);
+    drawOver(target, width, height, subject, subjectWidth, subjectHeight, left, top);
+
+    return toImageData(target, width, height);
+  },
+
+  async encode(image, output) {
+    const quality = Math.round(output.quality * 100);
+    const pipeline = fromImageData(image);
+    let data: Buffer;
+    switch (output.format) {
+      case 'image/jpeg':
+        // 透明区域已在渲染时叠加到底色上
+        data = await pipeline.removeAlpha().jpeg({ quality }).toBuffer();
+        break;
+      case 'image/webp':
+        data = await pipeline.webp({ quality }).toBuffer();
+        break;
+      case 'image/avif':
+        data = await pipeline.avif({ quality }).toBuffer();
+        break;
+      default:
+        data = await pipeline.png().toBuffer();
+    }
+    return new Blob([data], { type: output.format });
+  },
+};
@@ -0,0 +1,86 @@
+// Service Worker：缓存应用外壳和模型资源，首次加载后可离线使用
+// 构建时由 vite.config.ts 中的 serviceWorker 插件注入构建产物列表和版本号
+
+const PRECACHE_FILES = self.__PRECACHE_FILES__;
+const SHELL_CACHE = `background-removal-shell-${self.__BUILD_VERSION__}`;
+// 与 src/utils/modelAssets.ts 中的 MODEL_CACHE_NAME 保持一致
+const MODEL_CACHE = 'background-removal-models';
+// 本站提供的模型资源目录，Service Worker 注册在 base 路径下，与 src/utils/modelAssets.ts 中的 DEFAULT_PUBLIC_PATH 一致
+const MODEL_PATH = new URL('background-removal-data/', self.registration.scope).pathname;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then((cache) => cache.addAll(PRECACHE_FILES))
+      .then(() => self.skipWaiting())
+  );
+});
+
+// 删除旧版本的应用外壳，模型缓存跨版本保留
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys
+          .filter((key) => key.startsWith('background-removal-shell-') && key !== SHELL_CACHE)
+          .map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+// 模型分块以内容哈希命名，内容不会变化；本站模型目录中的文件同样放入模型缓存，跨版本保留
+function isModelChunk(url) {
+  return /\/[0-9a-f]{64}$/.test(url.pathname)
+    || (url.origin === self.location.origin && url.pathname.startsWith(MODEL_PATH));
+}
+
+function isResourceMap(url) {
+  return url.pathname.endsWith('/resources.json');
+}
+
+async function cacheFirst(request, cacheName) {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+async function networkFirst(request, cacheName, fallbackUrl) {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      await cache.put(fallbackUrl ?? request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(fallbackUrl ?? request);
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (isResourceMap(url)) {
+    event.respondWith(networkFirst(request, MODEL_CACHE));
+  } else if (isModelChunk(url)) {
+    event.respondWith(cacheFirst(request, MODEL_CACHE));
+  } else if (url.origin !== self.location.origin) {
+    return;
+  } else if (request.mode === 'navigate') {
+    // 页面始终尝试获取最新版本，离线时使用缓存的 index.html
+    event.respondWith(networkFirst(request, SHELL_CACHE, new URL('./', self.registration.scope).href));
+  } else {
+    event.respondWith(cacheFirst(request, SHELL_CACHE));
+  }
+});
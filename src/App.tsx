@@ -1,37 +1,138 @@
-import React, { useState, useCallback, useRef } from 'react';
-import { Upload, Download, X, ImageIcon, Loader2, RefreshCw, AlertCircle, Sparkles } from 'lucide-react';
-import { processImageBackgroundRemoval, loadModel, isModelReady, resetModel, defaultConfig } from './utils/backgroundRemoval';
+import React, { useState, useCallback, useRef, useEffect } from 'react';
+import { Upload, Download, ImageIcon, Loader2, RefreshCw, AlertCircle, Sparkles, ArrowLeft, X, Brush, Copy, Check, Link, Camera, MousePointerClick } from 'lucide-react';
+import { processImageBackgroundRemoval, renderProcessedImage, loadModel, getDisplayBlob, defaultConfig, ProcessingConfig, ProcessingProgress, ProcessingResult, ProcessingStats, processingStageLabels } from './utils/backgroundRemoval';
+import { FileTooLargeError, ProcessingCancelledError, ProcessingError, RecoveryAction, UnsupportedFormatError, getRecoveryActions, toProcessingError } from './utils/errors';
+import { ErrorNotice } from './components/ErrorNotice';
+import { createResultsZip, downloadBlob, getMetadataFilename, getOutputFilename, stripExtension, ZipOptions } from './utils/download';
 import { ConfigPanel } from './components/ConfigPanel';
-import { Config } from '@imgly/background-removal';
+import { BatchQueue, QueueItem } from './components/BatchQueue';
+import { MaskEditor } from './components/MaskEditor';
+import { SubjectSelector } from './components/SubjectSelector';
+import { HistoryPanel } from './components/HistoryPanel';
+import { BenchmarkPanel } from './components/BenchmarkPanel';
+import { AnimationProcessor } from './components/AnimationProcessor';
+import { WebcamView } from './components/WebcamView';
+import { applyPresetConfig, loadInitialConfig, restoreStoredConfig } from './utils/presets';
+import { clearConfigHash, readLinkedConfig } from './utils/shareLink';
+import { loadPublicPath, savePublicPath } from './utils/modelAssets';
+import { copyImageToClipboard, fetchImageFromUrl, getClipboardImageFiles, isImageUrl, readImageSize } from './utils/imageInput';
+import { LargeImageMode, isLargeImage } from './utils/largeImage';
+import { LargeImageNotice } from './components/LargeImageNotice';
+import { ComparisonViewer } from './components/ComparisonViewer';
+import { HistoryEntry, createHistoryId, saveHistoryEntry } from './utils/historyStore';
+import { DeviceCapabilities, detectCapabilities } from './utils/capabilities';
+import { formatDuration, formatPercent } from './utils/format';
+import { isAnimatedSource } from './utils/frameSource';
+import { isWebcamSupported } from './utils/webcam';
+import { getOutputFormat } from './utils/outputFormats';
+import { attachMetadata } from './utils/metadata';
+import { t } from './i18n';
+import { useI18n } from './i18n/useI18n';
+import { LanguageSwitcher } from './components/LanguageSwitcher';
 
-interface ProcessedImage {
-  original: string;
-  processed: string;
-  filename: string;
+// 大图会缩小到工作分辨率推理，这里只拦截明显异常的文件
+const MAX_FILE_SIZE = 100 * 1024 * 1024; // 100MB limit
+
+// 写入导出文件元数据的推理库版本
+const LIBRARY = `@imgly/background-removal@${__LIBRARY_VERSION__}`;
+
+// 校验图片文件，返回对应的错误；合法时返回 null
+function validateImageFile(file: File): ProcessingError | null {
+  if (!file.type.startsWith('image/')) {
+    return new UnsupportedFormatError(t('app.errors.invalidImage'));
+  }
+
+  if (file.size > MAX_FILE_SIZE) {
+    return new FileTooLargeError(t('app.errors.fileTooLarge'));
+  }
+
+  return null;
+}
+
+// 导出前按设置写入处理信息，格式不支持嵌入时返回附带的 JSON 文件
+function attachItemMetadata(item: QueueItem, blob: Blob, config: ProcessingConfig) {
+  return attachMetadata(blob, { config, stats: item.result?.stats, filename: item.filename, file: item.file, library: LIBRARY });
 }
 
 function App() {
-  const [isProcessing, setIsProcessing] = useState(false);
-  const [processedImage, setProcessedImage] = useState<ProcessedImage | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  const { locale } = useI18n();
+  const [queue, setQueue] = useState<QueueItem[]>([]);
+  const [activeItemId, setActiveItemId] = useState<string | null>(null);
+  // 分享链接中的配置优先于上次使用的预设
+  const [linked] = useState(readLinkedConfig);
+  const [error, setError] = useState<string | null>(linked.error);
+  // 模型加载失败的原因，按错误码提供恢复操作
+  const [modelError, setModelError] = useState<ProcessingError | null>(null);
   const [dragOver, setDragOver] = useState(false);
   const [modelLoaded, setModelLoaded] = useState(false);
   const [loadingProgress, setLoadingProgress] = useState(0);
-  const [config, setConfig] = useState<Config>(defaultConfig);
+  const [config, setConfig] = useState<ProcessingConfig>(() => ({
+    ...(linked.config ? applyPresetConfig(linked.config, defaultConfig) : loadInitialConfig()),
+    publicPath: loadPublicPath()
+  }));
   const [configPanelOpen, setConfigPanelOpen] = useState(false);
+  const [isEditingMask, setIsEditingMask] = useState(false);
+  const [isSelectingSubject, setIsSelectingSubject] = useState(false);
+  const [historyPanelOpen, setHistoryPanelOpen] = useState(false);
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [benchmarkOpen, setBenchmarkOpen] = useState(false);
+  const [imageUrl, setImageUrl] = useState('');
+  const [isFetchingUrl, setIsFetchingUrl] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [capabilities, setCapabilities] = useState<DeviceCapabilities | null>(null);
+  // 视频或动图单独逐帧处理，不进入图片队列
+  const [animationFile, setAnimationFile] = useState<File | null>(null);
+  const [animationBusy, setAnimationBusy] = useState(false);
+  // 摄像头实时预览推理时暂停队列
+  const [webcamOpen, setWebcamOpen] = useState(false);
+  const [webcamBusy, setWebcamBusy] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const nextItemId = useRef(0);
+  // 正在处理的图片对应的取消控制器
+  const abortControllers = useRef(new Map<string, AbortController>());
+
+  const isProcessing = queue.some((item) => item.status === 'processing');
+  const activeItem = queue.find((item) => item.id === activeItemId) ?? null;
+  // 只有一张图片时保持单图处理的交互
+  const isSingleMode = queue.length === 1;
+  // 单张大图等待选择处理模式
+  const isAwaitingLargeImageChoice = isSingleMode && queue[0].status === 'confirm';
+
+  // 模型下载的真实进度
+  const reportLoadingProgress = useCallback(({ progress }: ProcessingProgress) => {
+    setLoadingProgress(Math.round(progress * 100));
+  }, []);
+
+  // 页面语言和标题跟随界面语言
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    document.title = t('app.documentTitle');
+  }, [locale]);
+
+  // 链接中的配置已经应用，从地址栏移除
+  useEffect(() => {
+    if (linked.config) clearConfigHash();
+  }, [linked]);
+
+  // 探测浏览器能力，缺少 WASM SIMD 时模型无法运行
+  useEffect(() => {
+    detectCapabilities().then((detected) => {
+      setCapabilities(detected);
+      if (!detected.wasmSimd) {
+        setError(t('app.errors.wasmSimd'));
+      }
+    });
+  }, []);
 
   // 预加载模型
   React.useEffect(() => {
     const initModel = async () => {
       try {
-        setLoadingProgress(20);
-        await loadModel(config);
-        setLoadingProgress(100);
+        await loadModel(config, { onProgress: reportLoadingProgress });
         setModelLoaded(true);
       } catch (err) {
         console.error('模型加载失败:', err);
-        setError('AI模型加载失败，请刷新页面重试');
+        setModelError(toProcessingError(err, 'MODEL_FETCH_FAILED'));
         setModelLoaded(false);
       }
     };
@@ -40,81 +141,259 @@ function App() {
   }, []);
 
   // 当配置改变时重新加载模型
-  const handleConfigChange = useCallback(async (newConfig: Config) => {
+  const handleConfigChange = useCallback(async (newConfig: ProcessingConfig) => {
     setConfig(newConfig);
+    if (newConfig.publicPath !== config.publicPath) {
+      savePublicPath(newConfig.publicPath);
+    }
     
     // 如果模型相关配置改变，重新加载模型
     if (
       newConfig.model !== config.model || 
       newConfig.device !== config.device ||
-      newConfig.debug !== config.debug
+      newConfig.debug !== config.debug ||
+      newConfig.publicPath !== config.publicPath
     ) {
       setModelLoaded(false);
       setLoadingProgress(0);
-      resetModel();
       
       try {
-        setLoadingProgress(20);
-        await loadModel(newConfig);
-        setLoadingProgress(100);
+        await loadModel(newConfig, { onProgress: reportLoadingProgress });
         setModelLoaded(true);
         setError(null);
+        setModelError(null);
       } catch (err) {
         console.error('模型重新加载失败:', err);
-        setError('AI模型加载失败，请检查配置或刷新页面重试');
+        setModelError(toProcessingError(err, 'MODEL_FETCH_FAILED'));
         setModelLoaded(false);
       }
     }
-  }, [config]);
+  }, [config, reportLoadingProgress]);
 
-  const handleFileSelect = useCallback(async (file: File) => {
-    if (!file.type.startsWith('image/')) {
-      setError('请选择有效的图片文件（JPG、PNG、WEBP等）');
-      return;
-    }
+  // 取消处理或性能测试会终止推理 Worker，需要重新加载模型后才能继续处理队列
+  const reloadModel = useCallback(async () => {
+    setModelLoaded(false);
+    setLoadingProgress(0);
 
-    if (file.size > 10 * 1024 * 1024) { // 10MB limit
-      setError('图片文件大小不能超过10MB');
-      return;
+    try {
+      await loadModel(config, { onProgress: reportLoadingProgress });
+      setModelLoaded(true);
+      setModelError(null);
+    } catch (err) {
+      console.error('模型重新加载失败:', err);
+      setModelError(toProcessingError(err, 'MODEL_FETCH_FAILED'));
     }
+  }, [config, reportLoadingProgress]);
 
-    if (!isModelReady()) {
-      setError('AI模型尚未加载完成，请稍候再试');
-      return;
+  const updateQueueItem = useCallback((id: string, updates: Partial<QueueItem>) => {
+    setQueue((items) => items.map((item) => (item.id === id ? { ...item, ...updates } : item)));
+  }, []);
+
+  // 将处理结果写入历史记录，保存失败不影响当前结果
+  const saveToHistory = useCallback(async (
+    historyId: string,
+    item: Pick<QueueItem, 'file' | 'filename'>,
+    result: ProcessingResult,
+    itemConfig: ProcessingConfig
+  ) => {
+    try {
+      await saveHistoryEntry({
+        id: historyId,
+        filename: item.filename,
+        createdAt: Date.now(),
+        original: item.file,
+        mask: result.mask,
+        refinedMask: result.refinedMask,
+        output: result.blob,
+        preview: result.preview,
+        config: itemConfig,
+        stats: result.stats
+      });
+      setHistoryVersion((version) => version + 1);
+    } catch (err) {
+      console.error('历史记录保存失败:', err);
+      setError(t('app.errors.historySave'));
     }
+  }, []);
 
-    setError(null);
-    setIsProcessing(true);
+  // 处理队列中的单张图片，失败只影响当前项
+  const processQueueItem = useCallback(async (item: QueueItem) => {
+    const controller = new AbortController();
+    abortControllers.current.set(item.id, controller);
+    updateQueueItem(item.id, { status: 'processing', error: undefined, errorCode: undefined, progress: undefined });
 
     try {
-      const originalUrl = URL.createObjectURL(file);
-      
-      // 使用当前配置处理图片
-      const processedBlob = await processImageBackgroundRemoval(file, config);
-      const processedUrl = URL.createObjectURL(processedBlob);
+      const validationError = validateImageFile(item.file);
+      if (validationError) {
+        throw validationError;
+      }
+
+      // 大图先显示预估，等待用户选择处理模式
+      const imageSize = item.imageSize ?? await readImageSize(item.file);
+      if (config.largeImage.confirm && !item.largeImageMode && isLargeImage(imageSize)) {
+        updateQueueItem(item.id, { status: 'confirm', imageSize });
+        return;
+      }
+
+      // 使用当前配置处理图片，大图按用户选择的模式推理
+      const itemConfig: ProcessingConfig = item.largeImageMode
+        ? { ...config, largeImage: { ...config.largeImage, mode: item.largeImageMode } }
+        : config;
+      const result = await processImageBackgroundRemoval(item.file, itemConfig, {
+        signal: controller.signal,
+        onProgress: (progress) => updateQueueItem(item.id, { progress })
+      });
+      const processedUrl = URL.createObjectURL(getDisplayBlob(result));
+      const historyId = item.historyId ?? createHistoryId();
 
-      setProcessedImage({
-        original: originalUrl,
+      updateQueueItem(item.id, {
+        status: 'done',
         processed: processedUrl,
-        filename: file.name
+        result,
+        config: itemConfig,
+        progress: undefined,
+        historyId,
+        imageSize
       });
+      saveToHistory(historyId, item, result, itemConfig);
     } catch (err) {
-      setError(err instanceof Error ? err.message : '处理图片时出现错误，请重试');
-      console.error('Background removal error:', err);
+      const processingError = toProcessingError(err);
+      updateQueueItem(item.id, {
+        status: 'failed',
+        error: processingError.message,
+        errorCode: processingError.code,
+        progress: undefined
+      });
+
+      if (processingError instanceof ProcessingCancelledError) {
+        reloadModel();
+      } else {
+        console.error('Background removal error:', err);
+      }
     } finally {
-      setIsProcessing(false);
+      abortControllers.current.delete(item.id);
     }
-  }, [config]);
+  }, [config, updateQueueItem, reloadModel, saveToHistory]);
+
+  const cancelItem = useCallback((id: string) => {
+    abortControllers.current.get(id)?.abort();
+  }, []);
+
+  const chooseLargeImageMode = useCallback((id: string, largeImageMode: LargeImageMode) => {
+    updateQueueItem(id, { status: 'pending', largeImageMode });
+  }, [updateQueueItem]);
+
+  // 输出或背景设置改变时，用缓存的蒙版重新生成当前查看的结果
+  useEffect(() => {
+    if (!activeItem?.result || !activeItem.config || activeItem.config === config) return;
+
+    // 模型相关配置改变需要重新推理，保留原结果
+    if (activeItem.config.model !== config.model || activeItem.config.device !== config.device) return;
+
+    const { id, file, result, processed, historyId } = activeItem;
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const rendered = { ...(await renderProcessedImage(file, result.mask, config)), stats: result.stats };
+        if (cancelled) return;
+
+        if (processed) URL.revokeObjectURL(processed);
+        updateQueueItem(id, { processed: URL.createObjectURL(getDisplayBlob(rendered)), result: rendered, config });
+        if (historyId) {
+          saveToHistory(historyId, activeItem, rendered, config);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : t('app.errors.render'));
+        }
+      }
+    }, 250);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [activeItem, config, updateQueueItem, saveToHistory]);
+
+  // 依次处理队列中等待的图片
+  useEffect(() => {
+    if (!modelLoaded || isProcessing || animationBusy || webcamBusy) return;
+
+    const nextItem = queue.find((item) => item.status === 'pending');
+    if (nextItem) {
+      processQueueItem(nextItem);
+    }
+  }, [queue, modelLoaded, isProcessing, animationBusy, webcamBusy, processQueueItem]);
+
+  // 单图处理完成后直接展示结果
+  useEffect(() => {
+    if (isSingleMode && queue[0].status === 'done' && activeItemId === null) {
+      setActiveItemId(queue[0].id);
+    }
+  }, [queue, isSingleMode, activeItemId]);
+
+  const handleFilesSelect = useCallback(async (files: File[]) => {
+    if (files.length === 0) return;
+
+    setError(null);
+    // 视频和多帧动图逐帧处理，一次只能打开一个
+    const animated = await Promise.all(files.map(isAnimatedSource));
+    const animationFiles = files.filter((_, index) => animated[index]);
+    const imageFiles = files.filter((_, index) => !animated[index]);
+    if (animationFiles.length > 0) {
+      if (animationFiles.length > 1 || imageFiles.length > 0) {
+        setError(t('app.errors.singleAnimation'));
+        return;
+      }
+      setAnimationFile(animationFiles[0]);
+      return;
+    }
+
+    const newItems = imageFiles.map((file): QueueItem => ({
+      id: `item-${nextItemId.current++}`,
+      file,
+      filename: file.name,
+      status: 'pending',
+      original: URL.createObjectURL(file)
+    }));
+    setQueue((items) => {
+      // 单图处理失败后重新选择图片时，替换掉失败的那一项
+      if (items.length === 1 && items[0].status === 'failed') {
+        URL.revokeObjectURL(items[0].original);
+        return newItems;
+      }
+      return [...items, ...newItems];
+    });
+  }, []);
+
+  // 从网络地址加载图片
+  const loadImageFromUrl = useCallback(async (url: string) => {
+    setError(null);
+    setIsFetchingUrl(true);
+    try {
+      const file = await fetchImageFromUrl(url);
+      handleFilesSelect([file]);
+      setImageUrl('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('app.errors.fetchImage'));
+    } finally {
+      setIsFetchingUrl(false);
+    }
+  }, [handleFilesSelect]);
+
+  const handleUrlSubmit = useCallback((e: React.FormEvent) => {
+    e.preventDefault();
+    if (imageUrl.trim()) {
+      loadImageFromUrl(imageUrl);
+    }
+  }, [imageUrl, loadImageFromUrl]);
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     setDragOver(false);
     
-    const files = Array.from(e.dataTransfer.files);
-    if (files.length > 0) {
-      handleFileSelect(files[0]);
-    }
-  }, [handleFileSelect]);
+    handleFilesSelect(Array.from(e.dataTransfer.files));
+  }, [handleFilesSelect]);
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -127,63 +406,299 @@ function App() {
   }, []);
 
   const handleFileChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      handleFileSelect(file);
+    handleFilesSelect(Array.from(e.target.files ?? []));
+    e.target.value = '';
+  }, [handleFilesSelect]);
+
+  const retryItem = useCallback((id: string) => {
+    updateQueueItem(id, { status: 'pending', error: undefined, errorCode: undefined });
+  }, [updateQueueItem]);
+
+  const retryFailedItems = useCallback(() => {
+    setQueue((items) => items.map((item) => (
+      item.status === 'failed' ? { ...item, status: 'pending', error: undefined, errorCode: undefined } : item
+    )));
+  }, []);
+
+  const removeItem = useCallback((id: string) => {
+    setQueue((items) => items.filter((item) => {
+      if (item.id !== id) return true;
+      URL.revokeObjectURL(item.original);
+      if (item.processed) URL.revokeObjectURL(item.processed);
+      return false;
+    }));
+  }, []);
+
+  const downloadImage = useCallback(async () => {
+    if (!activeItem?.result) return;
+
+    const itemConfig = activeItem.config ?? config;
+    try {
+      const { blob, sidecar } = await attachItemMetadata(activeItem, activeItem.result.blob, itemConfig);
+      downloadBlob(blob, getOutputFilename(activeItem.filename, itemConfig.output));
+      if (sidecar) {
+        downloadBlob(sidecar, getMetadataFilename(activeItem.filename, itemConfig.output));
+      }
+    } catch (err) {
+      console.error('导出失败:', err);
+      setError(t('app.errors.export'));
     }
-  }, [handleFileSelect]);
+  }, [activeItem, config]);
 
-  const downloadImage = useCallback(() => {
-    if (!processedImage) return;
+  // 应用手动精修后的蒙版，重新生成各类输出而不再推理
+  const applyEditedMask = useCallback(async (mask: Blob) => {
+    if (!activeItem?.result) return;
 
-    const link = document.createElement('a');
-    link.href = processedImage.processed;
-    
-    // 根据输出格式确定文件扩展名
-    const extension = config.output.format === 'image/png' ? 'png' : 
-                     config.output.format === 'image/jpeg' ? 'jpg' : 'webp';
-    
-    const outputType = config.output.type === 'foreground' ? 'no-bg' :
-                      config.output.type === 'background' ? 'bg-only' : 'mask';
-    
-    link.download = `${outputType}-${processedImage.filename.replace(/\.[^/.]+$/, '')}.${extension}`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-  }, [processedImage, config]);
+    try {
+      const itemConfig = activeItem.config ?? config;
+      const rendered = { ...(await renderProcessedImage(activeItem.file, mask, itemConfig)), stats: activeItem.result.stats };
+      if (activeItem.processed) URL.revokeObjectURL(activeItem.processed);
+      updateQueueItem(activeItem.id, { processed: URL.createObjectURL(getDisplayBlob(rendered)), result: rendered });
+      if (activeItem.historyId) {
+        saveToHistory(activeItem.historyId, activeItem, rendered, itemConfig);
+      }
+      setIsEditingMask(false);
+      setIsSelectingSubject(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('app.errors.render'));
+    }
+  }, [activeItem, config, updateQueueItem, saveToHistory]);
 
-  const reset = useCallback(() => {
-    if (processedImage) {
-      URL.revokeObjectURL(processedImage.original);
-      URL.revokeObjectURL(processedImage.processed);
+  // 将选中的主体分别导出：每个主体裁剪到自身范围（已开启裁剪时沿用裁剪设置），多个主体打包为 ZIP
+  const exportSubjects = useCallback(async (masks: Blob[]) => {
+    if (!activeItem) return;
+
+    const itemConfig = activeItem.config ?? config;
+    const subjectConfig: ProcessingConfig = itemConfig.crop.enabled
+      ? itemConfig
+      : { ...itemConfig, crop: { ...itemConfig.crop, enabled: true, preset: 'trim' } };
+    const stem = stripExtension(activeItem.filename);
+    const entries = [];
+    for (const [index, mask] of masks.entries()) {
+      const rendered = await renderProcessedImage(activeItem.file, mask, subjectConfig);
+      const { blob, sidecar } = await attachItemMetadata(activeItem, rendered.blob, subjectConfig);
+      entries.push({ filename: `${stem}-${index + 1}.png`, output: subjectConfig.output, processed: blob, metadata: sidecar });
     }
-    setProcessedImage(null);
+
+    if (entries.length === 1) {
+      const [entry] = entries;
+      downloadBlob(entry.processed, getOutputFilename(entry.filename, entry.output));
+      if (entry.metadata) {
+        downloadBlob(entry.metadata, getMetadataFilename(entry.filename, entry.output));
+      }
+    } else {
+      const zipBlob = await createResultsZip(entries, { includeMask: false, includeOriginal: false });
+      downloadBlob(zipBlob, `${stem}-subjects.zip`);
+    }
+  }, [activeItem, config]);
+
+  // 摄像头拍照：用实时推理得到的蒙版生成结果，加入队列并直接查看
+  const addWebcamSnapshot = useCallback(async (file: File, mask: Blob, stats: ProcessingStats) => {
+    const rendered = { ...(await renderProcessedImage(file, mask, config)), stats };
+    const historyId = createHistoryId();
+    const item: QueueItem = {
+      id: `item-${nextItemId.current++}`,
+      file,
+      filename: file.name,
+      status: 'done',
+      original: URL.createObjectURL(file),
+      processed: URL.createObjectURL(getDisplayBlob(rendered)),
+      result: rendered,
+      config,
+      historyId
+    };
+
+    setQueue((items) => [...items, item]);
+    setActiveItemId(item.id);
+    setWebcamOpen(false);
+    saveToHistory(historyId, item, rendered, config);
+  }, [config, saveToHistory]);
+
+  // 从历史记录重新打开结果，并恢复当时的配置以便调整后重新导出
+  const openHistoryEntry = useCallback((entry: HistoryEntry) => {
+    // 模型资源地址不随历史记录切换，较早记录缺少的设置使用默认值补全
+    const entryConfig = restoreStoredConfig(entry.config, config.publicPath);
+    const item: QueueItem = {
+      id: `item-${nextItemId.current++}`,
+      file: new File([entry.original], entry.filename, { type: entry.original.type }),
+      filename: entry.filename,
+      status: 'done',
+      original: URL.createObjectURL(entry.original),
+      processed: URL.createObjectURL(entry.preview ?? entry.output),
+      result: { blob: entry.output, preview: entry.preview, mask: entry.mask, refinedMask: entry.refinedMask, stats: entry.stats },
+      config: entryConfig,
+      historyId: entry.id
+    };
+
+    setQueue((items) => [...items, item]);
+    setActiveItemId(item.id);
+    setIsEditingMask(false);
+    setIsSelectingSubject(false);
+    setHistoryPanelOpen(false);
+    handleConfigChange(entryConfig);
+  }, [config.publicPath, handleConfigChange]);
+
+  // 将所有已完成的结果打包下载
+  const downloadAllAsZip = useCallback(async (options: ZipOptions) => {
+    const doneItems = queue.flatMap((item) => (item.status === 'done' && item.result ? [{ item, result: item.result }] : []));
+    if (doneItems.length === 0) return;
+
+    try {
+      const entries = await Promise.all(doneItems.map(async ({ item, result }) => {
+        const itemConfig = item.config ?? config;
+        const { blob, sidecar } = await attachItemMetadata(item, result.blob, itemConfig);
+        return {
+          filename: item.filename,
+          output: itemConfig.output,
+          processed: blob,
+          metadata: sidecar,
+          mask: result.refinedMask,
+          original: item.file
+        };
+      }));
+      const zipBlob = await createResultsZip(entries, options);
+      downloadBlob(zipBlob, `background-removal-${Date.now()}.zip`);
+    } catch (err) {
+      console.error('ZIP打包失败:', err);
+      setError(t('app.errors.zip'));
+    }
+  }, [queue, config]);
+
+  const reset = useCallback(() => {
+    queue.forEach((item) => {
+      URL.revokeObjectURL(item.original);
+      if (item.processed) URL.revokeObjectURL(item.processed);
+    });
+    setQueue([]);
+    setActiveItemId(null);
+    setIsEditingMask(false);
+    setIsSelectingSubject(false);
     setError(null);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
-  }, [processedImage]);
+  }, [queue]);
+
+  // 执行错误提示中的恢复操作；itemId 为空时针对模型加载失败
+  const recoverFromError = useCallback((action: RecoveryAction, itemId?: string) => {
+    switch (action) {
+      case 'retry':
+        if (itemId) retryItem(itemId);
+        else reloadModel();
+        break;
+      case 'retry-on-cpu':
+        handleConfigChange({ ...config, device: 'cpu' });
+        if (itemId) retryItem(itemId);
+        break;
+      case 'downscale':
+        if (itemId) updateQueueItem(itemId, { status: 'pending', error: undefined, errorCode: undefined, largeImageMode: 'fast' });
+        break;
+      case 'reload-model':
+        reloadModel();
+        if (itemId) retryItem(itemId);
+        break;
+      case 'open-settings':
+        setConfigPanelOpen(true);
+        break;
+      case 'choose-another':
+        if (isSingleMode) reset();
+        else if (itemId) removeItem(itemId);
+        break;
+    }
+  }, [config, isSingleMode, retryItem, reloadModel, handleConfigChange, updateQueueItem, reset, removeItem]);
+
+  // Ctrl+V 粘贴图片直接开始处理；在页面空白处粘贴图片地址时自动下载
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      if (isEditingMask || isSelectingSubject) return;
+
+      const files = getClipboardImageFiles(e.clipboardData);
+      const target = e.target as HTMLElement | null;
+      const isEditable = target?.closest('input, textarea, [contenteditable="true"]');
+
+      if (files.length > 0) {
+        e.preventDefault();
+        // 单图模式下查看结果时粘贴新图片，开始新的处理
+        if (isSingleMode && activeItem) reset();
+        handleFilesSelect(files);
+        return;
+      }
+
+      const text = e.clipboardData?.getData('text/plain') ?? '';
+      if (!isEditable && isImageUrl(text)) {
+        e.preventDefault();
+        if (isSingleMode && activeItem) reset();
+        loadImageFromUrl(text);
+      }
+    };
+
+    document.addEventListener('paste', handlePaste);
+    return () => document.removeEventListener('paste', handlePaste);
+  }, [isEditingMask, isSelectingSubject, isSingleMode, activeItem, reset, handleFilesSelect, loadImageFromUrl]);
+
+  // 复制当前结果到剪贴板
+  const copyResult = useCallback(async () => {
+    if (!activeItem?.result) return;
+
+    try {
+      await copyImageToClipboard(getDisplayBlob(activeItem.result));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('复制失败:', err);
+      setError(err instanceof Error ? err.message : t('app.errors.copy'));
+    }
+  }, [activeItem]);
+
+  // 结果展示使用处理该图片时的配置
+  const resultConfig = activeItem?.config ?? config;
+  const resultStats = activeItem?.result?.stats;
 
   const getOutputTypeLabel = () => {
-    switch (config.output.type) {
-      case 'foreground': return '去背景后';
-      case 'background': return '背景部分';
-      case 'mask': return '蒙版图像';
-      default: return '处理结果';
+    switch (resultConfig.output.type) {
+      case 'foreground': return t('app.resultLabel.foreground');
+      case 'background': return t('app.resultLabel.background');
+      case 'mask': return t('app.resultLabel.mask');
+      default: return t('app.results.title');
     }
   };
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-purple-50 via-blue-50 to-indigo-100 flex items-center justify-center p-4">
       <div className="w-full max-w-6xl">
+        {/* History Panel */}
+        <HistoryPanel
+          isOpen={historyPanelOpen}
+          onToggle={() => setHistoryPanelOpen(!historyPanelOpen)}
+          onOpenEntry={openHistoryEntry}
+          version={historyVersion}
+        />
+
+        {/* Benchmark */}
+        <BenchmarkPanel
+          isOpen={benchmarkOpen}
+          onToggle={() => setBenchmarkOpen(!benchmarkOpen)}
+          config={config}
+          capabilities={capabilities}
+          queueFiles={queue.map((item) => item.file)}
+          disabled={isProcessing || !modelLoaded}
+          onStart={() => setModelLoaded(false)}
+          onFinish={reloadModel}
+        />
+
         {/* Config Panel */}
         <ConfigPanel
           config={config}
           onConfigChange={handleConfigChange}
+          modelLoaded={modelLoaded}
+          capabilities={capabilities}
           isOpen={configPanelOpen}
           onToggle={() => setConfigPanelOpen(!configPanelOpen)}
         />
 
+        {/* Language */}
+        <LanguageSwitcher />
+
         {/* Header */}
         <div className="text-center mb-8">
           <div className="flex items-center justify-center mb-4">
@@ -191,11 +706,11 @@ function App() {
               <Sparkles className="w-6 h-6 text-white" />
             </div>
             <h1 className="text-4xl font-bold bg-gradient-to-r from-purple-600 to-blue-600 bg-clip-text text-transparent">
-              AI背景去除工具
+              {t('app.title')}
             </h1>
           </div>
           <p className="text-lg text-gray-600 max-w-2xl mx-auto">
-            使用先进的AI技术，精准识别并去除图片背景。支持人物、物体、动物等多种场景，一键生成透明背景图片
+            {t('app.subtitle')}
           </p>
           
           {/* Model Loading Progress */}
@@ -203,7 +718,7 @@ function App() {
             <div className="mt-6 max-w-md mx-auto">
               <div className="flex items-center justify-center text-sm text-gray-600 mb-2">
                 <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                正在加载AI模型 ({config.model})...
+                {t('app.loadingModel', { model: config.model, progress: formatPercent(loadingProgress / 100) })}
               </div>
               <div className="w-full bg-gray-200 rounded-full h-2">
                 <div 
@@ -215,8 +730,36 @@ function App() {
           )}
         </div>
 
+        {/* Animation */}
+        {animationFile && (
+          <div className="mb-8">
+            <AnimationProcessor
+              file={animationFile}
+              config={config}
+              disabled={isProcessing || !modelLoaded}
+              onClose={() => setAnimationFile(null)}
+              onBusyChange={setAnimationBusy}
+              onCancelled={reloadModel}
+            />
+          </div>
+        )}
+
+        {/* Webcam */}
+        {webcamOpen && (
+          <div className="mb-8">
+            <WebcamView
+              config={config}
+              onConfigChange={handleConfigChange}
+              disabled={isProcessing || !modelLoaded}
+              onClose={() => setWebcamOpen(false)}
+              onBusyChange={setWebcamBusy}
+              onSnapshot={addWebcamSnapshot}
+            />
+          </div>
+        )}
+
         {/* Upload Area */}
-        {!processedImage && !isProcessing && modelLoaded && (
+        {!animationFile && !webcamOpen && !activeItem && !(isSingleMode && isProcessing) && !isAwaitingLargeImageChoice && modelLoaded && (
           <div className="bg-white rounded-2xl shadow-xl p-8 mb-8 border border-gray-100">
             <div
               className={`border-2 border-dashed rounded-xl p-12 text-center transition-all duration-300 ${
@@ -231,7 +774,8 @@ function App() {
               <input
                 ref={fileInputRef}
                 type="file"
-                accept="image/*"
+                accept="image/*,video/*"
+                multiple
                 onChange={handleFileChange}
                 className="hidden"
                 id="file-upload"
@@ -244,10 +788,10 @@ function App() {
                 
                 <div>
                   <h3 className="text-2xl font-semibold text-gray-900 mb-2">
-                    拖拽图片到这里或点击上传
+                    {t('app.upload.title')}
                   </h3>
                   <p className="text-gray-500 mb-6">
-                    支持 JPG、PNG、WEBP 格式，文件大小不超过 10MB
+                    {t('app.upload.desc')}
                   </p>
                   
                   <label
@@ -255,16 +799,76 @@ function App() {
                     className="inline-flex items-center px-8 py-3 bg-gradient-to-r from-purple-600 to-blue-600 text-white rounded-xl hover:from-purple-700 hover:to-blue-700 transition-all duration-200 cursor-pointer shadow-lg hover:shadow-xl transform hover:scale-105"
                   >
                     <ImageIcon className="w-5 h-5 mr-2" />
-                    选择图片
+                    {t('app.upload.choose')}
                   </label>
+                  {isWebcamSupported() && (
+                    <button
+                      onClick={() => setWebcamOpen(true)}
+                      className="inline-flex items-center px-8 py-3 ml-3 bg-white text-purple-700 border border-purple-300 rounded-xl hover:bg-purple-50 transition-all duration-200 shadow-lg hover:shadow-xl transform hover:scale-105"
+                    >
+                      <Camera className="w-5 h-5 mr-2" />
+                      {t('app.upload.webcam')}
+                    </button>
+                  )}
                 </div>
               </div>
             </div>
+
+            {/* Image URL Input */}
+            <form onSubmit={handleUrlSubmit} className="flex items-center gap-3 mt-6">
+              <div className="relative flex-1">
+                <Link className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+                <input
+                  type="url"
+                  value={imageUrl}
+                  onChange={(e) => setImageUrl(e.target.value)}
+                  placeholder={t('app.upload.urlPlaceholder')}
+                  className="w-full pl-9 pr-3 py-3 border border-gray-200 rounded-xl text-sm focus:outline-none focus:border-purple-400"
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={!imageUrl.trim() || isFetchingUrl}
+                className="flex items-center px-6 py-3 bg-white text-purple-700 border border-purple-300 rounded-xl hover:bg-purple-50 transition-all duration-200 disabled:opacity-50"
+              >
+                {isFetchingUrl && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                {t('app.upload.loadUrl')}
+              </button>
+            </form>
           </div>
         )}
 
+        {/* Batch Queue */}
+        {!animationFile && !webcamOpen && !activeItem && queue.length > 0 && !isSingleMode && (
+          <BatchQueue
+            items={queue}
+            onOpen={setActiveItemId}
+            onRetry={retryItem}
+            onRemove={removeItem}
+            onRetryFailed={retryFailedItems}
+            onClear={reset}
+            onDownloadZip={downloadAllAsZip}
+            onCancel={cancelItem}
+            onChooseLargeImageMode={chooseLargeImageMode}
+            onRecover={(id, action) => recoverFromError(action, id)}
+            device={config.device}
+          />
+        )}
+
+        {/* Large Image Confirmation */}
+        {isAwaitingLargeImageChoice && queue[0].imageSize && (
+          <LargeImageNotice
+            filename={queue[0].filename}
+            size={queue[0].imageSize}
+            device={config.device}
+            defaultMode={config.largeImage.mode}
+            onChoose={(mode) => chooseLargeImageMode(queue[0].id, mode)}
+            onCancel={reset}
+          />
+        )}
+
         {/* Processing State */}
-        {isProcessing && (
+        {isSingleMode && isProcessing && (
           <div className="bg-white rounded-2xl shadow-xl p-8 mb-8 border border-gray-100">
             <div className="flex flex-col items-center space-y-6">
               <div className="relative">
@@ -275,12 +879,32 @@ function App() {
               </div>
               <div className="text-center">
                 <h3 className="text-2xl font-semibold text-gray-900 mb-2">
-                  AI正在处理图片...
+                  {t('app.processing.title')}
                 </h3>
                 <p className="text-gray-500">
-                  正在使用 {config.model} 模型进行{config.output.type === 'foreground' ? '背景去除' : config.output.type === 'background' ? '背景提取' : '蒙版生成'}
+                  {t(`app.processing.desc.${config.output.type}`, { model: config.model })}
                 </p>
               </div>
+              {/* Processing Progress */}
+              <div className="w-full max-w-md">
+                <div className="flex justify-between text-sm text-gray-600 mb-2">
+                  <span>{queue[0].progress ? processingStageLabels[queue[0].progress.stage] : t('app.processing.preparing')}</span>
+                  <span>{formatPercent(queue[0].progress?.progress ?? 0)}</span>
+                </div>
+                <div className="w-full bg-gray-200 rounded-full h-2">
+                  <div
+                    className="bg-gradient-to-r from-purple-600 to-blue-600 h-2 rounded-full transition-all duration-300"
+                    style={{ width: `${(queue[0].progress?.progress ?? 0) * 100}%` }}
+                  ></div>
+                </div>
+              </div>
+              <button
+                onClick={() => cancelItem(queue[0].id)}
+                className="flex items-center px-6 py-3 bg-gray-600 text-white rounded-xl hover:bg-gray-700 transition-all duration-200 shadow-lg hover:shadow-xl"
+              >
+                <X className="w-4 h-4 mr-2" />
+                {t('app.processing.cancel')}
+              </button>
             </div>
           </div>
         )}
@@ -294,79 +918,143 @@ function App() {
             </div>
           </div>
         )}
+        {modelError && (
+          <ErrorNotice
+            code={modelError.code}
+            message={modelError.message}
+            actions={modelError.code === 'DEVICE_UNAVAILABLE' ? getRecoveryActions(modelError.code, config.device) : ['reload-model', 'open-settings']}
+            onAction={(action) => recoverFromError(action)}
+          />
+        )}
+        {isSingleMode && queue[0].status === 'failed' && queue[0].error && (
+          <ErrorNotice
+            code={queue[0].errorCode ?? 'UNKNOWN'}
+            message={queue[0].error}
+            actions={getRecoveryActions(queue[0].errorCode ?? 'UNKNOWN', config.device)}
+            onAction={(action) => recoverFromError(action, queue[0].id)}
+          />
+        )}
 
         {/* Results */}
-        {processedImage && (
+        {activeItem?.processed && (
           <div className="bg-white rounded-2xl shadow-xl p-8 border border-gray-100">
             <div className="flex items-center justify-between mb-6">
-              <h2 className="text-2xl font-bold text-gray-900">处理结果</h2>
+              <h2 className="text-2xl font-bold text-gray-900">{t('app.results.title')}</h2>
               <div className="flex space-x-3">
+                {!isEditingMask && !isSelectingSubject && (
+                  <>
+                    <button
+                      onClick={() => setIsSelectingSubject(true)}
+                      className="flex items-center px-6 py-3 bg-white text-purple-700 border border-purple-300 rounded-xl hover:bg-purple-50 transition-all duration-200 shadow-lg hover:shadow-xl transform hover:scale-105"
+                    >
+                      <MousePointerClick className="w-4 h-4 mr-2" />
+                      {t('app.results.selectSubject')}
+                    </button>
+                    <button
+                      onClick={() => setIsEditingMask(true)}
+                      className="flex items-center px-6 py-3 bg-white text-purple-700 border border-purple-300 rounded-xl hover:bg-purple-50 transition-all duration-200 shadow-lg hover:shadow-xl transform hover:scale-105"
+                    >
+                      <Brush className="w-4 h-4 mr-2" />
+                      {t('app.results.editMask')}
+                    </button>
+                  </>
+                )}
+                {!isSingleMode && (
+                  <button
+                    onClick={() => {
+                      setIsEditingMask(false);
+                      setIsSelectingSubject(false);
+                      setActiveItemId(null);
+                    }}
+                    className="flex items-center px-6 py-3 bg-white text-gray-700 border border-gray-300 rounded-xl hover:bg-gray-50 transition-all duration-200 shadow-lg hover:shadow-xl transform hover:scale-105"
+                  >
+                    <ArrowLeft className="w-4 h-4 mr-2" />
+                    {t('app.results.back')}
+                  </button>
+                )}
+                <button
+                  onClick={copyResult}
+                  className="flex items-center px-6 py-3 bg-white text-gray-700 border border-gray-300 rounded-xl hover:bg-gray-50 transition-all duration-200 shadow-lg hover:shadow-xl transform hover:scale-105"
+                >
+                  {copied ? <Check className="w-4 h-4 mr-2 text-green-600" /> : <Copy className="w-4 h-4 mr-2" />}
+                  {copied ? t('app.results.copied') : t('app.results.copy')}
+                </button>
                 <button
                   onClick={downloadImage}
                   className="flex items-center px-6 py-3 bg-gradient-to-r from-green-600 to-emerald-600 text-white rounded-xl hover:from-green-700 hover:to-emerald-700 transition-all duration-200 shadow-lg hover:shadow-xl transform hover:scale-105"
                 >
                   <Download className="w-4 h-4 mr-2" />
-                  下载图片
+                  {t('app.results.download')}
                 </button>
                 <button
                   onClick={reset}
                   className="flex items-center px-6 py-3 bg-gray-600 text-white rounded-xl hover:bg-gray-700 transition-all duration-200 shadow-lg hover:shadow-xl transform hover:scale-105"
                 >
                   <RefreshCw className="w-4 h-4 mr-2" />
-                  重新处理
+                  {t('app.results.reset')}
                 </button>
               </div>
             </div>
 
-            <div className="grid md:grid-cols-2 gap-8">
-              <div>
-                <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
-                  <div className="w-3 h-3 bg-gray-400 rounded-full mr-2"></div>
-                  原始图片
-                </h3>
-                <div className="border-2 border-gray-200 rounded-xl overflow-hidden bg-gray-50 shadow-inner">
-                  <img
-                    src={processedImage.original}
-                    alt="原始图片"
-                    className="w-full h-auto max-h-96 object-contain"
-                  />
-                </div>
-              </div>
-              
-              <div>
-                <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
-                  <div className="w-3 h-3 bg-gradient-to-r from-purple-600 to-blue-600 rounded-full mr-2"></div>
-                  {getOutputTypeLabel()}
-                </h3>
-                <div className="border-2 border-gray-200 rounded-xl overflow-hidden shadow-inner" style={{
-                  backgroundImage: config.output.type === 'foreground' ? `url("data:image/svg+xml,%3csvg width='20' height='20' xmlns='http://www.w3.org/2000/svg'%3e%3cdefs%3e%3cpattern id='grid' width='20' height='20' patternUnits='userSpaceOnUse'%3e%3cpath d='M 20 0 L 0 0 0 20' fill='none' stroke='%23e5e7eb' stroke-width='0.5'/%3e%3c/pattern%3e%3c/defs%3e%3crect width='20' height='20' fill='url(%23grid)' /%3e%3c/svg%3e")` : 'none',
-                  backgroundColor: config.output.type === 'foreground' ? '#f9fafb' : '#ffffff'
-                }}>
-                  <img
-                    src={processedImage.processed}
-                    alt={getOutputTypeLabel()}
-                    className="w-full h-auto max-h-96 object-contain"
-                  />
-                </div>
-              </div>
-            </div>
+            {isEditingMask && activeItem.result ? (
+              <MaskEditor
+                imageUrl={activeItem.original}
+                mask={activeItem.result.mask}
+                onApply={applyEditedMask}
+                onCancel={() => setIsEditingMask(false)}
+              />
+            ) : isSelectingSubject && activeItem.result ? (
+              <SubjectSelector
+                image={activeItem.file}
+                imageUrl={activeItem.original}
+                mask={activeItem.result.mask}
+                config={activeItem.config ?? config}
+                onApply={applyEditedMask}
+                onExport={exportSubjects}
+                onCancel={() => setIsSelectingSubject(false)}
+              />
+            ) : (
+              <ComparisonViewer
+                originalUrl={activeItem.original}
+                processedUrl={activeItem.processed}
+                mask={activeItem.result?.refinedMask}
+                resultLabel={getOutputTypeLabel()}
+                transparent={resultConfig.output.type !== 'mask' && resultConfig.background.mode === 'none'}
+              />
+            )}
 
             {/* Config Info */}
             <div className="mt-6 p-4 bg-gray-50 rounded-lg">
-              <h4 className="text-sm font-semibold text-gray-700 mb-2">当前配置</h4>
+              <h4 className="text-sm font-semibold text-gray-700 mb-2">{t('app.info.title')}</h4>
               <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-xs text-gray-600">
                 <div>
-                  <span className="font-medium">模型:</span> {config.model}
+                  <span className="font-medium">{t('app.info.model')}:</span> {resultStats?.model ?? resultConfig.model}
                 </div>
                 <div>
-                  <span className="font-medium">设备:</span> {config.device.toUpperCase()}
+                  <span className="font-medium">{t('app.info.device')}:</span> {resultStats ? resultStats.device.toUpperCase() : resultConfig.device.toUpperCase()}
+                  {resultStats && resultStats.device !== resultConfig.device && (
+                    <span className="text-amber-600">{t('app.info.deviceFallback', { device: resultConfig.device.toUpperCase() })}</span>
+                  )}
                 </div>
                 <div>
-                  <span className="font-medium">格式:</span> {config.output.format.split('/')[1].toUpperCase()}
+                  <span className="font-medium">{t('app.info.format')}:</span> {getOutputFormat(resultConfig.output.format).label}
                 </div>
                 <div>
-                  <span className="font-medium">质量:</span> {Math.round(config.output.quality * 100)}%
+                  <span className="font-medium">{t('app.info.quality')}:</span> {formatPercent(resultConfig.output.quality)}
                 </div>
+                {resultStats && (
+                  <>
+                    <div>
+                      <span className="font-medium">{t('app.info.loadTime')}:</span> {formatDuration(resultStats.loadMs)}
+                    </div>
+                    <div>
+                      <span className="font-medium">{t('app.info.inferenceTime')}:</span> {formatDuration(resultStats.inferenceMs)}
+                    </div>
+                    <div>
+                      <span className="font-medium">{t('app.info.threads')}:</span> {resultStats.threads}
+                    </div>
+                  </>
+                )}
               </div>
             </div>
           </div>
@@ -378,9 +1066,9 @@ function App() {
             <div className="w-16 h-16 bg-gradient-to-r from-purple-100 to-blue-100 rounded-2xl flex items-center justify-center mx-auto mb-4 group-hover:scale-110 transition-transform duration-200">
               <Sparkles className="w-8 h-8 text-purple-600" />
             </div>
-            <h3 className="text-xl font-semibold text-gray-900 mb-3">AI智能识别</h3>
+            <h3 className="text-xl font-semibold text-gray-900 mb-3">{t('app.features.ai.title')}</h3>
             <p className="text-gray-600">
-              采用最新的深度学习算法，精准识别图片中的主体和背景，支持复杂场景处理
+              {t('app.features.ai.desc')}
             </p>
           </div>
           
@@ -388,9 +1076,9 @@ function App() {
             <div className="w-16 h-16 bg-gradient-to-r from-green-100 to-emerald-100 rounded-2xl flex items-center justify-center mx-auto mb-4 group-hover:scale-110 transition-transform duration-200">
               <Loader2 className="w-8 h-8 text-green-600" />
             </div>
-            <h3 className="text-xl font-semibold text-gray-900 mb-3">灵活配置</h3>
+            <h3 className="text-xl font-semibold text-gray-900 mb-3">{t('app.features.config.title')}</h3>
             <p className="text-gray-600">
-              支持多种AI模型、输出格式和处理模式，满足不同场景的需求
+              {t('app.features.config.desc')}
             </p>
           </div>
           
@@ -398,9 +1086,9 @@ function App() {
             <div className="w-16 h-16 bg-gradient-to-r from-blue-100 to-indigo-100 rounded-2xl flex items-center justify-center mx-auto mb-4 group-hover:scale-110 transition-transform duration-200">
               <Download className="w-8 h-8 text-blue-600" />
             </div>
-            <h3 className="text-xl font-semibold text-gray-900 mb-3">高质量输出</h3>
+            <h3 className="text-xl font-semibold text-gray-900 mb-3">{t('app.features.quality.title')}</h3>
             <p className="text-gray-600">
-              保持原图分辨率和质量，支持PNG、JPEG、WebP多种格式输出
+              {t('app.features.quality.desc')}
             </p>
           </div>
         </div>
@@ -0,0 +1,332 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Film, Play, Square, Download, Loader2, ArrowLeft, AlertCircle } from 'lucide-react';
+import { ProcessingConfig } from '../utils/backgroundRemoval';
+import { ProcessingCancelledError } from '../utils/errors';
+import { FrameSource, MAX_FRAMES, isVideoFile, openFrameSource } from '../utils/frameSource';
+import {
+  AnimationProgress,
+  AnimationSettings,
+  ProcessedFrame,
+  animationFpsOptions,
+  defaultAnimationSettings,
+  processAnimation
+} from '../utils/animation';
+import { AnimationExportFormat, animationExportFormats, exportAnimation } from '../utils/animationExport';
+import { downloadBlob, stripExtension } from '../utils/download';
+import { formatBytes, formatDuration, formatPercent } from '../utils/format';
+import { t } from '../i18n';
+import { useI18n } from '../i18n/useI18n';
+
+interface AnimationProcessorProps {
+  file: File;
+  config: ProcessingConfig;
+  // 模型未加载或队列正在处理时不能开始
+  disabled: boolean;
+  onClose: () => void;
+  onBusyChange: (busy: boolean) => void;
+  // 取消会终止推理 Worker，需要重新加载模型
+  onCancelled: () => void;
+}
+
+export const AnimationProcessor: React.FC<AnimationProcessorProps> = ({
+  file,
+  config,
+  disabled,
+  onClose,
+  onBusyChange,
+  onCancelled
+}) => {
+  // 切换语言时重新渲染
+  useI18n();
+  const [settings, setSettings] = useState<AnimationSettings>(defaultAnimationSettings);
+  const [source, setSource] = useState<FrameSource | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [progress, setProgress] = useState<AnimationProgress | null>(null);
+  const [frames, setFrames] = useState<ProcessedFrame[]>([]);
+  const [exportFormat, setExportFormat] = useState<AnimationExportFormat>('webm');
+  const [exportProgress, setExportProgress] = useState<number | null>(null);
+  const [previewIndex, setPreviewIndex] = useState(0);
+  const abortController = useRef<AbortController | null>(null);
+  const isVideo = isVideoFile(file);
+
+  const sourceUrl = useMemo(() => URL.createObjectURL(file), [file]);
+  useEffect(() => {
+    return () => URL.revokeObjectURL(sourceUrl);
+  }, [sourceUrl]);
+
+  // 视频的帧数取决于抽帧帧率，修改后重新打开
+  useEffect(() => {
+    let cancelled = false;
+    let opened: FrameSource | null = null;
+    setSource(null);
+    setError(null);
+
+    openFrameSource(file, settings.fps)
+      .then((result) => {
+        if (cancelled) {
+          result.close();
+          return;
+        }
+        opened = result;
+        setSource(result);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : t('animation.errors.read'));
+      });
+
+    return () => {
+      cancelled = true;
+      opened?.close();
+    };
+  }, [file, settings.fps]);
+
+  useEffect(() => {
+    onBusyChange(isProcessing || exportProgress !== null);
+  }, [isProcessing, exportProgress, onBusyChange]);
+
+  const frameUrls = useMemo(() => frames.map((frame) => URL.createObjectURL(frame.blob)), [frames]);
+  useEffect(() => {
+    return () => frameUrls.forEach((url) => URL.revokeObjectURL(url));
+  }, [frameUrls]);
+
+  // 按每帧时长循环播放处理结果
+  useEffect(() => {
+    if (frames.length === 0) return;
+    const timer = setTimeout(() => {
+      setPreviewIndex((index) => (index + 1) % frames.length);
+    }, frames[previewIndex]?.durationMs ?? 100);
+    return () => clearTimeout(timer);
+  }, [frames, previewIndex]);
+
+  const handleStart = async () => {
+    if (!source) return;
+
+    const controller = new AbortController();
+    abortController.current = controller;
+    setFrames([]);
+    setPreviewIndex(0);
+    setError(null);
+    setIsProcessing(true);
+    setProgress({ inferred: 0, rendered: 0, total: source.frameCount });
+
+    try {
+      const result = await processAnimation(source, config, settings, {
+        signal: controller.signal,
+        onProgress: setProgress,
+      });
+      setFrames(result);
+    } catch (err) {
+      if (err instanceof ProcessingCancelledError) {
+        onCancelled();
+      } else {
+        console.error('逐帧处理失败:', err);
+        setError(err instanceof Error ? err.message : t('animation.errors.process'));
+      }
+    } finally {
+      abortController.current = null;
+      setIsProcessing(false);
+      setProgress(null);
+    }
+  };
+
+  const handleExport = async () => {
+    if (!source || frames.length === 0) return;
+    const format = animationExportFormats.find((item) => item.value === exportFormat)!;
+
+    setExportProgress(0);
+    setError(null);
+    try {
+      const blob = await exportAnimation(frames, exportFormat, {
+        width: source.width,
+        height: source.height,
+        quality: config.output.quality,
+        basename: stripExtension(file.name),
+        onProgress: setExportProgress,
+      });
+      downloadBlob(blob, `no-bg-${stripExtension(file.name)}.${format.extension}`);
+    } catch (err) {
+      console.error('导出失败:', err);
+      setError(err instanceof Error ? err.message : t('app.errors.export'));
+    } finally {
+      setExportProgress(null);
+    }
+  };
+
+  const busy = isProcessing || exportProgress !== null;
+  const totalDuration = frames.reduce((sum, frame) => sum + frame.durationMs, 0);
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-8">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="flex items-center text-2xl font-semibold text-gray-900">
+          <Film className="w-6 h-6 mr-2 text-purple-600" />
+          {isVideo ? t('animation.title.video') : t('animation.title.animated')}
+        </h3>
+        <button
+          onClick={onClose}
+          disabled={busy}
+          className="flex items-center px-4 py-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-40"
+        >
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          {t('common.back')}
+        </button>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6 mb-6">
+        {/* Source */}
+        <div>
+          <h4 className="text-sm font-semibold text-gray-700 mb-2">{isVideo ? t('animation.source.video') : t('animation.source.animated')}</h4>
+          <div className="bg-gray-100 rounded-lg overflow-hidden flex items-center justify-center h-72">
+            {isVideo ? (
+              <video src={sourceUrl} controls muted className="max-w-full max-h-full" />
+            ) : (
+              <img src={sourceUrl} alt={file.name} className="max-w-full max-h-full object-contain" />
+            )}
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            {file.name} · {formatBytes(file.size)}
+            {source && ` · ${source.width}×${source.height} · ${t('animation.frames', { count: source.frameCount })}`}
+          </p>
+          {source?.truncated && (
+            <p className="text-xs text-amber-600 mt-1">{t('animation.truncated', { max: MAX_FRAMES })}</p>
+          )}
+        </div>
+
+        {/* Result */}
+        <div>
+          <h4 className="text-sm font-semibold text-gray-700 mb-2">{t('app.results.title')}</h4>
+          <div className="checkerboard rounded-lg overflow-hidden flex items-center justify-center h-72">
+            {frameUrls.length > 0 ? (
+              <img src={frameUrls[previewIndex]} alt={t('app.results.title')} className="max-w-full max-h-full object-contain" />
+            ) : isProcessing && progress ? (
+              <div className="text-center bg-white/80 rounded-lg p-4">
+                <Loader2 className="w-8 h-8 text-purple-600 animate-spin mx-auto mb-2" />
+                <p className="text-sm text-gray-700">{t('animation.currentFrame', { current: Math.min(progress.rendered + 1, progress.total), total: progress.total })}</p>
+              </div>
+            ) : (
+              <span className="text-sm text-gray-500 bg-white/80 rounded px-2 py-1">{t('animation.notProcessed')}</span>
+            )}
+          </div>
+          {frames.length > 0 && (
+            <p className="text-xs text-gray-500 mt-2">
+              {t('animation.frames', { count: frames.length })} · {formatDuration(totalDuration)}
+            </p>
+          )}
+        </div>
+      </div>
+
+      {/* Settings */}
+      <div className="grid md:grid-cols-2 gap-6 mb-6">
+        {isVideo && (
+          <div>
+            <label className="text-sm font-semibold text-gray-700 mb-2 block">{t('animation.fps')}</label>
+            <div className="grid grid-cols-4 gap-2">
+              {animationFpsOptions.map((fps) => (
+                <button
+                  key={fps}
+                  onClick={() => setSettings({ ...settings, fps })}
+                  disabled={busy}
+                  className={`p-2 rounded-lg border-2 text-xs font-medium transition-all duration-200 disabled:opacity-40 ${
+                    settings.fps === fps
+                      ? 'border-purple-500 bg-purple-50 text-purple-700'
+                      : 'border-gray-200 hover:border-gray-300'
+                  }`}
+                >
+                  {fps} fps
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+        <div>
+          <label className="text-sm font-semibold text-gray-700 mb-2 block">
+            {t('animation.smoothing')}: {settings.smoothing === 0 ? t('common.off') : t('animation.smoothingFrames', { count: settings.smoothing })}
+          </label>
+          <input
+            type="range"
+            min="0"
+            max="3"
+            step="1"
+            value={settings.smoothing}
+            onChange={(e) => setSettings({ ...settings, smoothing: parseInt(e.target.value, 10) })}
+            disabled={busy}
+            className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+          />
+          <p className="text-xs text-gray-500 mt-1">{t('animation.smoothingHint')}</p>
+        </div>
+      </div>
+
+      {/* Progress */}
+      {isProcessing && progress && (
+        <div className="mb-6">
+          <div className="flex justify-between text-xs text-gray-600 mb-1">
+            <span>{t('animation.progress', { inferred: progress.inferred, rendered: progress.rendered, total: progress.total })}</span>
+            <span>{formatPercent(progress.rendered / progress.total)}</span>
+          </div>
+          <div className="w-full bg-gray-200 rounded-full h-2">
+            <div
+              className="bg-gradient-to-r from-purple-600 to-blue-600 h-2 rounded-full transition-all duration-300"
+              style={{ width: `${(progress.rendered / progress.total) * 100}%` }}
+            ></div>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-6 p-3 bg-red-50 border border-red-200 rounded-lg flex items-center text-sm text-red-700">
+          <AlertCircle className="w-4 h-4 mr-2 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {/* Actions */}
+      <div className="flex flex-wrap items-center gap-3">
+        {isProcessing ? (
+          <button
+            onClick={() => abortController.current?.abort()}
+            className="flex items-center px-6 py-3 bg-red-50 text-red-600 rounded-xl hover:bg-red-100 transition-colors font-medium"
+          >
+            <Square className="w-4 h-4 mr-2" />
+            {t('app.processing.cancel')}
+          </button>
+        ) : (
+          <button
+            onClick={handleStart}
+            disabled={disabled || !source || exportProgress !== null}
+            className="flex items-center px-6 py-3 bg-gradient-to-r from-purple-600 to-blue-600 text-white rounded-xl hover:shadow-lg transition-all font-medium disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <Play className="w-4 h-4 mr-2" />
+            {frames.length > 0 ? t('animation.restart') : t('animation.start')}
+          </button>
+        )}
+
+        {frames.length > 0 && !isProcessing && (
+          <>
+            <select
+              value={exportFormat}
+              onChange={(e) => setExportFormat(e.target.value as AnimationExportFormat)}
+              disabled={exportProgress !== null}
+              className="px-3 py-3 border border-gray-300 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+            >
+              {animationExportFormats.map((format) => (
+                <option key={format.value} value={format.value}>{format.label}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleExport}
+              disabled={exportProgress !== null}
+              className="flex items-center px-6 py-3 bg-white border border-purple-300 text-purple-700 rounded-xl hover:bg-purple-50 transition-colors font-medium disabled:opacity-60"
+            >
+              {exportProgress !== null ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+              {exportProgress !== null ? t('animation.exporting', { done: exportProgress, total: frames.length }) : t('animation.export')}
+            </button>
+            <span className="text-xs text-gray-500">
+              {animationExportFormats.find((format) => format.value === exportFormat)?.desc}
+            </span>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
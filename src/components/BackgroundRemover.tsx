@@ -0,0 +1,309 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { Upload, Loader2, X, RefreshCw, AlertCircle } from 'lucide-react';
+import {
+  ProcessingConfig,
+  ProcessingProgress,
+  ProcessingResult,
+  createRemover,
+  defaultConfig,
+  getDisplayBlob,
+  processingStageLabels
+} from '../utils/backgroundRemoval';
+import { ProcessingCancelledError, ProcessingError, UnsupportedFormatError, errorGuides, toProcessingError } from '../utils/errors';
+import { formatPercent } from '../utils/format';
+import { toPresetConfig } from '../utils/presets';
+import { useI18n } from '../i18n/useI18n';
+
+export interface BackgroundRemoverProps {
+  // 受控配置：模型相关字段变化时重新加载模型，其余字段变化时用已有蒙版重新生成结果
+  config?: ProcessingConfig;
+  // 每次生成结果（包括因配置变化重新生成）时调用
+  onResult?: (result: ProcessingResult, file: File) => void;
+  // 错误带有错误码（error.code），原始错误在 error.cause 中
+  onError?: (error: ProcessingError) => void;
+  onProgress?: (progress: ProcessingProgress) => void;
+  className?: string;
+}
+
+type ModelState = 'loading' | 'ready' | 'error';
+
+// 按值比较影响生成结果的配置：父组件内联传入的 config 每次渲染都是新对象，按引用比较会反复重新生成
+function isSameRenderConfig(a: ProcessingConfig, b: ProcessingConfig): boolean {
+  return a.background.image === b.background.image && JSON.stringify(toPresetConfig(a)) === JSON.stringify(toPresetConfig(b));
+}
+
+// 可嵌入其他页面的去背景组件，每个组件实例使用独立的推理 Worker，卸载时释放模型
+export const BackgroundRemover: React.FC<BackgroundRemoverProps> = ({
+  config = defaultConfig,
+  onResult,
+  onError,
+  onProgress,
+  className = ''
+}) => {
+  const { t } = useI18n();
+  const [remover] = useState(() => createRemover(config));
+  const [modelState, setModelState] = useState<ModelState>('loading');
+  const [loadingProgress, setLoadingProgress] = useState(0);
+  const [file, setFile] = useState<File | null>(null);
+  const [originalUrl, setOriginalUrl] = useState<string | null>(null);
+  const [result, setResult] = useState<ProcessingResult | null>(null);
+  const [resultUrl, setResultUrl] = useState<string | null>(null);
+  const [progress, setProgress] = useState<ProcessingProgress | null>(null);
+  const [error, setError] = useState<ProcessingError | null>(null);
+  const [dragOver, setDragOver] = useState(false);
+  const abortController = useRef<AbortController | null>(null);
+  // 结果对应的配置，用于判断是否需要重新生成
+  const resultConfig = useRef<ProcessingConfig | null>(null);
+  // 回调可能每次渲染都变化，通过 ref 读取最新值，避免重新触发加载和生成
+  const callbacks = useRef({ onResult, onError, onProgress });
+
+  useEffect(() => {
+    callbacks.current = { onResult, onError, onProgress };
+  }, [onResult, onError, onProgress]);
+
+  const reportError = useCallback((err: unknown) => {
+    const processingError = toProcessingError(err);
+    setError(processingError);
+    callbacks.current.onError?.(processingError);
+  }, []);
+
+  useEffect(() => {
+    return () => remover.dispose();
+  }, [remover]);
+
+  // 同步配置，模型相关字段变化时预加载新模型
+  useEffect(() => {
+    remover.setConfig(config);
+    if (remover.isLoaded) return;
+
+    let cancelled = false;
+    setModelState('loading');
+    setLoadingProgress(0);
+    remover
+      .load({ onProgress: ({ progress }) => !cancelled && setLoadingProgress(progress) })
+      .then(() => {
+        if (!cancelled) setModelState('ready');
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setModelState('error');
+        reportError(err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [remover, config, reportError]);
+
+  useEffect(() => {
+    if (!originalUrl) return;
+    return () => URL.revokeObjectURL(originalUrl);
+  }, [originalUrl]);
+
+  useEffect(() => {
+    if (!result) {
+      setResultUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(getDisplayBlob(result));
+    setResultUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [result]);
+
+  const handleProgress = useCallback((value: ProcessingProgress) => {
+    setProgress(value);
+    callbacks.current.onProgress?.(value);
+  }, []);
+
+  const processFile = useCallback(async (selected: File) => {
+    if (!selected.type.startsWith('image/')) {
+      reportError(new UnsupportedFormatError());
+      return;
+    }
+
+    const controller = new AbortController();
+    abortController.current = controller;
+    setFile(selected);
+    setOriginalUrl(URL.createObjectURL(selected));
+    setResult(null);
+    setError(null);
+    setProgress({ stage: 'decode', progress: 0 });
+
+    try {
+      const processConfig = remover.config;
+      const processed = await remover.process(selected, { signal: controller.signal, onProgress: handleProgress });
+      resultConfig.current = processConfig;
+      setResult(processed);
+      callbacks.current.onResult?.(processed, selected);
+    } catch (err) {
+      if (!(err instanceof ProcessingCancelledError)) {
+        reportError(err);
+      }
+    } finally {
+      abortController.current = null;
+      setProgress(null);
+    }
+  }, [remover, handleProgress, reportError]);
+
+  // 输出或背景设置改变时，用已有蒙版重新生成结果
+  useEffect(() => {
+    if (!file || !result || !resultConfig.current || isSameRenderConfig(resultConfig.current, config)) return;
+    if (resultConfig.current.model !== config.model || resultConfig.current.device !== config.device) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const rendered = { ...(await remover.render(file, result.mask)), stats: result.stats };
+        if (cancelled) return;
+        resultConfig.current = config;
+        setResult(rendered);
+        callbacks.current.onResult?.(rendered, file);
+      } catch (err) {
+        if (!cancelled) reportError(err);
+      }
+    }, 250);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [remover, config, file, result, reportError]);
+
+  const handleCancel = () => {
+    abortController.current?.abort();
+    // 取消会终止 Worker，需要重新加载模型
+    setModelState('loading');
+    remover
+      .load({ onProgress: ({ progress }) => setLoadingProgress(progress) })
+      .then(() => setModelState('ready'))
+      .catch((err) => {
+        setModelState('error');
+        reportError(err);
+      });
+  };
+
+  const reset = () => {
+    setFile(null);
+    setOriginalUrl(null);
+    setResult(null);
+    setError(null);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragOver(false);
+    const dropped = e.dataTransfer.files[0];
+    if (dropped && modelState === 'ready' && !progress) processFile(dropped);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    if (selected) processFile(selected);
+    e.target.value = '';
+  };
+
+  const isProcessing = progress !== null;
+
+  return (
+    <div className={`bg-white rounded-2xl border border-gray-100 p-6 ${className}`}>
+      {/* Model Loading */}
+      {modelState === 'loading' && (
+        <div className="mb-4">
+          <div className="flex items-center text-sm text-gray-600 mb-2">
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            {t('app.loadingModel', { model: config.model, progress: formatPercent(loadingProgress) })}
+          </div>
+          <div className="w-full bg-gray-200 rounded-full h-2">
+            <div
+              className="bg-gradient-to-r from-purple-600 to-blue-600 h-2 rounded-full transition-all duration-300"
+              style={{ width: `${loadingProgress * 100}%` }}
+            ></div>
+          </div>
+        </div>
+      )}
+
+      {/* Upload Area */}
+      {!file && (
+        <label
+          className={`block border-2 border-dashed rounded-xl p-8 text-center transition-all duration-300 ${
+            modelState !== 'ready'
+              ? 'border-gray-200 opacity-60 cursor-not-allowed'
+              : dragOver
+                ? 'border-purple-500 bg-purple-50 cursor-pointer'
+                : 'border-gray-300 hover:border-purple-400 hover:bg-gray-50 cursor-pointer'
+          }`}
+          onDrop={handleDrop}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setDragOver(true);
+          }}
+          onDragLeave={() => setDragOver(false)}
+        >
+          <input
+            type="file"
+            accept="image/*"
+            onChange={handleFileChange}
+            disabled={modelState !== 'ready'}
+            className="hidden"
+          />
+          <Upload className="w-8 h-8 text-purple-600 mx-auto mb-2" />
+          <span className="text-sm text-gray-700">{t('app.upload.title')}</span>
+        </label>
+      )}
+
+      {/* Preview */}
+      {file && originalUrl && (
+        <div className="grid grid-cols-2 gap-4">
+          <div className="bg-gray-100 rounded-lg overflow-hidden flex items-center justify-center h-56">
+            <img src={originalUrl} alt={file.name} className="max-w-full max-h-full object-contain" />
+          </div>
+          <div className="checkerboard rounded-lg overflow-hidden flex items-center justify-center h-56">
+            {resultUrl ? (
+              <img src={resultUrl} alt={t('app.results.title')} className="max-w-full max-h-full object-contain" />
+            ) : isProcessing ? (
+              <div className="text-center bg-white/80 rounded-lg p-3">
+                <Loader2 className="w-6 h-6 text-purple-600 animate-spin mx-auto mb-1" />
+                <p className="text-xs text-gray-700">
+                  {processingStageLabels[progress.stage]} {formatPercent(progress.progress)}
+                </p>
+              </div>
+            ) : null}
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg flex items-center text-sm text-red-700">
+          <AlertCircle className="w-4 h-4 mr-2 flex-shrink-0" />
+          <span>
+            {error.message}
+            {errorGuides[error.code].hint && <span className="block text-xs text-red-600 mt-1">{errorGuides[error.code].hint}</span>}
+          </span>
+        </div>
+      )}
+
+      {/* Actions */}
+      {file && (
+        <div className="flex justify-end mt-4">
+          {isProcessing ? (
+            <button
+              onClick={handleCancel}
+              className="flex items-center px-4 py-2 text-sm bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
+            >
+              <X className="w-4 h-4 mr-2" />
+              {t('app.processing.cancel')}
+            </button>
+          ) : (
+            <button
+              onClick={reset}
+              className="flex items-center px-4 py-2 text-sm bg-white text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              <RefreshCw className="w-4 h-4 mr-2" />
+              {t('remover.reset')}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
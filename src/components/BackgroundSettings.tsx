@@ -0,0 +1,204 @@
+import React from 'react';
+import { Layers, Upload } from 'lucide-react';
+import { BackgroundReplacement, BackgroundMode, BackgroundImageFit } from '../utils/compositing';
+import { formatPercent } from '../utils/format';
+import { useI18n } from '../i18n/useI18n';
+
+interface BackgroundSettingsProps {
+  background: BackgroundReplacement;
+  onChange: (background: BackgroundReplacement) => void;
+  // 仅前景输出支持替换背景
+  disabled: boolean;
+}
+
+const modes: BackgroundMode[] = ['none', 'color', 'gradient', 'blur', 'image'];
+
+const imageFits: BackgroundImageFit[] = ['cover', 'contain', 'stretch'];
+
+export const BackgroundSettings: React.FC<BackgroundSettingsProps> = ({
+  background,
+  onChange,
+  disabled
+}) => {
+  const { t } = useI18n();
+  const update = (updates: Partial<BackgroundReplacement>) => {
+    onChange({ ...background, ...updates });
+  };
+
+  const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      update({ image: file, mode: 'image' });
+    }
+  };
+
+  return (
+    <div>
+      <label className="flex items-center text-sm font-semibold text-gray-700 mb-3">
+        <Layers className="w-4 h-4 mr-2" />
+        {t('background.title')}
+      </label>
+
+      {disabled ? (
+        <p className="text-xs text-gray-500">{t('common.foregroundOnly')}</p>
+      ) : (
+        <div className="space-y-4">
+          <div className="grid grid-cols-5 gap-1">
+            {modes.map((mode) => (
+              <button
+                key={mode}
+                onClick={() => update({ mode })}
+                className={`p-2 rounded-lg border-2 text-xs font-medium transition-all duration-200 ${
+                  background.mode === mode
+                    ? 'border-purple-500 bg-purple-50 text-purple-700'
+                    : 'border-gray-200 hover:border-gray-300'
+                }`}
+              >
+                {t(`background.modes.${mode}`)}
+              </button>
+            ))}
+          </div>
+
+          {/* Solid Color */}
+          {background.mode === 'color' && (
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-gray-600">{t('background.color')}</span>
+              <input
+                type="color"
+                value={background.color}
+                onChange={(e) => update({ color: e.target.value })}
+                className="w-10 h-8 rounded cursor-pointer"
+              />
+            </div>
+          )}
+
+          {/* Gradient */}
+          {background.mode === 'gradient' && (
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <span className="text-xs text-gray-600">{t('background.gradientFrom')}</span>
+                <input
+                  type="color"
+                  value={background.gradientFrom}
+                  onChange={(e) => update({ gradientFrom: e.target.value })}
+                  className="w-10 h-8 rounded cursor-pointer"
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-xs text-gray-600">{t('background.gradientTo')}</span>
+                <input
+                  type="color"
+                  value={background.gradientTo}
+                  onChange={(e) => update({ gradientTo: e.target.value })}
+                  className="w-10 h-8 rounded cursor-pointer"
+                />
+              </div>
+              <div>
+                <span className="text-xs text-gray-600">{t('background.gradientAngle', { angle: background.gradientAngle })}</span>
+                <input
+                  type="range"
+                  min="0"
+                  max="360"
+                  step="5"
+                  value={background.gradientAngle}
+                  onChange={(e) => update({ gradientAngle: parseInt(e.target.value) })}
+                  className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+                />
+              </div>
+            </div>
+          )}
+
+          {/* Blur */}
+          {background.mode === 'blur' && (
+            <div>
+              <span className="text-xs text-gray-600">{t('background.blurRadius', { radius: background.blurRadius })}</span>
+              <input
+                type="range"
+                min="2"
+                max="80"
+                step="2"
+                value={background.blurRadius}
+                onChange={(e) => update({ blurRadius: parseInt(e.target.value) })}
+                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+              />
+            </div>
+          )}
+
+          {/* Custom Image */}
+          {background.mode === 'image' && (
+            <div className="space-y-3">
+              <label className="flex items-center justify-center w-full p-3 border-2 border-dashed border-gray-300 rounded-lg text-xs text-gray-600 hover:border-purple-400 cursor-pointer transition-colors">
+                <Upload className="w-4 h-4 mr-2" />
+                {background.image ? t('background.changeImage') : t('background.uploadImage')}
+                <input type="file" accept="image/*" onChange={handleImageChange} className="hidden" />
+              </label>
+              <div className="grid grid-cols-3 gap-2">
+                {imageFits.map((imageFit) => (
+                  <button
+                    key={imageFit}
+                    onClick={() => update({ imageFit })}
+                    className={`p-2 rounded-lg border-2 text-xs font-medium transition-all duration-200 ${
+                      background.imageFit === imageFit
+                        ? 'border-purple-500 bg-purple-50 text-purple-700'
+                        : 'border-gray-200 hover:border-gray-300'
+                    }`}
+                  >
+                    {t(`background.fits.${imageFit}`)}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Subject Placement */}
+          {background.mode !== 'none' && (
+            <div className="space-y-3">
+              <div>
+                <span className="text-xs text-gray-600">{t('background.subjectScale', { value: formatPercent(background.subjectScale) })}</span>
+                <input
+                  type="range"
+                  min="0.2"
+                  max="2"
+                  step="0.05"
+                  value={background.subjectScale}
+                  onChange={(e) => update({ subjectScale: parseFloat(e.target.value) })}
+                  className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+                />
+              </div>
+              <div>
+                <span className="text-xs text-gray-600">{t('background.offsetX', { value: formatPercent(background.subjectOffsetX) })}</span>
+                <input
+                  type="range"
+                  min="-0.5"
+                  max="0.5"
+                  step="0.01"
+                  value={background.subjectOffsetX}
+                  onChange={(e) => update({ subjectOffsetX: parseFloat(e.target.value) })}
+                  className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+                />
+              </div>
+              <div>
+                <span className="text-xs text-gray-600">{t('background.offsetY', { value: formatPercent(background.subjectOffsetY) })}</span>
+                <input
+                  type="range"
+                  min="-0.5"
+                  max="0.5"
+                  step="0.01"
+                  value={background.subjectOffsetY}
+                  onChange={(e) => update({ subjectOffsetY: parseFloat(e.target.value) })}
+                  className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+                />
+              </div>
+              <button
+                onClick={() => update({ subjectScale: 1, subjectOffsetX: 0, subjectOffsetY: 0 })}
+                className="text-xs text-purple-600 hover:text-purple-700"
+              >
+                {t('background.resetPlacement')}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
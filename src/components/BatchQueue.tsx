@@ -0,0 +1,277 @@
+import React, { useState } from 'react';
+import { Loader2, CheckCircle2, AlertCircle, Clock, RotateCcw, Eye, X, Trash2, Archive, Maximize2 } from 'lucide-react';
+import { ProcessingConfig, ProcessingProgress, ProcessingResult, processingStageLabels } from '../utils/backgroundRemoval';
+import { ZipOptions } from '../utils/download';
+import { ImageSize, LargeImageMode, estimateProcessing, largeImageModes } from '../utils/largeImage';
+import { ProcessingErrorCode, RecoveryAction, getRecoveryActions, recoveryActionLabels } from '../utils/errors';
+import { formatPercent } from '../utils/format';
+import { useI18n } from '../i18n/useI18n';
+
+// confirm：大图等待用户选择处理模式
+export type QueueItemStatus = 'pending' | 'confirm' | 'processing' | 'done' | 'failed';
+
+export interface QueueItem {
+  id: string;
+  file: File;
+  filename: string;
+  status: QueueItemStatus;
+  original: string;
+  processed?: string;
+  result?: ProcessingResult;
+  progress?: ProcessingProgress;
+  error?: string;
+  errorCode?: ProcessingErrorCode;
+  // 处理该图片时使用的配置
+  config?: ProcessingConfig;
+  // 对应的历史记录
+  historyId?: string;
+  // 图片尺寸，处理前读取
+  imageSize?: ImageSize;
+  // 用户为该大图选择的处理模式
+  largeImageMode?: LargeImageMode;
+}
+
+interface BatchQueueProps {
+  items: QueueItem[];
+  onOpen: (id: string) => void;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+  onRetryFailed: () => void;
+  onClear: () => void;
+  onDownloadZip: (options: ZipOptions) => Promise<void>;
+  onCancel: (id: string) => void;
+  onChooseLargeImageMode: (id: string, mode: LargeImageMode) => void;
+  onRecover: (id: string, action: RecoveryAction) => void;
+  device: 'cpu' | 'gpu';
+}
+
+// 状态名称取自消息目录 batch.status.*
+const statusClassNames: Record<QueueItemStatus, string> = {
+  pending: 'text-gray-500',
+  confirm: 'text-amber-600',
+  processing: 'text-purple-600',
+  done: 'text-green-600',
+  failed: 'text-red-600',
+};
+
+const StatusIcon: React.FC<{ status: QueueItemStatus }> = ({ status }) => {
+  switch (status) {
+    case 'pending': return <Clock className="w-4 h-4" />;
+    case 'confirm': return <Maximize2 className="w-4 h-4" />;
+    case 'processing': return <Loader2 className="w-4 h-4 animate-spin" />;
+    case 'done': return <CheckCircle2 className="w-4 h-4" />;
+    case 'failed': return <AlertCircle className="w-4 h-4" />;
+  }
+};
+
+const LargeImageModeButtons: React.FC<{
+  size: ImageSize;
+  device: 'cpu' | 'gpu';
+  onChoose: (mode: LargeImageMode) => void;
+}> = ({ size, device, onChoose }) => {
+  const { t } = useI18n();
+
+  return (
+    <>
+      {largeImageModes.map((mode) => (
+        <button
+          key={mode.value}
+          onClick={() => onChoose(mode.value)}
+          className="px-3 py-1 text-xs text-purple-700 border border-purple-300 rounded-lg hover:bg-purple-50 transition-colors"
+          title={mode.desc}
+        >
+          {mode.label} · {t('common.aboutSeconds', { seconds: Math.ceil(estimateProcessing(size, mode.value, device).seconds) })}
+        </button>
+      ))}
+    </>
+  );
+};
+
+export const BatchQueue: React.FC<BatchQueueProps> = ({
+  items,
+  onOpen,
+  onRetry,
+  onRemove,
+  onRetryFailed,
+  onClear,
+  onDownloadZip,
+  onCancel,
+  onChooseLargeImageMode,
+  onRecover,
+  device
+}) => {
+  const { t } = useI18n();
+  const [zipOptions, setZipOptions] = useState<ZipOptions>({ includeMask: false, includeOriginal: false });
+  const [isZipping, setIsZipping] = useState(false);
+
+  const doneCount = items.filter((item) => item.status === 'done').length;
+  const failedCount = items.filter((item) => item.status === 'failed').length;
+  const finishedCount = doneCount + failedCount;
+
+  const handleDownloadZip = async () => {
+    setIsZipping(true);
+    try {
+      await onDownloadZip(zipOptions);
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-8 mb-8 border border-gray-100">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">{t('batch.title')}</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            {t('batch.summary', { total: items.length, done: doneCount, failed: failedCount })}
+          </p>
+        </div>
+        <div className="flex space-x-3">
+          {doneCount > 0 && (
+            <button
+              onClick={handleDownloadZip}
+              disabled={isZipping}
+              className="flex items-center px-4 py-2 bg-gradient-to-r from-green-600 to-emerald-600 text-white rounded-xl hover:from-green-700 hover:to-emerald-700 transition-colors disabled:opacity-60"
+            >
+              {isZipping ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Archive className="w-4 h-4 mr-2" />}
+              {t('batch.downloadZip')}
+            </button>
+          )}
+          {failedCount > 0 && (
+            <button
+              onClick={onRetryFailed}
+              className="flex items-center px-4 py-2 bg-purple-600 text-white rounded-xl hover:bg-purple-700 transition-colors"
+            >
+              <RotateCcw className="w-4 h-4 mr-2" />
+              {t('batch.retryFailed')}
+            </button>
+          )}
+          <button
+            onClick={onClear}
+            className="flex items-center px-4 py-2 bg-gray-600 text-white rounded-xl hover:bg-gray-700 transition-colors"
+          >
+            <Trash2 className="w-4 h-4 mr-2" />
+            {t('batch.clear')}
+          </button>
+        </div>
+      </div>
+
+      {/* ZIP Options */}
+      {doneCount > 0 && (
+        <div className="flex items-center space-x-6 mb-4 text-sm text-gray-600">
+          <label className="flex items-center cursor-pointer">
+            <input
+              type="checkbox"
+              checked={zipOptions.includeMask}
+              onChange={(e) => setZipOptions({ ...zipOptions, includeMask: e.target.checked })}
+              className="mr-2 accent-purple-600"
+            />
+            {t('batch.includeMask')}
+          </label>
+          <label className="flex items-center cursor-pointer">
+            <input
+              type="checkbox"
+              checked={zipOptions.includeOriginal}
+              onChange={(e) => setZipOptions({ ...zipOptions, includeOriginal: e.target.checked })}
+              className="mr-2 accent-purple-600"
+            />
+            {t('batch.includeOriginal')}
+          </label>
+        </div>
+      )}
+
+      {/* Overall Progress */}
+      <div className="w-full bg-gray-200 rounded-full h-2 mb-6">
+        <div
+          className="bg-gradient-to-r from-purple-600 to-blue-600 h-2 rounded-full transition-all duration-300"
+          style={{ width: `${items.length > 0 ? (finishedCount / items.length) * 100 : 0}%` }}
+        ></div>
+      </div>
+
+      <ul className="divide-y divide-gray-100 max-h-[32rem] overflow-y-auto">
+        {items.map((item) => (
+          <li key={item.id} className="flex items-center py-3">
+            <img
+              src={item.processed ?? item.original}
+              alt={item.filename}
+              className="w-12 h-12 rounded-lg object-cover bg-gray-50 border border-gray-200 mr-4 flex-shrink-0"
+            />
+            <div className="flex-1 min-w-0">
+              <div className="text-sm font-medium text-gray-900 truncate">{item.filename}</div>
+              <div className={`flex items-center text-xs mt-1 ${statusClassNames[item.status]}`}>
+                <StatusIcon status={item.status} />
+                <span className="ml-1">{t(`batch.status.${item.status}`)}</span>
+                {item.status === 'processing' && item.progress && (
+                  <span className="ml-2">
+                    {processingStageLabels[item.progress.stage]} {formatPercent(item.progress.progress)}
+                  </span>
+                )}
+                {item.status === 'confirm' && item.imageSize && (
+                  <span className="ml-2">{item.imageSize.width}×{item.imageSize.height}</span>
+                )}
+                {item.error && <span className="ml-2 truncate">{item.error}</span>}
+              </div>
+            </div>
+            <div className="flex items-center space-x-2 ml-4">
+              {item.status === 'confirm' && item.imageSize && (
+                <LargeImageModeButtons
+                  size={item.imageSize}
+                  device={device}
+                  onChoose={(mode) => onChooseLargeImageMode(item.id, mode)}
+                />
+              )}
+              {item.status === 'done' && (
+                <button
+                  onClick={() => onOpen(item.id)}
+                  className="p-2 text-gray-600 hover:text-purple-600 hover:bg-purple-50 rounded-lg transition-colors"
+                  title={t('batch.view')}
+                >
+                  <Eye className="w-4 h-4" />
+                </button>
+              )}
+              {/* 重试和移除已有按钮，这里只显示针对错误原因的操作 */}
+              {item.status === 'failed' && item.errorCode && getRecoveryActions(item.errorCode, device)
+                .filter((action) => action !== 'retry' && action !== 'choose-another')
+                .map((action) => (
+                  <button
+                    key={action}
+                    onClick={() => onRecover(item.id, action)}
+                    className="px-3 py-1 text-xs text-purple-700 border border-purple-300 rounded-lg hover:bg-purple-50 transition-colors"
+                  >
+                    {recoveryActionLabels[action]}
+                  </button>
+                ))}
+              {item.status === 'failed' && (
+                <button
+                  onClick={() => onRetry(item.id)}
+                  className="p-2 text-gray-600 hover:text-purple-600 hover:bg-purple-50 rounded-lg transition-colors"
+                  title={t('recovery.retry')}
+                >
+                  <RotateCcw className="w-4 h-4" />
+                </button>
+              )}
+              {item.status === 'processing' && (
+                <button
+                  onClick={() => onCancel(item.id)}
+                  className="p-2 text-gray-600 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                  title={t('common.cancel')}
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              )}
+              {item.status !== 'processing' && (
+                <button
+                  onClick={() => onRemove(item.id)}
+                  className="p-2 text-gray-600 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                  title={t('batch.remove')}
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
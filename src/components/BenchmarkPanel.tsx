@@ -0,0 +1,449 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Gauge, ImagePlus, Play, Square, FileJson, FileSpreadsheet, Loader2 } from 'lucide-react';
+import { ProcessingConfig, modelOptions } from '../utils/backgroundRemoval';
+import { ProcessingCancelledError } from '../utils/errors';
+import {
+  BenchmarkCombo,
+  BenchmarkRun,
+  MaskDifference,
+  compareMasks,
+  exportBenchmarkCsv,
+  exportBenchmarkJson,
+  getComboKey,
+  getRunKey,
+  runBenchmark
+} from '../utils/benchmark';
+import { DeviceCapabilities } from '../utils/capabilities';
+import { MaskData, decodeImage, encodeImageData, extractMaskFromGrayscale } from '../utils/imageUtils';
+import { downloadBlob } from '../utils/download';
+import { formatBytes, formatDuration, formatPercent } from '../utils/format';
+import { useI18n } from '../i18n/useI18n';
+
+interface BenchmarkPanelProps {
+  isOpen: boolean;
+  onToggle: () => void;
+  config: ProcessingConfig;
+  capabilities: DeviceCapabilities | null;
+  // 队列中的图片，可直接用于测试
+  queueFiles: File[];
+  // 模型加载或队列处理期间不能开始测试
+  disabled: boolean;
+  // 测试期间独占推理 Worker，结束后由调用方重新加载当前模型
+  onStart: () => void;
+  onFinish: () => void;
+}
+
+const devices: { value: ProcessingConfig['device']; label: string }[] = [
+  { value: 'cpu', label: 'CPU' },
+  { value: 'gpu', label: 'GPU' },
+];
+
+export const BenchmarkPanel: React.FC<BenchmarkPanelProps> = ({
+  isOpen,
+  onToggle,
+  config,
+  capabilities,
+  queueFiles,
+  disabled,
+  onStart,
+  onFinish
+}) => {
+  const { t } = useI18n();
+  const [files, setFiles] = useState<File[]>([]);
+  const [models, setModels] = useState<ProcessingConfig['model'][]>(modelOptions.map((option) => option.value));
+  const [selectedDevices, setSelectedDevices] = useState<ProcessingConfig['device'][]>(['cpu']);
+  const [runs, setRuns] = useState<BenchmarkRun[]>([]);
+  const [status, setStatus] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [referenceKey, setReferenceKey] = useState<string | null>(null);
+  const [imageIndex, setImageIndex] = useState(0);
+  const [differences, setDifferences] = useState(new Map<string, MaskDifference>());
+  const [heatmaps, setHeatmaps] = useState(new Map<string, string>());
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortController = useRef<AbortController | null>(null);
+  // 已解码的蒙版，切换参考时无需重新解码
+  const decodedMasks = useRef(new Map<string, MaskData>());
+
+  const gpuUnsupported = capabilities !== null && !capabilities.webgpu;
+  const combos: BenchmarkCombo[] = modelOptions
+    .filter((option) => models.includes(option.value))
+    .flatMap((option) => selectedDevices.map((device) => ({ model: option.value, device })));
+  const resultCombos = useMemo(() => {
+    const seen = new Map<string, BenchmarkCombo>();
+    runs.forEach((run) => seen.set(getComboKey(run), { model: run.model, device: run.device }));
+    return [...seen.values()];
+  }, [runs]);
+
+  const maskUrls = useMemo(() => {
+    const urls = new Map<string, string>();
+    runs.forEach((run) => {
+      if (run.mask) urls.set(run.key, URL.createObjectURL(run.mask));
+    });
+    return urls;
+  }, [runs]);
+
+  useEffect(() => {
+    return () => maskUrls.forEach((url) => URL.revokeObjectURL(url));
+  }, [maskUrls]);
+
+  useEffect(() => {
+    return () => heatmaps.forEach((url) => URL.revokeObjectURL(url));
+  }, [heatmaps]);
+
+  // 测试结束或切换参考后，计算每个结果与同一图片参考蒙版的差异
+  useEffect(() => {
+    if (isRunning || !referenceKey) return;
+    let cancelled = false;
+
+    const getMask = async (run: BenchmarkRun) => {
+      let mask = decodedMasks.current.get(run.key);
+      if (!mask && run.mask) {
+        mask = extractMaskFromGrayscale(await decodeImage(run.mask));
+        decodedMasks.current.set(run.key, mask);
+      }
+      return mask;
+    };
+
+    const compute = async () => {
+      const nextDifferences = new Map<string, MaskDifference>();
+      const nextHeatmaps = new Map<string, string>();
+      for (const run of runs) {
+        const reference = runs.find((item) => item.key === `${run.imageIndex}:${referenceKey}`);
+        if (!reference || reference === run || !run.mask || !reference.mask) continue;
+        try {
+          const [mask, referenceMask] = await Promise.all([getMask(run), getMask(reference)]);
+          if (!mask || !referenceMask || cancelled) continue;
+          const { difference, heatmap } = compareMasks(mask, referenceMask);
+          nextDifferences.set(run.key, difference);
+          nextHeatmaps.set(run.key, URL.createObjectURL(await encodeImageData(heatmap, { format: 'image/png', quality: 1 })));
+        } catch (err) {
+          console.error('蒙版比较失败:', err);
+        }
+      }
+      if (cancelled) {
+        nextHeatmaps.forEach((url) => URL.revokeObjectURL(url));
+        return;
+      }
+      setDifferences(nextDifferences);
+      setHeatmaps(nextHeatmaps);
+    };
+
+    compute();
+    return () => {
+      cancelled = true;
+    };
+  }, [runs, referenceKey, isRunning]);
+
+  const toggleModel = (model: ProcessingConfig['model']) => {
+    setModels((current) => current.includes(model) ? current.filter((item) => item !== model) : [...current, model]);
+  };
+
+  const toggleDevice = (device: ProcessingConfig['device']) => {
+    setSelectedDevices((current) => current.includes(device) ? current.filter((item) => item !== device) : [...current, device]);
+  };
+
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(event.target.files ?? []).filter((file) => file.type.startsWith('image/'));
+    if (selected.length > 0) setFiles(selected);
+    event.target.value = '';
+  };
+
+  const handleRun = async () => {
+    if (files.length === 0 || combos.length === 0) return;
+
+    const controller = new AbortController();
+    abortController.current = controller;
+    decodedMasks.current.clear();
+    setRuns([]);
+    setDifferences(new Map());
+    setHeatmaps(new Map());
+    setImageIndex(0);
+    setIsRunning(true);
+    onStart();
+
+    try {
+      const results = await runBenchmark(files, combos, config, {
+        signal: controller.signal,
+        onStatus: setStatus,
+        onRun: (run) => setRuns((current) => [...current, run]),
+      });
+      // 默认以精度最高的可用组合作为参考
+      const reference = results.find((run) => run.mask);
+      setReferenceKey(reference ? getComboKey(reference) : null);
+      setStatus(t('benchmark.status.done', { count: results.length }));
+    } catch (err) {
+      setStatus(err instanceof ProcessingCancelledError ? t('benchmark.status.cancelled') : t('benchmark.status.failed'));
+      if (!(err instanceof ProcessingCancelledError)) console.error('性能测试失败:', err);
+    } finally {
+      abortController.current = null;
+      setIsRunning(false);
+      onFinish();
+    }
+  };
+
+  const exportResults = (format: 'csv' | 'json') => {
+    const blob = format === 'csv'
+      ? exportBenchmarkCsv(runs, differences, referenceKey)
+      : exportBenchmarkJson(runs, differences, referenceKey);
+    downloadBlob(blob, `benchmark-${new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-')}.${format}`);
+  };
+
+  const imageRuns = runs.filter((run) => run.imageIndex === imageIndex);
+
+  return (
+    <div className="relative">
+      {/* Toggle Button */}
+      <button
+        onClick={onToggle}
+        className="fixed top-20 left-6 z-30 flex items-center px-4 py-2 bg-white/90 backdrop-blur-sm border border-gray-200 rounded-xl shadow-lg hover:shadow-xl transition-all duration-200 hover:scale-105"
+      >
+        <Gauge className="w-4 h-4 mr-2 text-gray-600" />
+        <span className="text-sm font-medium text-gray-700">{t('benchmark.toggle')}</span>
+      </button>
+
+      {isOpen && (
+        <div className="fixed inset-0 z-50 bg-black/40 backdrop-blur-sm flex items-center justify-center p-4">
+          <div className="bg-white rounded-2xl shadow-2xl w-full max-w-5xl max-h-[90vh] overflow-y-auto p-6">
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-xl font-bold text-gray-900">{t('benchmark.title')}</h2>
+              <button
+                onClick={onToggle}
+                disabled={isRunning}
+                className="p-2 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-40"
+              >
+                ✕
+              </button>
+            </div>
+
+            {/* Setup */}
+            <div className="grid md:grid-cols-3 gap-4 mb-6">
+              <div>
+                <div className="text-sm font-semibold text-gray-700 mb-2">{t('benchmark.images')}</div>
+                <div className="flex flex-wrap gap-2 mb-2">
+                  <button
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={isRunning}
+                    className="flex items-center px-3 py-1.5 text-xs border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-40"
+                  >
+                    <ImagePlus className="w-4 h-4 mr-1" />
+                    {t('benchmark.chooseImages')}
+                  </button>
+                  {queueFiles.length > 0 && (
+                    <button
+                      onClick={() => setFiles(queueFiles)}
+                      disabled={isRunning}
+                      className="px-3 py-1.5 text-xs border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-40"
+                    >
+                      {t('benchmark.useQueue', { count: queueFiles.length })}
+                    </button>
+                  )}
+                </div>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept="image/*"
+                  multiple
+                  onChange={handleFileSelect}
+                  className="hidden"
+                />
+                <p className="text-xs text-gray-500 truncate">
+                  {files.length === 0 ? t('benchmark.noImages') : files.map((file) => file.name).join(t('benchmark.nameSeparator'))}
+                </p>
+              </div>
+
+              <div>
+                <div className="text-sm font-semibold text-gray-700 mb-2">{t('benchmark.models')}</div>
+                <div className="space-y-1">
+                  {modelOptions.map((option) => (
+                    <label key={option.value} className="flex items-center text-xs text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={models.includes(option.value)}
+                        onChange={() => toggleModel(option.value)}
+                        disabled={isRunning}
+                        className="mr-2 accent-purple-600"
+                      />
+                      {t('benchmark.modelOption', { label: option.label, value: option.value })}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <div className="text-sm font-semibold text-gray-700 mb-2">{t('benchmark.devices')}</div>
+                <div className="space-y-1">
+                  {devices.map((device) => (
+                    <label key={device.value} className="flex items-center text-xs text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={selectedDevices.includes(device.value)}
+                        onChange={() => toggleDevice(device.value)}
+                        disabled={isRunning || (device.value === 'gpu' && gpuUnsupported)}
+                        className="mr-2 accent-purple-600"
+                      />
+                      {device.label}
+                      {device.value === 'gpu' && gpuUnsupported && <span className="ml-1 text-gray-400">{t('benchmark.webgpuUnsupported')}</span>}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            {/* Controls */}
+            <div className="flex flex-wrap items-center gap-3 mb-6">
+              {isRunning ? (
+                <button
+                  onClick={() => abortController.current?.abort()}
+                  className="flex items-center px-4 py-2 bg-red-50 text-red-600 rounded-lg hover:bg-red-100 transition-colors text-sm font-medium"
+                >
+                  <Square className="w-4 h-4 mr-2" />
+                  {t('benchmark.stop')}
+                </button>
+              ) : (
+                <button
+                  onClick={handleRun}
+                  disabled={disabled || files.length === 0 || combos.length === 0}
+                  className="flex items-center px-4 py-2 bg-gradient-to-r from-purple-600 to-blue-600 text-white rounded-lg hover:shadow-lg transition-all text-sm font-medium disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  <Play className="w-4 h-4 mr-2" />
+                  {t('benchmark.start', { combos: combos.length, images: files.length })}
+                </button>
+              )}
+              {isRunning && <Loader2 className="w-4 h-4 text-purple-600 animate-spin" />}
+              {status && <span className="text-xs text-gray-600">{status}</span>}
+              {disabled && !isRunning && <span className="text-xs text-amber-600">{t('benchmark.disabled')}</span>}
+              {runs.length > 0 && !isRunning && (
+                <div className="flex gap-2 ml-auto">
+                  <button
+                    onClick={() => exportResults('csv')}
+                    className="flex items-center px-3 py-1.5 text-xs border border-gray-300 rounded-lg hover:bg-gray-50"
+                  >
+                    <FileSpreadsheet className="w-4 h-4 mr-1" />
+                    {t('benchmark.exportCsv')}
+                  </button>
+                  <button
+                    onClick={() => exportResults('json')}
+                    className="flex items-center px-3 py-1.5 text-xs border border-gray-300 rounded-lg hover:bg-gray-50"
+                  >
+                    <FileJson className="w-4 h-4 mr-1" />
+                    {t('benchmark.exportJson')}
+                  </button>
+                </div>
+              )}
+            </div>
+
+            {/* Results */}
+            {runs.length > 0 && (
+              <>
+                {files.length > 1 && (
+                  <div className="flex flex-wrap gap-2 mb-3">
+                    {files.map((file, index) => (
+                      <button
+                        key={index}
+                        onClick={() => setImageIndex(index)}
+                        className={`px-3 py-1 text-xs rounded-lg border transition-colors ${
+                          imageIndex === index ? 'border-purple-500 bg-purple-50 text-purple-700' : 'border-gray-200 hover:bg-gray-50'
+                        }`}
+                      >
+                        {file.name}
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                <div className="overflow-x-auto mb-6">
+                  <table className="w-full text-xs text-left">
+                    <thead className="text-gray-500 border-b border-gray-200">
+                      <tr>
+                        <th className="py-2 pr-3 font-medium">{t('benchmark.columns.reference')}</th>
+                        <th className="py-2 pr-3 font-medium">{t('benchmark.columns.model')}</th>
+                        <th className="py-2 pr-3 font-medium">{t('benchmark.columns.device')}</th>
+                        <th className="py-2 pr-3 font-medium">{t('benchmark.columns.load')}</th>
+                        <th className="py-2 pr-3 font-medium">{t('benchmark.columns.inference')}</th>
+                        <th className="py-2 pr-3 font-medium">{t('benchmark.columns.outputSize')}</th>
+                        <th className="py-2 pr-3 font-medium">{t('benchmark.columns.meanDiff')}</th>
+                        <th className="py-2 pr-3 font-medium">{t('benchmark.columns.changedRatio')}</th>
+                      </tr>
+                    </thead>
+                    <tbody className="text-gray-700">
+                      {resultCombos.map((combo) => {
+                        const comboKey = getComboKey(combo);
+                        const run = imageRuns.find((item) => getComboKey(item) === comboKey);
+                        const difference = run ? differences.get(run.key) : undefined;
+                        return (
+                          <tr key={comboKey} className="border-b border-gray-100">
+                            <td className="py-2 pr-3">
+                              <input
+                                type="radio"
+                                name="benchmark-reference"
+                                checked={referenceKey === comboKey}
+                                onChange={() => setReferenceKey(comboKey)}
+                                disabled={isRunning || !run?.mask}
+                                className="accent-purple-600"
+                              />
+                            </td>
+                            <td className="py-2 pr-3 font-medium">{combo.model}</td>
+                            <td className="py-2 pr-3">
+                              {combo.device.toUpperCase()}
+                              {run?.actualDevice && run.actualDevice !== combo.device && (
+                                <span className="text-amber-600"> → {run.actualDevice.toUpperCase()}</span>
+                              )}
+                            </td>
+                            {run?.error ? (
+                              <td colSpan={5} className="py-2 pr-3 text-red-600">{run.error}</td>
+                            ) : (
+                              <>
+                                <td className="py-2 pr-3">{run?.loadMs != null ? formatDuration(run.loadMs) : '—'}</td>
+                                <td className="py-2 pr-3">{run?.inferenceMs != null ? formatDuration(run.inferenceMs) : '—'}</td>
+                                <td className="py-2 pr-3">{run?.outputBytes != null ? formatBytes(run.outputBytes) : '—'}</td>
+                                <td className="py-2 pr-3">{referenceKey === comboKey ? t('benchmark.columns.reference') : difference ? formatPercent(difference.meanDiff, 2) : '—'}</td>
+                                <td className="py-2 pr-3">{referenceKey === comboKey ? t('benchmark.columns.reference') : difference ? formatPercent(difference.changedRatio, 2) : '—'}</td>
+                              </>
+                            )}
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+
+                {/* Masks */}
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                  {resultCombos.map((combo) => {
+                    const key = getRunKey(imageIndex, combo);
+                    const maskUrl = maskUrls.get(key);
+                    const heatmapUrl = heatmaps.get(key);
+                    const isReference = referenceKey === getComboKey(combo);
+                    return (
+                      <div key={key} className={`p-2 rounded-lg border ${isReference ? 'border-purple-500' : 'border-gray-200'}`}>
+                        <div className="text-xs font-medium text-gray-700 mb-2">
+                          {combo.model} / {combo.device.toUpperCase()}
+                          {isReference && <span className="ml-1 text-purple-600">{t('benchmark.referenceTag')}</span>}
+                        </div>
+                        {maskUrl ? (
+                          <img src={maskUrl} alt={t('benchmark.maskAlt', { model: combo.model })} className="w-full h-40 object-contain bg-gray-900 rounded" />
+                        ) : (
+                          <div className="w-full h-40 flex items-center justify-center bg-gray-100 rounded text-xs text-gray-400">{t('benchmark.noResult')}</div>
+                        )}
+                        {!isReference && heatmapUrl && (
+                          <>
+                            <div className="text-xs text-gray-500 mt-2 mb-1">{t('benchmark.diffTitle')}</div>
+                            <img src={heatmapUrl} alt={t('benchmark.heatmapAlt', { model: combo.model })} className="w-full h-40 object-contain bg-black rounded" />
+                          </>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </>
+            )}
+
+            <p className="text-xs text-gray-500 mt-6">
+              {t('benchmark.note')}
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
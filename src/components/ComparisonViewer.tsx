@@ -0,0 +1,472 @@
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { Columns2, Layers, ZoomIn, ZoomOut, Maximize, Scan, Loader2 } from 'lucide-react';
+import { formatPercent } from '../utils/format';
+import { t } from '../i18n';
+import { useI18n } from '../i18n/useI18n';
+
+type CompareMode = 'split' | 'mask';
+type Backdrop = 'checker' | 'black' | 'white' | 'custom';
+
+interface ComparisonViewerProps {
+  originalUrl: string;
+  processedUrl: string;
+  // 后处理后的黑白蒙版，用于蒙版叠加模式
+  mask?: Blob;
+  resultLabel: string;
+  // 结果带透明区域时默认使用棋盘格背景
+  transparent: boolean;
+}
+
+interface ViewTransform {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+interface PixelInfo {
+  x: number;
+  y: number;
+  rgba: [number, number, number, number];
+  mask?: number;
+}
+
+const VIEW_HEIGHT = 480;
+// 拖动分割线的感应范围（像素）
+const SPLIT_HANDLE_RANGE = 12;
+
+// 名称取自消息目录 compare.backdrops.*
+const backdrops: Backdrop[] = ['checker', 'black', 'white', 'custom'];
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(t('common.errors.imageLoad')));
+    image.src = src;
+  });
+}
+
+function readPixels(image: HTMLImageElement): ImageData {
+  const canvas = document.createElement('canvas');
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+  const context = canvas.getContext('2d', { willReadFrequently: true })!;
+  context.drawImage(image, 0, 0);
+  return context.getImageData(0, 0, canvas.width, canvas.height);
+}
+
+// 被移除的区域染成红色，透明度与蒙版成反比
+function createMaskTint(mask: ImageData): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = mask.width;
+  canvas.height = mask.height;
+  const tint = new ImageData(mask.width, mask.height);
+  for (let i = 0; i < tint.data.length; i += 4) {
+    tint.data[i] = 239;
+    tint.data[i + 1] = 68;
+    tint.data[i + 2] = 68;
+    tint.data[i + 3] = (255 - mask.data[i]) * 0.6;
+  }
+  canvas.getContext('2d')!.putImageData(tint, 0, 0);
+  return canvas;
+}
+
+function createCheckerPattern(context: CanvasRenderingContext2D): CanvasPattern | null {
+  const tile = document.createElement('canvas');
+  tile.width = 16;
+  tile.height = 16;
+  const tileContext = tile.getContext('2d')!;
+  tileContext.fillStyle = '#ffffff';
+  tileContext.fillRect(0, 0, 16, 16);
+  tileContext.fillStyle = '#e5e7eb';
+  tileContext.fillRect(0, 0, 8, 8);
+  tileContext.fillRect(8, 8, 8, 8);
+  return context.createPattern(tile, 'repeat');
+}
+
+export const ComparisonViewer: React.FC<ComparisonViewerProps> = ({
+  originalUrl,
+  processedUrl,
+  mask,
+  resultLabel,
+  transparent
+}) => {
+  // 切换语言时重新渲染
+  useI18n();
+  const [mode, setMode] = useState<CompareMode>('split');
+  const [backdrop, setBackdrop] = useState<Backdrop>(transparent ? 'checker' : 'white');
+  const [customColor, setCustomColor] = useState('#22c55e');
+  const [split, setSplit] = useState(0.5);
+  const [view, setView] = useState<ViewTransform>({ scale: 1, x: 0, y: 0 });
+  const [isLoading, setIsLoading] = useState(true);
+  const [pixel, setPixel] = useState<PixelInfo | null>(null);
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const originalRef = useRef<HTMLImageElement | null>(null);
+  const processedRef = useRef<HTMLImageElement | null>(null);
+  const processedPixels = useRef<ImageData | null>(null);
+  const maskPixels = useRef<ImageData | null>(null);
+  const maskTint = useRef<HTMLCanvasElement | null>(null);
+  const frameSize = useRef<{ width: number; height: number } | null>(null);
+  const pointerState = useRef<{ x: number; y: number; dragging: 'split' | 'pan' } | null>(null);
+
+  const fitToView = useCallback(() => {
+    const frame = frameSize.current;
+    const container = containerRef.current;
+    if (!frame || !container) return;
+
+    const scale = Math.min(container.clientWidth / frame.width, VIEW_HEIGHT / frame.height);
+    setView({
+      scale,
+      x: (container.clientWidth - frame.width * scale) / 2,
+      y: (VIEW_HEIGHT - frame.height * scale) / 2
+    });
+  }, []);
+
+  // 以结果图尺寸为画面；尺寸变化（例如裁剪）时重新适应窗口，否则保持当前缩放位置
+  useEffect(() => {
+    let cancelled = false;
+    const maskUrl = mask ? URL.createObjectURL(mask) : null;
+
+    Promise.all([loadImage(originalUrl), loadImage(processedUrl), maskUrl ? loadImage(maskUrl) : null])
+      .then(([original, processed, maskImage]) => {
+        if (cancelled) return;
+        originalRef.current = original;
+        processedRef.current = processed;
+        processedPixels.current = readPixels(processed);
+        maskPixels.current = maskImage ? readPixels(maskImage) : null;
+        maskTint.current = maskPixels.current ? createMaskTint(maskPixels.current) : null;
+
+        const previous = frameSize.current;
+        frameSize.current = { width: processed.naturalWidth, height: processed.naturalHeight };
+        setIsLoading(false);
+        if (!previous || previous.width !== processed.naturalWidth || previous.height !== processed.naturalHeight) {
+          fitToView();
+        } else {
+          setView((current) => ({ ...current }));
+        }
+      })
+      .catch((err) => console.error('对比视图加载失败:', err))
+      .finally(() => {
+        if (maskUrl) URL.revokeObjectURL(maskUrl);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [originalUrl, processedUrl, mask, fitToView]);
+
+  const render = useCallback(() => {
+    const canvas = canvasRef.current;
+    const container = containerRef.current;
+    const original = originalRef.current;
+    const processed = processedRef.current;
+    const frame = frameSize.current;
+    if (!canvas || !container || !original || !processed || !frame) return;
+
+    canvas.width = container.clientWidth;
+    canvas.height = VIEW_HEIGHT;
+    const context = canvas.getContext('2d')!;
+    context.clearRect(0, 0, canvas.width, canvas.height);
+    // 放大到 2 倍以上时显示清晰的像素格
+    context.imageSmoothingEnabled = view.scale < 2;
+
+    const frameRect = {
+      x: view.x,
+      y: view.y,
+      width: frame.width * view.scale,
+      height: frame.height * view.scale
+    };
+
+    // 原图与结果尺寸不同（裁剪或缩放）时，按结果画面等比适配
+    const drawOriginal = () => {
+      const fit = Math.min(frame.width / original.naturalWidth, frame.height / original.naturalHeight);
+      const width = original.naturalWidth * fit;
+      const height = original.naturalHeight * fit;
+      context.setTransform(view.scale, 0, 0, view.scale, view.x, view.y);
+      context.drawImage(original, (frame.width - width) / 2, (frame.height - height) / 2, width, height);
+      context.setTransform(1, 0, 0, 1, 0, 0);
+    };
+
+    const drawBackdrop = () => {
+      const fills: Record<Backdrop, string | CanvasPattern | null> = {
+        checker: createCheckerPattern(context),
+        black: '#000000',
+        white: '#ffffff',
+        custom: customColor
+      };
+      context.fillStyle = fills[backdrop] ?? '#ffffff';
+      context.fillRect(frameRect.x, frameRect.y, frameRect.width, frameRect.height);
+    };
+
+    if (mode === 'mask') {
+      drawOriginal();
+      if (maskTint.current) {
+        context.setTransform(view.scale, 0, 0, view.scale, view.x, view.y);
+        context.drawImage(maskTint.current, 0, 0, frame.width, frame.height);
+        context.setTransform(1, 0, 0, 1, 0, 0);
+      }
+      return;
+    }
+
+    const splitX = Math.round(canvas.width * split);
+
+    // 分割线左侧为原图
+    context.save();
+    context.beginPath();
+    context.rect(0, 0, splitX, canvas.height);
+    context.clip();
+    drawOriginal();
+    context.restore();
+
+    // 右侧为背景 + 处理结果
+    context.save();
+    context.beginPath();
+    context.rect(splitX, 0, canvas.width - splitX, canvas.height);
+    context.clip();
+    drawBackdrop();
+    context.setTransform(view.scale, 0, 0, view.scale, view.x, view.y);
+    context.drawImage(processed, 0, 0);
+    context.restore();
+
+    // 分割线与拖动手柄
+    context.fillStyle = '#ffffff';
+    context.fillRect(splitX - 1, 0, 2, canvas.height);
+    context.beginPath();
+    context.arc(splitX, canvas.height / 2, 14, 0, Math.PI * 2);
+    context.fill();
+    context.strokeStyle = '#9333ea';
+    context.lineWidth = 2;
+    context.stroke();
+    context.fillStyle = '#9333ea';
+    context.font = 'bold 12px sans-serif';
+    context.textAlign = 'center';
+    context.textBaseline = 'middle';
+    context.fillText('⇆', splitX, canvas.height / 2);
+  }, [view, split, mode, backdrop, customColor]);
+
+  useEffect(() => {
+    if (!isLoading) {
+      render();
+    }
+  }, [isLoading, render]);
+
+  const toImageCoordinates = (e: React.PointerEvent) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return {
+      x: Math.floor((e.clientX - rect.left - view.x) / view.scale),
+      y: Math.floor((e.clientY - rect.top - view.y) / view.scale)
+    };
+  };
+
+  // 读取光标处结果图的像素值和蒙版值
+  const inspectPixel = (e: React.PointerEvent) => {
+    const pixels = processedPixels.current;
+    if (!pixels) return;
+
+    const { x, y } = toImageCoordinates(e);
+    if (x < 0 || y < 0 || x >= pixels.width || y >= pixels.height) {
+      setPixel(null);
+      return;
+    }
+
+    const index = (y * pixels.width + x) * 4;
+    const maskData = maskPixels.current;
+    setPixel({
+      x,
+      y,
+      rgba: [pixels.data[index], pixels.data[index + 1], pixels.data[index + 2], pixels.data[index + 3]],
+      mask: maskData && maskData.width === pixels.width && maskData.height === pixels.height
+        ? maskData.data[index]
+        : undefined
+    });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (isLoading) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    const splitX = rect.width * split;
+    const nearSplit = mode === 'split' && Math.abs(e.clientX - rect.left - splitX) <= SPLIT_HANDLE_RANGE;
+    pointerState.current = { x: e.clientX, y: e.clientY, dragging: nearSplit ? 'split' : 'pan' };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const state = pointerState.current;
+    if (!state) {
+      inspectPixel(e);
+      return;
+    }
+
+    if (state.dragging === 'split') {
+      const rect = e.currentTarget.getBoundingClientRect();
+      setSplit(Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)));
+      return;
+    }
+
+    const dx = e.clientX - state.x;
+    const dy = e.clientY - state.y;
+    pointerState.current = { ...state, x: e.clientX, y: e.clientY };
+    setView((current) => ({ ...current, x: current.x + dx, y: current.y + dy }));
+  };
+
+  const handlePointerUp = () => {
+    pointerState.current = null;
+  };
+
+  // 以指定点为中心缩放
+  const zoomAt = (factor: number, centerX: number, centerY: number, absolute = false) => {
+    setView((current) => {
+      const scale = Math.min(32, Math.max(0.05, absolute ? factor : current.scale * factor));
+      const ratio = scale / current.scale;
+      return {
+        scale,
+        x: centerX - (centerX - current.x) * ratio,
+        y: centerY - (centerY - current.y) * ratio
+      };
+    });
+  };
+
+  // 滚轮缩放需要阻止页面滚动，React 的 wheel 事件为被动监听，因此手动绑定
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = canvas.getBoundingClientRect();
+      zoomAt(e.deltaY < 0 ? 1.15 : 1 / 1.15, e.clientX - rect.left, e.clientY - rect.top);
+    };
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const zoomFromCenter = (factor: number, absolute = false) => {
+    const container = containerRef.current;
+    if (container) {
+      zoomAt(factor, container.clientWidth / 2, VIEW_HEIGHT / 2, absolute);
+    }
+  };
+
+  const modes: { value: CompareMode; label: string; icon: React.ReactNode }[] = [
+    { value: 'split', label: t('compare.modes.split'), icon: <Columns2 className="w-4 h-4 mr-1" /> },
+    { value: 'mask', label: t('compare.modes.mask'), icon: <Layers className="w-4 h-4 mr-1" /> }
+  ];
+
+  return (
+    <div>
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-4 mb-4">
+        <div className="flex space-x-2">
+          {modes.map((item) => (
+            <button
+              key={item.value}
+              onClick={() => setMode(item.value)}
+              disabled={item.value === 'mask' && !mask}
+              className={`flex items-center px-3 py-2 rounded-lg border-2 text-sm font-medium transition-all duration-200 disabled:opacity-40 ${
+                mode === item.value
+                  ? 'border-purple-500 bg-purple-50 text-purple-700'
+                  : 'border-gray-200 hover:border-gray-300'
+              }`}
+            >
+              {item.icon}
+              {item.label}
+            </button>
+          ))}
+        </div>
+
+        {mode === 'split' && (
+          <div className="flex items-center space-x-2 text-xs text-gray-600">
+            <span>{t('compare.backdrop')}:</span>
+            {backdrops.map((item) => (
+              <button
+                key={item}
+                onClick={() => setBackdrop(item)}
+                className={`px-2 py-1 rounded-md border transition-colors ${
+                  backdrop === item
+                    ? 'border-purple-500 bg-purple-50 text-purple-700'
+                    : 'border-gray-200 hover:border-gray-300'
+                }`}
+              >
+                {t(`compare.backdrops.${item}`)}
+              </button>
+            ))}
+            {backdrop === 'custom' && (
+              <input
+                type="color"
+                value={customColor}
+                onChange={(e) => setCustomColor(e.target.value)}
+                className="w-8 h-6 rounded cursor-pointer"
+              />
+            )}
+          </div>
+        )}
+
+        <div className="flex space-x-1 ml-auto">
+          <button onClick={() => zoomFromCenter(1.25)} className="p-2 rounded-lg hover:bg-gray-100" title={t('viewer.zoomIn')}>
+            <ZoomIn className="w-4 h-4" />
+          </button>
+          <button onClick={() => zoomFromCenter(0.8)} className="p-2 rounded-lg hover:bg-gray-100" title={t('viewer.zoomOut')}>
+            <ZoomOut className="w-4 h-4" />
+          </button>
+          <button onClick={() => zoomFromCenter(1, true)} className="p-2 rounded-lg hover:bg-gray-100" title={t('viewer.actualSize')}>
+            <Scan className="w-4 h-4" />
+          </button>
+          <button onClick={fitToView} className="p-2 rounded-lg hover:bg-gray-100" title={t('viewer.fit')}>
+            <Maximize className="w-4 h-4" />
+          </button>
+          <span className="self-center text-xs text-gray-500 ml-1">{formatPercent(view.scale)}</span>
+        </div>
+      </div>
+
+      {/* Canvas */}
+      <div
+        ref={containerRef}
+        className="relative border-2 border-gray-200 rounded-xl overflow-hidden shadow-inner bg-gray-100"
+        style={{ height: VIEW_HEIGHT }}
+      >
+        <canvas
+          ref={canvasRef}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          onPointerLeave={() => setPixel(null)}
+          className="block touch-none cursor-grab"
+        />
+        {mode === 'split' && !isLoading && (
+          <>
+            <span className="absolute top-3 left-3 px-2 py-1 text-xs font-medium bg-black/50 text-white rounded-md pointer-events-none">
+              {t('compare.original')}
+            </span>
+            <span className="absolute top-3 right-3 px-2 py-1 text-xs font-medium bg-black/50 text-white rounded-md pointer-events-none">
+              {resultLabel}
+            </span>
+          </>
+        )}
+        {isLoading && (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <Loader2 className="w-8 h-8 text-purple-600 animate-spin" />
+          </div>
+        )}
+      </div>
+
+      {/* Pixel Inspection */}
+      <div className="flex items-center justify-between text-xs text-gray-500 mt-2">
+        <span>
+          {mode === 'split'
+            ? t('compare.hints.split')
+            : t('compare.hints.mask')}
+        </span>
+        {pixel && (
+          <span className="font-mono text-gray-700">
+            X {pixel.x} Y {pixel.y} · RGBA({pixel.rgba.join(', ')})
+            {pixel.mask !== undefined && ` · ${t('compare.mask')} ${pixel.mask}`}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
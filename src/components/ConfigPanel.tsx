@@ -1,25 +1,58 @@
 import React from 'react';
-import { Settings, Monitor, Cpu, Zap, Image, Palette } from 'lucide-react';
-import { Config } from '@imgly/background-removal';
+import { Settings, Monitor, Cpu, Zap, Image, Palette, Maximize2, CheckCircle, XCircle, AlertTriangle } from 'lucide-react';
+import { ProcessingConfig, modelOptions } from '../utils/backgroundRemoval';
+import { BackgroundSettings } from './BackgroundSettings';
+import { MaskRefinementSettings } from './MaskRefinementSettings';
+import { CropSettingsPanel } from './CropSettingsPanel';
+import { SubjectEffectsSettings } from './SubjectEffectsSettings';
+import { PresetManager } from './PresetManager';
+import { OfflineModels } from './OfflineModels';
+import { largeImageModes } from '../utils/largeImage';
+import { getOutputFormat, hasTransparency, outputFormats } from '../utils/outputFormats';
+import { DeviceCapabilities, LOW_MEMORY_GB, isLowMemory } from '../utils/capabilities';
+import { formatPercent } from '../utils/format';
+import { useI18n } from '../i18n/useI18n';
 
 interface ConfigPanelProps {
-  config: Config;
-  onConfigChange: (config: Config) => void;
+  config: ProcessingConfig;
+  onConfigChange: (config: ProcessingConfig) => void;
+  modelLoaded: boolean;
+  // 启动时探测到的浏览器能力，探测完成前为 null
+  capabilities: DeviceCapabilities | null;
   isOpen: boolean;
   onToggle: () => void;
 }
 
+const CapabilityRow: React.FC<{ label: string; ok: boolean; detail?: string }> = ({ label, ok, detail }) => (
+  <div className="flex items-center justify-between">
+    <span className="flex items-center">
+      {ok ? <CheckCircle className="w-3 h-3 mr-1 text-green-600" /> : <XCircle className="w-3 h-3 mr-1 text-gray-400" />}
+      {label}
+    </span>
+    {detail && <span className="text-gray-500 truncate ml-2">{detail}</span>}
+  </div>
+);
+
 export const ConfigPanel: React.FC<ConfigPanelProps> = ({
   config,
   onConfigChange,
+  modelLoaded,
+  capabilities,
   isOpen,
   onToggle
 }) => {
-  const updateConfig = (updates: Partial<Config>) => {
+  const { t } = useI18n();
+  const gpuUnsupported = capabilities !== null && !capabilities.webgpu;
+  const lowMemory = isLowMemory(capabilities);
+  const outputFormat = getOutputFormat(config.output.format);
+  // 所选格式无法保存结果中的透明区域
+  const losesAlpha = !outputFormat.alpha && hasTransparency(config);
+
+  const updateConfig = (updates: Partial<ProcessingConfig>) => {
     onConfigChange({ ...config, ...updates });
   };
 
-  const updateOutputConfig = (updates: Partial<Config['output']>) => {
+  const updateOutputConfig = (updates: Partial<ProcessingConfig['output']>) => {
     onConfigChange({
       ...config,
       output: { ...config.output, ...updates }
@@ -34,7 +67,7 @@ export const ConfigPanel: React.FC<ConfigPanelProps> = ({
         className="fixed top-6 right-6 z-50 flex items-center px-4 py-2 bg-white/90 backdrop-blur-sm border border-gray-200 rounded-xl shadow-lg hover:shadow-xl transition-all duration-200 hover:scale-105"
       >
         <Settings className="w-4 h-4 mr-2 text-gray-600" />
-        <span className="text-sm font-medium text-gray-700">设置</span>
+        <span className="text-sm font-medium text-gray-700">{t('config.toggle')}</span>
       </button>
 
       {/* Config Panel */}
@@ -43,7 +76,7 @@ export const ConfigPanel: React.FC<ConfigPanelProps> = ({
       }`}>
         <div className="p-6 h-full overflow-y-auto">
           <div className="flex items-center justify-between mb-6">
-            <h2 className="text-xl font-bold text-gray-900">AI处理设置</h2>
+            <h2 className="text-xl font-bold text-gray-900">{t('config.title')}</h2>
             <button
               onClick={onToggle}
               className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
@@ -53,11 +86,14 @@ export const ConfigPanel: React.FC<ConfigPanelProps> = ({
           </div>
 
           <div className="space-y-6">
+            {/* Presets */}
+            <PresetManager config={config} onApply={onConfigChange} />
+
             {/* Device Selection */}
             <div>
               <label className="flex items-center text-sm font-semibold text-gray-700 mb-3">
                 <Monitor className="w-4 h-4 mr-2" />
-                处理设备
+                {t('config.device.title')}
               </label>
               <div className="grid grid-cols-2 gap-2">
                 <button
@@ -73,7 +109,9 @@ export const ConfigPanel: React.FC<ConfigPanelProps> = ({
                 </button>
                 <button
                   onClick={() => updateConfig({ device: 'gpu' })}
-                  className={`p-3 rounded-lg border-2 transition-all duration-200 ${
+                  disabled={gpuUnsupported}
+                  title={gpuUnsupported ? t('config.device.gpuUnsupported') : undefined}
+                  className={`p-3 rounded-lg border-2 transition-all duration-200 disabled:opacity-40 disabled:cursor-not-allowed ${
                     config.device === 'gpu'
                       ? 'border-purple-500 bg-purple-50 text-purple-700'
                       : 'border-gray-200 hover:border-gray-300'
@@ -84,26 +122,45 @@ export const ConfigPanel: React.FC<ConfigPanelProps> = ({
                 </button>
               </div>
               <p className="text-xs text-gray-500 mt-2">
-                GPU模式需要浏览器支持WebGPU，否则自动降级到CPU
+                {gpuUnsupported
+                  ? config.device === 'gpu'
+                    ? t('config.device.usingCpu')
+                    : t('config.device.gpuDisabled')
+                  : t('config.device.hint')}
               </p>
+              {capabilities && (
+                <div className="mt-3 p-3 bg-gray-50 rounded-lg text-xs text-gray-600 space-y-1">
+                  <CapabilityRow label="WebGPU" ok={capabilities.webgpu} detail={capabilities.gpuName ?? undefined} />
+                  <CapabilityRow label="WASM SIMD" ok={capabilities.wasmSimd} detail={capabilities.wasmSimd ? undefined : t('config.capabilities.wasmSimdMissing')} />
+                  <CapabilityRow
+                    label={t('config.capabilities.threads')}
+                    ok={capabilities.crossOriginIsolated}
+                    detail={capabilities.crossOriginIsolated
+                      ? t('config.capabilities.threadCount', { count: capabilities.threads })
+                      : t('config.capabilities.notIsolated')}
+                  />
+                  <CapabilityRow
+                    label={t('config.capabilities.memory')}
+                    ok={!lowMemory}
+                    detail={capabilities.memoryGB === null ? t('common.unknown') : t('config.capabilities.memoryAmount', { amount: capabilities.memoryGB })}
+                  />
+                </div>
+              )}
             </div>
 
             {/* Model Selection */}
             <div>
               <label className="flex items-center text-sm font-semibold text-gray-700 mb-3">
                 <Image className="w-4 h-4 mr-2" />
-                AI模型
+                {t('config.model.title')}
               </label>
               <div className="space-y-2">
-                {[
-                  { value: 'isnet', label: '标准模型', desc: '平衡速度和质量' },
-                  { value: 'isnet_fp16', label: '优化模型', desc: '推荐，更快处理' },
-                  { value: 'isnet_quint8', label: '轻量模型', desc: '最快速度' }
-                ].map((model) => (
+                {modelOptions.map((model) => (
                   <button
                     key={model.value}
-                    onClick={() => updateConfig({ model: model.value as any })}
-                    className={`w-full p-3 rounded-lg border-2 text-left transition-all duration-200 ${
+                    onClick={() => updateConfig({ model: model.value })}
+                    disabled={lowMemory && model.value === 'isnet'}
+                    className={`w-full p-3 rounded-lg border-2 text-left transition-all duration-200 disabled:opacity-40 disabled:cursor-not-allowed ${
                       config.model === model.value
                         ? 'border-purple-500 bg-purple-50'
                         : 'border-gray-200 hover:border-gray-300'
@@ -114,23 +171,75 @@ export const ConfigPanel: React.FC<ConfigPanelProps> = ({
                   </button>
                 ))}
               </div>
+              {lowMemory && (
+                <p className="text-xs text-gray-500 mt-2">
+                  {t('config.model.lowMemory', { amount: LOW_MEMORY_GB })}
+                </p>
+              )}
+            </div>
+
+            {/* Model Assets */}
+            <OfflineModels
+              config={config}
+              modelLoaded={modelLoaded}
+              onPublicPathChange={(publicPath) => updateConfig({ publicPath })}
+            />
+
+            {/* Large Image */}
+            <div>
+              <label className="flex items-center text-sm font-semibold text-gray-700 mb-3">
+                <Maximize2 className="w-4 h-4 mr-2" />
+                {t('config.largeImage.title')}
+              </label>
+              <div className="grid grid-cols-2 gap-2 mb-3">
+                {largeImageModes.map((mode) => (
+                  <button
+                    key={mode.value}
+                    onClick={() => updateConfig({ largeImage: { ...config.largeImage, mode: mode.value } })}
+                    disabled={lowMemory && mode.value === 'full'}
+                    className={`p-2 rounded-lg border-2 text-left transition-all duration-200 disabled:opacity-40 disabled:cursor-not-allowed ${
+                      config.largeImage.mode === mode.value
+                        ? 'border-purple-500 bg-purple-50'
+                        : 'border-gray-200 hover:border-gray-300'
+                    }`}
+                  >
+                    <div className="text-xs font-medium">{mode.label}</div>
+                    <div className="text-xs text-gray-500">{mode.desc}</div>
+                  </button>
+                ))}
+              </div>
+              <label className="flex items-center justify-between">
+                <span className="text-xs text-gray-600">{t('config.largeImage.confirm')}</span>
+                <button
+                  onClick={() => updateConfig({ largeImage: { ...config.largeImage, confirm: !config.largeImage.confirm } })}
+                  className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                    config.largeImage.confirm ? 'bg-purple-600' : 'bg-gray-200'
+                  }`}
+                >
+                  <span
+                    className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                      config.largeImage.confirm ? 'translate-x-6' : 'translate-x-1'
+                    }`}
+                  />
+                </button>
+              </label>
+              <p className="text-xs text-gray-500 mt-2">
+                {t('config.largeImage.hint')}
+              </p>
             </div>
 
             {/* Output Format */}
             <div>
               <label className="flex items-center text-sm font-semibold text-gray-700 mb-3">
                 <Palette className="w-4 h-4 mr-2" />
-                输出格式
+                {t('config.output.format')}
               </label>
-              <div className="grid grid-cols-3 gap-2 mb-3">
-                {[
-                  { value: 'image/png', label: 'PNG' },
-                  { value: 'image/jpeg', label: 'JPEG' },
-                  { value: 'image/webp', label: 'WebP' }
-                ].map((format) => (
+              <div className="grid grid-cols-4 gap-2 mb-2">
+                {outputFormats.map((format) => (
                   <button
                     key={format.value}
-                    onClick={() => updateOutputConfig({ format: format.value as any })}
+                    onClick={() => updateOutputConfig({ format: format.value })}
+                    title={format.desc}
                     className={`p-2 rounded-lg border-2 text-xs font-medium transition-all duration-200 ${
                       config.output.format === format.value
                         ? 'border-purple-500 bg-purple-50 text-purple-700'
@@ -141,39 +250,98 @@ export const ConfigPanel: React.FC<ConfigPanelProps> = ({
                   </button>
                 ))}
               </div>
+              <p className="text-xs text-gray-500 mb-3">{outputFormat.desc}</p>
+              {losesAlpha && (
+                <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg">
+                  <p className="flex items-start text-xs text-amber-800 mb-2">
+                    <AlertTriangle className="w-4 h-4 mr-1 flex-shrink-0" />
+                    {t('config.output.noAlpha', { format: outputFormat.label })}
+                  </p>
+                  <div className="flex items-center justify-between">
+                    <span className="text-xs text-gray-600">{t('config.output.matte')}</span>
+                    <input
+                      type="color"
+                      value={config.output.matte}
+                      onChange={(e) => updateOutputConfig({ matte: e.target.value })}
+                      className="w-10 h-8 rounded cursor-pointer"
+                    />
+                  </div>
+                </div>
+              )}
+              <label className="flex items-center justify-between mt-3">
+                <span className="text-xs text-gray-600">{t('config.output.metadata')}</span>
+                <button
+                  onClick={() => updateOutputConfig({ metadata: !config.output.metadata })}
+                  className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                    config.output.metadata ? 'bg-purple-600' : 'bg-gray-200'
+                  }`}
+                >
+                  <span
+                    className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                      config.output.metadata ? 'translate-x-6' : 'translate-x-1'
+                    }`}
+                  />
+                </button>
+              </label>
+              <p className="text-xs text-gray-500 mt-2">
+                {t('config.output.metadataHint')}
+              </p>
             </div>
 
+            {/* Auto Crop */}
+            <CropSettingsPanel
+              crop={config.crop}
+              onChange={(crop) => updateConfig({ crop })}
+            />
+
             {/* Output Type */}
             <div>
               <label className="text-sm font-semibold text-gray-700 mb-3 block">
-                输出类型
+                {t('config.outputType.title')}
               </label>
               <div className="space-y-2">
-                {[
-                  { value: 'foreground', label: '前景（去背景）', desc: '保留主体，移除背景' },
-                  { value: 'background', label: '背景', desc: '仅保留背景部分' },
-                  { value: 'mask', label: '蒙版', desc: '黑白蒙版图像' }
-                ].map((type) => (
+                {(['foreground', 'background', 'mask'] as const).map((type) => (
                   <button
-                    key={type.value}
-                    onClick={() => updateOutputConfig({ type: type.value as any })}
+                    key={type}
+                    onClick={() => updateOutputConfig({ type })}
                     className={`w-full p-3 rounded-lg border-2 text-left transition-all duration-200 ${
-                      config.output.type === type.value
+                      config.output.type === type
                         ? 'border-purple-500 bg-purple-50'
                         : 'border-gray-200 hover:border-gray-300'
                     }`}
                   >
-                    <div className="font-medium text-sm">{type.label}</div>
-                    <div className="text-xs text-gray-500">{type.desc}</div>
+                    <div className="font-medium text-sm">{t(`config.outputType.${type}.label`)}</div>
+                    <div className="text-xs text-gray-500">{t(`config.outputType.${type}.desc`)}</div>
                   </button>
                 ))}
               </div>
             </div>
 
+            {/* Mask Refinement */}
+            <MaskRefinementSettings
+              refinement={config.refinement}
+              onChange={(refinement) => updateConfig({ refinement })}
+            />
+
+            {/* Background Replacement */}
+            <BackgroundSettings
+              background={config.background}
+              onChange={(background) => updateConfig({ background })}
+              disabled={config.output.type !== 'foreground'}
+            />
+
+            {/* Subject Effects */}
+            <SubjectEffectsSettings
+              effects={config.effects}
+              onChange={(effects) => updateConfig({ effects })}
+              disabled={config.output.type !== 'foreground'}
+            />
+
             {/* Quality Slider */}
-            <div>
+            <div className={outputFormat.lossy ? '' : 'opacity-50'}>
               <label className="text-sm font-semibold text-gray-700 mb-3 block">
-                输出质量: {Math.round(config.output.quality * 100)}%
+                {t('config.quality.title', { quality: formatPercent(config.output.quality) })}
+                {!outputFormat.lossy && <span className="ml-2 text-xs font-normal text-gray-500">{t('config.quality.unused', { format: outputFormat.label })}</span>}
               </label>
               <input
                 type="range"
@@ -182,18 +350,19 @@ export const ConfigPanel: React.FC<ConfigPanelProps> = ({
                 step="0.1"
                 value={config.output.quality}
                 onChange={(e) => updateOutputConfig({ quality: parseFloat(e.target.value) })}
-                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+                disabled={!outputFormat.lossy}
+                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider disabled:cursor-not-allowed"
               />
               <div className="flex justify-between text-xs text-gray-500 mt-1">
-                <span>低质量</span>
-                <span>高质量</span>
+                <span>{t('config.quality.low')}</span>
+                <span>{t('config.quality.high')}</span>
               </div>
             </div>
 
             {/* Debug Mode */}
             <div>
               <label className="flex items-center justify-between">
-                <span className="text-sm font-semibold text-gray-700">调试模式</span>
+                <span className="text-sm font-semibold text-gray-700">{t('config.debug.title')}</span>
                 <button
                   onClick={() => updateConfig({ debug: !config.debug })}
                   className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
@@ -208,7 +377,7 @@ export const ConfigPanel: React.FC<ConfigPanelProps> = ({
                 </button>
               </label>
               <p className="text-xs text-gray-500 mt-1">
-                在控制台显示详细的处理信息
+                {t('config.debug.hint')}
               </p>
             </div>
           </div>
@@ -0,0 +1,101 @@
+import React from 'react';
+import { Crop } from 'lucide-react';
+import { CropSettings, cropPresets, getCropPreset } from '../utils/cropping';
+import { formatPercent } from '../utils/format';
+import { useI18n } from '../i18n/useI18n';
+
+interface CropSettingsPanelProps {
+  crop: CropSettings;
+  onChange: (crop: CropSettings) => void;
+}
+
+const Toggle: React.FC<{ checked: boolean; onChange: (checked: boolean) => void }> = ({ checked, onChange }) => (
+  <button
+    onClick={() => onChange(!checked)}
+    className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+      checked ? 'bg-purple-600' : 'bg-gray-200'
+    }`}
+  >
+    <span
+      className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+        checked ? 'translate-x-6' : 'translate-x-1'
+      }`}
+    />
+  </button>
+);
+
+export const CropSettingsPanel: React.FC<CropSettingsPanelProps> = ({
+  crop,
+  onChange
+}) => {
+  const { t } = useI18n();
+  const update = (updates: Partial<CropSettings>) => {
+    onChange({ ...crop, ...updates });
+  };
+
+  const preset = getCropPreset(crop.preset);
+
+  return (
+    <div>
+      <label className="flex items-center justify-between mb-3">
+        <span className="flex items-center text-sm font-semibold text-gray-700">
+          <Crop className="w-4 h-4 mr-2" />
+          {t('crop.title')}
+        </span>
+        <Toggle checked={crop.enabled} onChange={(enabled) => update({ enabled })} />
+      </label>
+
+      {crop.enabled && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            {cropPresets.map((item) => (
+              <button
+                key={item.id}
+                onClick={() => update({ preset: item.id })}
+                className={`p-2 rounded-lg border-2 text-left transition-all duration-200 ${
+                  crop.preset === item.id
+                    ? 'border-purple-500 bg-purple-50'
+                    : 'border-gray-200 hover:border-gray-300'
+                }`}
+              >
+                <div className="text-xs font-medium">{item.label}</div>
+                <div className="text-xs text-gray-500">{item.desc}</div>
+              </button>
+            ))}
+          </div>
+
+          <div>
+            <div className="flex justify-between text-xs text-gray-600">
+              <span>{t('crop.padding')}</span>
+              <span>{formatPercent(crop.padding / 100)}</span>
+            </div>
+            <input
+              type="range"
+              min="0"
+              max="50"
+              step="1"
+              value={crop.padding}
+              onChange={(e) => update({ padding: parseInt(e.target.value) })}
+              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+            />
+          </div>
+
+          <label className="flex items-center justify-between">
+            <span className="text-xs text-gray-600">{t('crop.center')}</span>
+            <Toggle checked={crop.center} onChange={(center) => update({ center })} />
+          </label>
+
+          {preset.width && preset.height && (
+            <label className="flex items-center justify-between">
+              <span className="text-xs text-gray-600">{t('crop.resize', { width: String(preset.width), height: String(preset.height) })}</span>
+              <Toggle checked={crop.resizeToTarget} onChange={(resizeToTarget) => update({ resizeToTarget })} />
+            </label>
+          )}
+        </div>
+      )}
+      <p className="text-xs text-gray-500 mt-2">
+        {t('crop.hint')}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,45 @@
+import React from 'react';
+import { AlertCircle } from 'lucide-react';
+import { ProcessingErrorCode, RecoveryAction, errorGuides, recoveryActionLabels } from '../utils/errors';
+
+interface ErrorNoticeProps {
+  code: ProcessingErrorCode;
+  message: string;
+  actions: RecoveryAction[];
+  onAction: (action: RecoveryAction) => void;
+}
+
+// 按错误码显示处理建议和恢复操作
+export const ErrorNotice: React.FC<ErrorNoticeProps> = ({
+  code,
+  message,
+  actions,
+  onAction
+}) => {
+  const { hint } = errorGuides[code];
+
+  return (
+    <div className="bg-red-50 border border-red-200 rounded-xl p-4 mb-8">
+      <div className="flex items-start">
+        <AlertCircle className="w-5 h-5 text-red-600 mr-3 mt-0.5 flex-shrink-0" />
+        <div className="flex-1">
+          <div className="text-red-800">{message}</div>
+          {hint && <p className="text-sm text-red-700 mt-1">{hint}</p>}
+          {actions.length > 0 && (
+            <div className="flex flex-wrap gap-2 mt-3">
+              {actions.map((action) => (
+                <button
+                  key={action}
+                  onClick={() => onAction(action)}
+                  className="px-4 py-2 text-sm bg-white text-red-700 border border-red-300 rounded-lg hover:bg-red-100 transition-colors"
+                >
+                  {recoveryActionLabels[action]}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,225 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { History, Search, Trash2, FolderOpen, HardDrive, Loader2 } from 'lucide-react';
+import {
+  HistoryEntry,
+  StorageUsage,
+  listHistoryEntries,
+  deleteHistoryEntry,
+  clearHistory,
+  getStorageUsage
+} from '../utils/historyStore';
+import { formatBytes, formatDateTime } from '../utils/format';
+import { MessageKey } from '../i18n';
+import { useI18n } from '../i18n/useI18n';
+
+interface HistoryPanelProps {
+  isOpen: boolean;
+  onToggle: () => void;
+  onOpenEntry: (entry: HistoryEntry) => void;
+  // 历史记录变化时递增，用于刷新列表
+  version: number;
+}
+
+interface HistoryListItem {
+  entry: HistoryEntry;
+  thumbnail: string;
+}
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  isOpen,
+  onToggle,
+  onOpenEntry,
+  version
+}) => {
+  const { t } = useI18n();
+  const [items, setItems] = useState<HistoryListItem[]>([]);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [query, setQuery] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  // 保存消息键，切换语言后错误提示随之切换
+  const [error, setError] = useState<MessageKey | null>(null);
+
+  const loadEntries = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [entries, usage] = await Promise.all([listHistoryEntries(), getStorageUsage()]);
+      setItems(entries.map((entry) => ({ entry, thumbnail: URL.createObjectURL(entry.preview ?? entry.output) })));
+      setStorageUsage(usage);
+      setError(null);
+    } catch (err) {
+      console.error('历史记录加载失败:', err);
+      setError('history.errors.load');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadEntries();
+    }
+  }, [isOpen, version, loadEntries]);
+
+  // 列表更新或关闭面板时释放缩略图
+  useEffect(() => {
+    return () => items.forEach((item) => URL.revokeObjectURL(item.thumbnail));
+  }, [items]);
+
+  const filteredItems = useMemo(() => {
+    const keyword = query.trim().toLowerCase();
+    if (!keyword) return items;
+    return items.filter((item) => item.entry.filename.toLowerCase().includes(keyword));
+  }, [items, query]);
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteHistoryEntry(id);
+      await loadEntries();
+    } catch (err) {
+      console.error('删除历史记录失败:', err);
+      setError('history.errors.delete');
+    }
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm(t('history.confirmClear'))) return;
+
+    try {
+      await clearHistory();
+      await loadEntries();
+    } catch (err) {
+      console.error('清空历史记录失败:', err);
+      setError('history.errors.clear');
+    }
+  };
+
+  const usagePercent = storageUsage && storageUsage.quota > 0
+    ? Math.min(100, (storageUsage.usage / storageUsage.quota) * 100)
+    : 0;
+
+  return (
+    <div className="relative">
+      {/* Toggle Button */}
+      <button
+        onClick={onToggle}
+        className="fixed top-6 left-6 z-50 flex items-center px-4 py-2 bg-white/90 backdrop-blur-sm border border-gray-200 rounded-xl shadow-lg hover:shadow-xl transition-all duration-200 hover:scale-105"
+      >
+        <History className="w-4 h-4 mr-2 text-gray-600" />
+        <span className="text-sm font-medium text-gray-700">{t('history.toggle')}</span>
+      </button>
+
+      {/* History Panel */}
+      <div className={`fixed top-0 left-0 h-full w-96 bg-white shadow-2xl transform transition-transform duration-300 z-40 ${
+        isOpen ? 'translate-x-0' : '-translate-x-full'
+      }`}>
+        <div className="p-6 h-full flex flex-col">
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-xl font-bold text-gray-900">{t('history.title')}</h2>
+            <button
+              onClick={onToggle}
+              className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              ✕
+            </button>
+          </div>
+
+          {/* Search */}
+          <div className="relative mb-4">
+            <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder={t('history.search')}
+              className="w-full pl-9 pr-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:border-purple-400"
+            />
+          </div>
+
+          {error && <p className="text-xs text-red-600 mb-2">{t(error)}</p>}
+
+          {/* Entries */}
+          <div className="flex-1 overflow-y-auto -mx-2">
+            {isLoading && items.length === 0 ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="w-6 h-6 text-purple-600 animate-spin" />
+              </div>
+            ) : filteredItems.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-8">
+                {items.length === 0 ? t('history.empty') : t('history.noMatch')}
+              </p>
+            ) : (
+              <ul className="space-y-1">
+                {filteredItems.map(({ entry, thumbnail }) => (
+                  <li key={entry.id} className="flex items-center p-2 rounded-lg hover:bg-gray-50">
+                    <img
+                      src={thumbnail}
+                      alt={entry.filename}
+                      className="w-12 h-12 rounded-lg object-contain bg-gray-100 border border-gray-200 mr-3 flex-shrink-0"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm font-medium text-gray-900 truncate">{entry.filename}</div>
+                      <div className="text-xs text-gray-500">
+                        {formatDateTime(entry.createdAt)} · {entry.config.model}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => onOpenEntry(entry)}
+                      className="p-2 text-gray-600 hover:text-purple-600 hover:bg-purple-50 rounded-lg transition-colors"
+                      title={t('history.reopen')}
+                    >
+                      <FolderOpen className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(entry.id)}
+                      className="p-2 text-gray-600 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                      title={t('history.delete')}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Storage Quota */}
+          <div className="pt-4 mt-4 border-t border-gray-100">
+            {storageUsage && (
+              <div className="mb-3">
+                <div className="flex items-center justify-between text-xs text-gray-600 mb-1">
+                  <span className="flex items-center">
+                    <HardDrive className="w-3 h-3 mr-1" />
+                    {t('history.storage')}
+                  </span>
+                  <span>{formatBytes(storageUsage.usage)} / {formatBytes(storageUsage.quota)}</span>
+                </div>
+                <div className="w-full bg-gray-200 rounded-full h-1.5">
+                  <div
+                    className={`h-1.5 rounded-full ${usagePercent > 90 ? 'bg-red-500' : 'bg-gradient-to-r from-purple-600 to-blue-600'}`}
+                    style={{ width: `${usagePercent}%` }}
+                  ></div>
+                </div>
+              </div>
+            )}
+            {items.length > 0 && (
+              <button
+                onClick={handleClear}
+                className="w-full text-xs text-red-600 hover:text-red-700 py-1"
+              >
+                {t('history.clear')}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Overlay */}
+      {isOpen && (
+        <div
+          className="fixed inset-0 bg-black/20 backdrop-blur-sm z-30"
+          onClick={onToggle}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,25 @@
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { locales } from '../i18n';
+import { useI18n } from '../i18n/useI18n';
+
+// 界面语言切换，选项来自已注册的语言，选择会保存在本地
+export const LanguageSwitcher: React.FC = () => {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <label className="fixed top-20 right-6 z-30 flex items-center px-4 py-2 bg-white/90 backdrop-blur-sm border border-gray-200 rounded-xl shadow-lg hover:shadow-xl transition-all duration-200">
+      <Languages className="w-4 h-4 mr-2 text-gray-600" />
+      <select
+        value={locale}
+        onChange={(e) => setLocale(e.target.value)}
+        aria-label={t('language.label')}
+        className="text-sm font-medium text-gray-700 bg-transparent cursor-pointer focus:outline-none"
+      >
+        {locales.map((item) => (
+          <option key={item.code} value={item.code}>{item.name}</option>
+        ))}
+      </select>
+    </label>
+  );
+};
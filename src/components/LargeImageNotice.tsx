@@ -0,0 +1,103 @@
+import React from 'react';
+import { Maximize2, Zap, Gem, X } from 'lucide-react';
+import { ImageSize, LargeImageMode, estimateProcessing, largeImageModes } from '../utils/largeImage';
+import { formatBytes } from '../utils/format';
+import { formatNumber } from '../i18n';
+import { useI18n } from '../i18n/useI18n';
+
+interface LargeImageNoticeProps {
+  filename: string;
+  size: ImageSize;
+  device: 'cpu' | 'gpu';
+  defaultMode: LargeImageMode;
+  onChoose: (mode: LargeImageMode) => void;
+  onCancel: () => void;
+}
+
+const modeIcons: Record<LargeImageMode, React.ReactNode> = {
+  fast: <Zap className="w-5 h-5 text-purple-600" />,
+  full: <Gem className="w-5 h-5 text-purple-600" />,
+};
+
+export const LargeImageNotice: React.FC<LargeImageNoticeProps> = ({
+  filename,
+  size,
+  device,
+  defaultMode,
+  onChoose,
+  onCancel
+}) => {
+  const { t } = useI18n();
+  const megapixels = (size.width * size.height) / 1e6;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-8 mb-8 border border-gray-100">
+      <div className="flex items-start justify-between mb-6">
+        <div className="flex items-center">
+          <div className="w-12 h-12 bg-gradient-to-r from-purple-100 to-blue-100 rounded-full flex items-center justify-center mr-4">
+            <Maximize2 className="w-6 h-6 text-purple-600" />
+          </div>
+          <div>
+            <h3 className="text-xl font-semibold text-gray-900">{t('largeImage.title')}</h3>
+            <p className="text-sm text-gray-500">
+              {t('largeImage.summary', {
+                filename,
+                // 尺寸不加千位分隔符
+                width: String(size.width),
+                height: String(size.height),
+                megapixels: formatNumber(megapixels, { minimumFractionDigits: 1, maximumFractionDigits: 1 }),
+              })}
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={onCancel}
+          className="p-2 text-gray-600 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+          title={t('common.cancel')}
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {largeImageModes.map((mode) => {
+          const estimate = estimateProcessing(size, mode.value, device);
+          return (
+            <button
+              key={mode.value}
+              onClick={() => onChoose(mode.value)}
+              className={`p-4 rounded-xl border-2 text-left transition-all duration-200 hover:shadow-lg ${
+                mode.value === defaultMode
+                  ? 'border-purple-500 bg-purple-50'
+                  : 'border-gray-200 hover:border-gray-300'
+              }`}
+            >
+              <div className="flex items-center mb-2">
+                {modeIcons[mode.value]}
+                <span className="ml-2 font-semibold text-gray-900">{mode.label}</span>
+              </div>
+              <p className="text-xs text-gray-500 mb-3">{mode.desc}</p>
+              <dl className="grid grid-cols-3 gap-2 text-xs">
+                <div>
+                  <dt className="text-gray-500">{t('largeImage.workingSize')}</dt>
+                  <dd className="font-medium text-gray-900">{estimate.working.width}×{estimate.working.height}</dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500">{t('largeImage.memory')}</dt>
+                  <dd className="font-medium text-gray-900">{formatBytes(estimate.memory)}</dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500">{t('largeImage.duration')}</dt>
+                  <dd className="font-medium text-gray-900">{t('common.aboutSeconds', { seconds: Math.ceil(estimate.seconds) })}</dd>
+                </div>
+              </dl>
+            </button>
+          );
+        })}
+      </div>
+      <p className="text-xs text-gray-500 mt-4">
+        {t('largeImage.note')}
+      </p>
+    </div>
+  );
+};
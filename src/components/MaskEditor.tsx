@@ -0,0 +1,477 @@
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { Brush, Eraser, Hand, Undo2, Redo2, ZoomIn, ZoomOut, Maximize, Check, X, Loader2 } from 'lucide-react';
+import { formatPercent } from '../utils/format';
+import { t } from '../i18n';
+import { useI18n } from '../i18n/useI18n';
+
+type EditorTool = 'keep' | 'erase' | 'pan';
+
+interface MaskEditorProps {
+  imageUrl: string;
+  mask: Blob;
+  onApply: (mask: Blob) => Promise<void>;
+  onCancel: () => void;
+}
+
+interface ViewTransform {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+const VIEW_HEIGHT = 480;
+const MAX_HISTORY = 20;
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(t('common.errors.imageLoad')));
+    image.src = src;
+  });
+}
+
+// 将黑白蒙版图像转换为以透明度表示的蒙版画布，便于用合成模式绘制
+function createMaskCanvas(maskImage: HTMLImageElement): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = maskImage.naturalWidth;
+  canvas.height = maskImage.naturalHeight;
+  const context = canvas.getContext('2d')!;
+  context.drawImage(maskImage, 0, 0);
+  const imageData = context.getImageData(0, 0, canvas.width, canvas.height);
+  for (let i = 0; i < imageData.data.length; i += 4) {
+    imageData.data[i + 3] = imageData.data[i];
+    imageData.data[i] = 255;
+    imageData.data[i + 1] = 255;
+    imageData.data[i + 2] = 255;
+  }
+  context.putImageData(imageData, 0, 0);
+  return canvas;
+}
+
+// 将蒙版画布导出为黑白 PNG
+function exportMask(maskCanvas: HTMLCanvasElement): Promise<Blob> {
+  const imageData = maskCanvas.getContext('2d')!.getImageData(0, 0, maskCanvas.width, maskCanvas.height);
+  for (let i = 0; i < imageData.data.length; i += 4) {
+    const alpha = imageData.data[i + 3];
+    imageData.data[i] = alpha;
+    imageData.data[i + 1] = alpha;
+    imageData.data[i + 2] = alpha;
+    imageData.data[i + 3] = 255;
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = maskCanvas.width;
+  canvas.height = maskCanvas.height;
+  canvas.getContext('2d')!.putImageData(imageData, 0, 0);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error(t('maskEditor.errors.export')))), 'image/png');
+  });
+}
+
+export const MaskEditor: React.FC<MaskEditorProps> = ({
+  imageUrl,
+  mask,
+  onApply,
+  onCancel
+}) => {
+  // 切换语言时重新渲染
+  useI18n();
+  const [tool, setTool] = useState<EditorTool>('keep');
+  const [brushSize, setBrushSize] = useState(40);
+  const [hardness, setHardness] = useState(0.5);
+  const [view, setView] = useState<ViewTransform>({ scale: 1, x: 0, y: 0 });
+  const [isLoading, setIsLoading] = useState(true);
+  const [isApplying, setIsApplying] = useState(false);
+  const [historyState, setHistoryState] = useState({ canUndo: false, canRedo: false });
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const viewCanvasRef = useRef<HTMLCanvasElement>(null);
+  const imageRef = useRef<HTMLImageElement | null>(null);
+  const maskCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const undoStack = useRef<ImageData[]>([]);
+  const redoStack = useRef<ImageData[]>([]);
+  const pointerState = useRef<{ x: number; y: number; panning: boolean } | null>(null);
+  const spacePressed = useRef(false);
+
+  const fitToView = useCallback(() => {
+    const image = imageRef.current;
+    const container = containerRef.current;
+    if (!image || !container) return;
+
+    const scale = Math.min(container.clientWidth / image.naturalWidth, VIEW_HEIGHT / image.naturalHeight);
+    setView({
+      scale,
+      x: (container.clientWidth - image.naturalWidth * scale) / 2,
+      y: (VIEW_HEIGHT - image.naturalHeight * scale) / 2
+    });
+  }, []);
+
+  // 加载原图和蒙版
+  useEffect(() => {
+    let cancelled = false;
+    const maskUrl = URL.createObjectURL(mask);
+
+    Promise.all([loadImage(imageUrl), loadImage(maskUrl)])
+      .then(([image, maskImage]) => {
+        if (cancelled) return;
+        imageRef.current = image;
+        maskCanvasRef.current = createMaskCanvas(maskImage);
+        undoStack.current = [];
+        redoStack.current = [];
+        setHistoryState({ canUndo: false, canRedo: false });
+        setIsLoading(false);
+        fitToView();
+      })
+      .catch((err) => console.error('蒙版编辑器加载失败:', err))
+      .finally(() => URL.revokeObjectURL(maskUrl));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [imageUrl, mask, fitToView]);
+
+  // 绘制预览：半透明显示被移除的区域，前景完整显示
+  const render = useCallback(() => {
+    const canvas = viewCanvasRef.current;
+    const container = containerRef.current;
+    const image = imageRef.current;
+    const maskCanvas = maskCanvasRef.current;
+    if (!canvas || !container || !image || !maskCanvas) return;
+
+    canvas.width = container.clientWidth;
+    canvas.height = VIEW_HEIGHT;
+    const context = canvas.getContext('2d')!;
+    context.clearRect(0, 0, canvas.width, canvas.height);
+    context.imageSmoothingEnabled = view.scale < 2;
+    context.setTransform(view.scale, 0, 0, view.scale, view.x, view.y);
+
+    context.globalAlpha = 0.25;
+    context.drawImage(image, 0, 0);
+    context.globalAlpha = 1;
+
+    const foreground = document.createElement('canvas');
+    foreground.width = image.naturalWidth;
+    foreground.height = image.naturalHeight;
+    const foregroundContext = foreground.getContext('2d')!;
+    foregroundContext.drawImage(maskCanvas, 0, 0);
+    foregroundContext.globalCompositeOperation = 'source-in';
+    foregroundContext.drawImage(image, 0, 0);
+    context.drawImage(foreground, 0, 0);
+  }, [view]);
+
+  useEffect(() => {
+    if (!isLoading) {
+      render();
+    }
+  }, [isLoading, render]);
+
+  const updateHistoryState = () => {
+    setHistoryState({
+      canUndo: undoStack.current.length > 0,
+      canRedo: redoStack.current.length > 0
+    });
+  };
+
+  const snapshotMask = (): ImageData | null => {
+    const maskCanvas = maskCanvasRef.current;
+    return maskCanvas?.getContext('2d')!.getImageData(0, 0, maskCanvas.width, maskCanvas.height) ?? null;
+  };
+
+  const undo = useCallback(() => {
+    const previous = undoStack.current.pop();
+    const current = snapshotMask();
+    if (!previous || !current) return;
+
+    redoStack.current.push(current);
+    maskCanvasRef.current!.getContext('2d')!.putImageData(previous, 0, 0);
+    updateHistoryState();
+    render();
+  }, [render]);
+
+  const redo = useCallback(() => {
+    const next = redoStack.current.pop();
+    const current = snapshotMask();
+    if (!next || !current) return;
+
+    undoStack.current.push(current);
+    maskCanvasRef.current!.getContext('2d')!.putImageData(next, 0, 0);
+    updateHistoryState();
+    render();
+  }, [render]);
+
+  // 快捷键：Ctrl+Z 撤销，Ctrl+Shift+Z / Ctrl+Y 重做，按住空格平移
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code === 'Space') {
+        spacePressed.current = true;
+      } else if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) {
+          redo();
+        } else {
+          undo();
+        }
+      } else if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code === 'Space') {
+        spacePressed.current = false;
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+    };
+  }, [undo, redo]);
+
+  const toImageCoordinates = (e: React.PointerEvent) => {
+    const rect = viewCanvasRef.current!.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left - view.x) / view.scale,
+      y: (e.clientY - rect.top - view.y) / view.scale
+    };
+  };
+
+  // 以柔边圆形笔刷在蒙版上绘制一点
+  const paintDab = (x: number, y: number) => {
+    const context = maskCanvasRef.current!.getContext('2d')!;
+    const radius = brushSize / 2;
+    const gradient = context.createRadialGradient(x, y, radius * hardness, x, y, radius);
+    gradient.addColorStop(0, 'rgba(255, 255, 255, 1)');
+    gradient.addColorStop(1, 'rgba(255, 255, 255, 0)');
+
+    context.globalCompositeOperation = tool === 'erase' ? 'destination-out' : 'source-over';
+    context.fillStyle = gradient;
+    context.beginPath();
+    context.arc(x, y, radius, 0, Math.PI * 2);
+    context.fill();
+    context.globalCompositeOperation = 'source-over';
+  };
+
+  // 按笔刷间距插值，保证快速拖动时笔画连续
+  const paintStroke = (from: { x: number; y: number }, to: { x: number; y: number }) => {
+    const distance = Math.hypot(to.x - from.x, to.y - from.y);
+    const spacing = Math.max(1, brushSize / 8);
+    const steps = Math.max(1, Math.ceil(distance / spacing));
+    for (let i = 1; i <= steps; i++) {
+      paintDab(from.x + ((to.x - from.x) * i) / steps, from.y + ((to.y - from.y) * i) / steps);
+    }
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (isLoading) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+
+    const panning = tool === 'pan' || spacePressed.current || e.button === 1;
+    if (panning) {
+      pointerState.current = { x: e.clientX, y: e.clientY, panning };
+      return;
+    }
+
+    const snapshot = snapshotMask();
+    if (snapshot) {
+      undoStack.current.push(snapshot);
+      if (undoStack.current.length > MAX_HISTORY) {
+        undoStack.current.shift();
+      }
+      redoStack.current = [];
+      updateHistoryState();
+    }
+
+    const point = toImageCoordinates(e);
+    paintDab(point.x, point.y);
+    pointerState.current = { ...point, panning };
+    render();
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const state = pointerState.current;
+    if (!state) return;
+
+    if (state.panning) {
+      const dx = e.clientX - state.x;
+      const dy = e.clientY - state.y;
+      pointerState.current = { x: e.clientX, y: e.clientY, panning: true };
+      setView((current) => ({ ...current, x: current.x + dx, y: current.y + dy }));
+      return;
+    }
+
+    const point = toImageCoordinates(e);
+    paintStroke(state, point);
+    pointerState.current = { ...point, panning: false };
+    render();
+  };
+
+  const handlePointerUp = () => {
+    pointerState.current = null;
+  };
+
+  // 以指定点为中心缩放
+  const zoomAt = (factor: number, centerX: number, centerY: number) => {
+    setView((current) => {
+      const scale = Math.min(32, Math.max(0.05, current.scale * factor));
+      const ratio = scale / current.scale;
+      return {
+        scale,
+        x: centerX - (centerX - current.x) * ratio,
+        y: centerY - (centerY - current.y) * ratio
+      };
+    });
+  };
+
+  // 滚轮缩放需要阻止页面滚动，React 的 wheel 事件为被动监听，因此手动绑定
+  useEffect(() => {
+    const canvas = viewCanvasRef.current;
+    if (!canvas) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = canvas.getBoundingClientRect();
+      zoomAt(e.deltaY < 0 ? 1.15 : 1 / 1.15, e.clientX - rect.left, e.clientY - rect.top);
+    };
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const zoomFromCenter = (factor: number) => {
+    const container = containerRef.current;
+    if (container) {
+      zoomAt(factor, container.clientWidth / 2, VIEW_HEIGHT / 2);
+    }
+  };
+
+  const handleApply = async () => {
+    const maskCanvas = maskCanvasRef.current;
+    if (!maskCanvas) return;
+
+    setIsApplying(true);
+    try {
+      await onApply(await exportMask(maskCanvas));
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const tools: { value: EditorTool; label: string; icon: React.ReactNode }[] = [
+    { value: 'keep', label: t('maskEditor.tools.keep'), icon: <Brush className="w-4 h-4 mr-1" /> },
+    { value: 'erase', label: t('maskEditor.tools.erase'), icon: <Eraser className="w-4 h-4 mr-1" /> },
+    { value: 'pan', label: t('maskEditor.tools.pan'), icon: <Hand className="w-4 h-4 mr-1" /> }
+  ];
+
+  return (
+    <div>
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-4 mb-4">
+        <div className="flex space-x-2">
+          {tools.map((item) => (
+            <button
+              key={item.value}
+              onClick={() => setTool(item.value)}
+              className={`flex items-center px-3 py-2 rounded-lg border-2 text-sm font-medium transition-all duration-200 ${
+                tool === item.value
+                  ? 'border-purple-500 bg-purple-50 text-purple-700'
+                  : 'border-gray-200 hover:border-gray-300'
+              }`}
+            >
+              {item.icon}
+              {item.label}
+            </button>
+          ))}
+        </div>
+
+        <label className="flex items-center text-xs text-gray-600">
+          {t('maskEditor.brushSize')}: {brushSize}px
+          <input
+            type="range"
+            min="2"
+            max="200"
+            value={brushSize}
+            onChange={(e) => setBrushSize(parseInt(e.target.value))}
+            className="ml-2 w-28 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+          />
+        </label>
+
+        <label className="flex items-center text-xs text-gray-600">
+          {t('maskEditor.hardness')}: {formatPercent(hardness)}
+          <input
+            type="range"
+            min="0"
+            max="1"
+            step="0.05"
+            value={hardness}
+            onChange={(e) => setHardness(parseFloat(e.target.value))}
+            className="ml-2 w-28 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+          />
+        </label>
+
+        <div className="flex space-x-1">
+          <button onClick={undo} disabled={!historyState.canUndo} className="p-2 rounded-lg hover:bg-gray-100 disabled:opacity-40" title={t('maskEditor.undo')}>
+            <Undo2 className="w-4 h-4" />
+          </button>
+          <button onClick={redo} disabled={!historyState.canRedo} className="p-2 rounded-lg hover:bg-gray-100 disabled:opacity-40" title={t('maskEditor.redo')}>
+            <Redo2 className="w-4 h-4" />
+          </button>
+          <button onClick={() => zoomFromCenter(1.25)} className="p-2 rounded-lg hover:bg-gray-100" title={t('viewer.zoomIn')}>
+            <ZoomIn className="w-4 h-4" />
+          </button>
+          <button onClick={() => zoomFromCenter(0.8)} className="p-2 rounded-lg hover:bg-gray-100" title={t('viewer.zoomOut')}>
+            <ZoomOut className="w-4 h-4" />
+          </button>
+          <button onClick={fitToView} className="p-2 rounded-lg hover:bg-gray-100" title={t('viewer.fit')}>
+            <Maximize className="w-4 h-4" />
+          </button>
+          <span className="self-center text-xs text-gray-500 ml-1">{formatPercent(view.scale)}</span>
+        </div>
+      </div>
+
+      {/* Canvas */}
+      <div
+        ref={containerRef}
+        className="relative border-2 border-gray-200 rounded-xl overflow-hidden shadow-inner bg-gray-100"
+        style={{ height: VIEW_HEIGHT }}
+      >
+        <canvas
+          ref={viewCanvasRef}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          className={`block touch-none ${tool === 'pan' ? 'cursor-grab' : 'cursor-crosshair'}`}
+        />
+        {isLoading && (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <Loader2 className="w-8 h-8 text-purple-600 animate-spin" />
+          </div>
+        )}
+      </div>
+      <p className="text-xs text-gray-500 mt-2">
+        {t('maskEditor.hint')}
+      </p>
+
+      {/* Actions */}
+      <div className="flex justify-end space-x-3 mt-4">
+        <button
+          onClick={onCancel}
+          className="flex items-center px-6 py-3 bg-white text-gray-700 border border-gray-300 rounded-xl hover:bg-gray-50 transition-all duration-200"
+        >
+          <X className="w-4 h-4 mr-2" />
+          {t('maskEditor.discard')}
+        </button>
+        <button
+          onClick={handleApply}
+          disabled={isLoading || isApplying}
+          className="flex items-center px-6 py-3 bg-gradient-to-r from-purple-600 to-blue-600 text-white rounded-xl hover:from-purple-700 hover:to-blue-700 transition-all duration-200 shadow-lg disabled:opacity-60"
+        >
+          {isApplying ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Check className="w-4 h-4 mr-2" />}
+          {t('maskEditor.apply')}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,108 @@
+import React from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import { MaskRefinement, defaultMaskRefinement, isRefinementActive } from '../utils/maskProcessing';
+import { formatPercent } from '../utils/format';
+import { formatNumber, t } from '../i18n';
+import { useI18n } from '../i18n/useI18n';
+
+interface MaskRefinementSettingsProps {
+  refinement: MaskRefinement;
+  onChange: (refinement: MaskRefinement) => void;
+}
+
+interface SliderOption {
+  key: keyof MaskRefinement;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+}
+
+// 名称和说明按 key 取自消息目录
+const sliders: SliderOption[] = [
+  {
+    key: 'threshold',
+    min: 0,
+    max: 254,
+    step: 1,
+    format: (value) => (value === 0 ? t('common.off') : `${value}`)
+  },
+  {
+    key: 'featherRadius',
+    min: 0,
+    max: 20,
+    step: 0.5,
+    format: (value) => (value === 0 ? t('common.off') : `${formatNumber(value)}px`)
+  },
+  {
+    key: 'edgeShift',
+    min: -20,
+    max: 20,
+    step: 1,
+    format: (value) => (value === 0 ? t('refinement.unchanged') : `${value > 0 ? '+' : ''}${value}px`)
+  },
+  {
+    key: 'minIslandSize',
+    min: 0,
+    max: 5,
+    step: 0.1,
+    format: (value) => (value === 0 ? t('common.off') : `< ${formatPercent(value / 100, 1)}`)
+  },
+  {
+    key: 'despill',
+    min: 0,
+    max: 1,
+    step: 0.05,
+    format: (value) => (value === 0 ? t('common.off') : formatPercent(value))
+  }
+];
+
+export const MaskRefinementSettings: React.FC<MaskRefinementSettingsProps> = ({
+  refinement,
+  onChange
+}) => {
+  // 切换语言时重新渲染
+  useI18n();
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <label className="flex items-center text-sm font-semibold text-gray-700">
+          <SlidersHorizontal className="w-4 h-4 mr-2" />
+          {t('refinement.title')}
+        </label>
+        {isRefinementActive(refinement) && (
+          <button
+            onClick={() => onChange(defaultMaskRefinement)}
+            className="text-xs text-purple-600 hover:text-purple-700"
+          >
+            {t('common.resetAll')}
+          </button>
+        )}
+      </div>
+      <div className="space-y-4">
+        {sliders.map((slider) => (
+          <div key={slider.key}>
+            <div className="flex justify-between text-xs text-gray-600">
+              <span>{t(`refinement.${slider.key}.label`)}</span>
+              <span>{slider.format(refinement[slider.key])}</span>
+            </div>
+            <input
+              type="range"
+              min={slider.min}
+              max={slider.max}
+              step={slider.step}
+              value={refinement[slider.key]}
+              onChange={(e) => onChange({ ...refinement, [slider.key]: parseFloat(e.target.value) })}
+              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+            />
+            <p className="text-xs text-gray-400 mt-1">{t(`refinement.${slider.key}.desc`)}</p>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500 mt-3">
+        {t('refinement.hint')}
+      </p>
+    </div>
+  );
+};
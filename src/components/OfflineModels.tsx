@@ -0,0 +1,187 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { HardDrive, Download, Trash2, Loader2, CheckCircle, RotateCcw } from 'lucide-react';
+import { ProcessingConfig, modelOptions } from '../utils/backgroundRemoval';
+import {
+  DEFAULT_PUBLIC_PATH,
+  ModelCacheStatus,
+  downloadModel,
+  evictModel,
+  getModelCacheStatus,
+  isModelCacheSupported,
+  normalizePublicPath
+} from '../utils/modelAssets';
+import { formatBytes, formatPercent } from '../utils/format';
+import { useI18n } from '../i18n/useI18n';
+
+interface OfflineModelsProps {
+  config: ProcessingConfig;
+  modelLoaded: boolean;
+  onPublicPathChange: (publicPath: string) => void;
+}
+
+export const OfflineModels: React.FC<OfflineModelsProps> = ({
+  config,
+  modelLoaded,
+  onPublicPathChange
+}) => {
+  const { t } = useI18n();
+  const { publicPath, device, model: currentModel } = config;
+  const [draftPath, setDraftPath] = useState(publicPath);
+  const [statuses, setStatuses] = useState<ModelCacheStatus[]>([]);
+  const [busyModel, setBusyModel] = useState<ProcessingConfig['model'] | null>(null);
+  const [downloadProgress, setDownloadProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const supported = isModelCacheSupported();
+
+  useEffect(() => {
+    setDraftPath(publicPath);
+  }, [publicPath]);
+
+  const refreshStatus = useCallback(async () => {
+    if (!supported) return;
+    try {
+      setStatuses(await getModelCacheStatus(publicPath, modelOptions.map((option) => option.value), device));
+      setError(null);
+    } catch (err) {
+      setStatuses([]);
+      setError(err instanceof Error ? err.message : t('offline.errors.readCache'));
+    }
+  }, [publicPath, device, supported, t]);
+
+  useEffect(() => {
+    refreshStatus();
+  }, [refreshStatus]);
+
+  // 当前模型加载成功后自动缓存，下次打开无需网络
+  useEffect(() => {
+    if (!supported || !modelLoaded) return;
+    downloadModel(publicPath, currentModel, device)
+      .then(refreshStatus)
+      .catch((err) => console.warn('缓存当前模型失败:', err));
+  }, [supported, modelLoaded, publicPath, currentModel, device, refreshStatus]);
+
+  const handleDownload = async (model: ProcessingConfig['model']) => {
+    setBusyModel(model);
+    setDownloadProgress(0);
+    try {
+      await downloadModel(publicPath, model, device, setDownloadProgress);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('offline.errors.download'));
+    } finally {
+      setBusyModel(null);
+      refreshStatus();
+    }
+  };
+
+  const handleEvict = async (model: ProcessingConfig['model']) => {
+    setBusyModel(model);
+    try {
+      await evictModel(publicPath, model);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('offline.errors.evict'));
+    } finally {
+      setBusyModel(null);
+      refreshStatus();
+    }
+  };
+
+  const applyPath = (value: string) => {
+    const normalized = normalizePublicPath(value);
+    setDraftPath(normalized);
+    if (normalized !== publicPath) {
+      onPublicPathChange(normalized);
+    }
+  };
+
+  return (
+    <div>
+      <label className="flex items-center text-sm font-semibold text-gray-700 mb-3">
+        <HardDrive className="w-4 h-4 mr-2" />
+        {t('offline.title')}
+      </label>
+
+      {/* Public Path */}
+      <div className="flex items-center space-x-2 mb-1">
+        <input
+          type="text"
+          value={draftPath}
+          onChange={(e) => setDraftPath(e.target.value)}
+          onBlur={() => applyPath(draftPath)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') applyPath(draftPath);
+          }}
+          placeholder={DEFAULT_PUBLIC_PATH}
+          className="flex-1 min-w-0 px-2 py-1.5 text-xs border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+        />
+        <button
+          onClick={() => applyPath(DEFAULT_PUBLIC_PATH)}
+          disabled={publicPath === DEFAULT_PUBLIC_PATH}
+          title={t('offline.resetPath')}
+          className="p-1.5 text-gray-500 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <RotateCcw className="w-4 h-4" />
+        </button>
+      </div>
+      <p className="text-xs text-gray-500 mb-3">
+        {t('offline.pathHint')}
+      </p>
+
+      {/* Offline Models */}
+      {!supported ? (
+        <p className="text-xs text-gray-500">{t('offline.unsupported')}</p>
+      ) : (
+        <div className="space-y-2">
+          {modelOptions.map((option) => {
+            const status = statuses.find((item) => item.model === option.value);
+            const isBusy = busyModel === option.value;
+            return (
+              <div key={option.value} className="flex items-center justify-between p-2 rounded-lg border border-gray-200">
+                <div className="min-w-0">
+                  <div className="text-xs font-medium text-gray-700">{option.label}</div>
+                  <div className="text-xs text-gray-500">
+                    {!status
+                      ? '—'
+                      : status.available
+                        ? <span className="inline-flex items-center text-green-600"><CheckCircle className="w-3 h-3 mr-1" />{t('offline.available', { size: formatBytes(status.totalBytes) })}</span>
+                        : status.cachedBytes > 0
+                          ? t('offline.partial', { cached: formatBytes(status.cachedBytes), total: formatBytes(status.totalBytes) })
+                          : t('offline.notDownloaded', { size: formatBytes(status.totalBytes) })}
+                  </div>
+                </div>
+                {isBusy ? (
+                  <span className="flex items-center text-xs text-purple-600">
+                    <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                    {status?.available ? '' : formatPercent(downloadProgress)}
+                  </span>
+                ) : status?.available ? (
+                  <button
+                    onClick={() => handleEvict(option.value)}
+                    disabled={busyModel !== null}
+                    title={t('offline.evict')}
+                    className="p-1.5 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-40"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => handleDownload(option.value)}
+                    disabled={busyModel !== null || !status}
+                    title={t('offline.download')}
+                    className="p-1.5 text-purple-600 hover:bg-purple-50 rounded-lg transition-colors disabled:opacity-40"
+                  >
+                    <Download className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            );
+          })}
+          {error && <p className="text-xs text-red-600">{error}</p>}
+          <p className="text-xs text-gray-500">
+            {t('offline.hint')}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
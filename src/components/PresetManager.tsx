@@ -0,0 +1,257 @@
+import React, { useState, useRef } from 'react';
+import { Bookmark, Save, Plus, Pencil, Trash2, Upload, Download, Check, X, Link } from 'lucide-react';
+import { ProcessingConfig } from '../utils/backgroundRemoval';
+import {
+  ConfigPreset,
+  PresetValidationError,
+  applyPresetConfig,
+  createPreset,
+  exportPresets,
+  getActivePresetId,
+  loadPresets,
+  mergePresets,
+  parsePresetFile,
+  savePresets,
+  setActivePresetId,
+  toPresetConfig
+} from '../utils/presets';
+import { downloadBlob } from '../utils/download';
+import { createShareUrl } from '../utils/shareLink';
+import { useI18n } from '../i18n/useI18n';
+
+interface PresetManagerProps {
+  config: ProcessingConfig;
+  onApply: (config: ProcessingConfig) => void;
+}
+
+type EditMode = { type: 'create' } | { type: 'rename'; id: string };
+
+export const PresetManager: React.FC<PresetManagerProps> = ({
+  config,
+  onApply
+}) => {
+  const { t } = useI18n();
+  const [presets, setPresets] = useState<ConfigPreset[]>(loadPresets);
+  const [activeId, setActiveId] = useState<string | null>(getActivePresetId);
+  const [editMode, setEditMode] = useState<EditMode | null>(null);
+  const [name, setName] = useState('');
+  const [issues, setIssues] = useState<string[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const activePreset = presets.find((preset) => preset.id === activeId) ?? null;
+  const isModified = activePreset !== null &&
+    JSON.stringify(activePreset.config) !== JSON.stringify(toPresetConfig(config));
+
+  const updatePresets = (next: ConfigPreset[]) => {
+    setPresets(next);
+    savePresets(next);
+  };
+
+  const selectPreset = (id: string | null) => {
+    setActiveId(id);
+    setActivePresetId(id);
+  };
+
+  const handleSelect = (id: string) => {
+    const preset = presets.find((item) => item.id === id);
+    selectPreset(preset ? preset.id : null);
+    if (preset) {
+      onApply(applyPresetConfig(preset.config, config));
+    }
+  };
+
+  const startEdit = (mode: EditMode) => {
+    setEditMode(mode);
+    setName(mode.type === 'rename' ? activePreset?.name ?? '' : '');
+    setIssues([]);
+  };
+
+  const handleSubmitName = () => {
+    const trimmed = name.trim();
+    if (!trimmed || !editMode) return;
+
+    const duplicate = presets.find((preset) => preset.name === trimmed);
+    if (duplicate && (editMode.type === 'create' || duplicate.id !== editMode.id)) {
+      setIssues([t('presets.duplicate', { name: trimmed })]);
+      return;
+    }
+
+    if (editMode.type === 'create') {
+      const preset = createPreset(trimmed, config);
+      updatePresets([...presets, preset]);
+      selectPreset(preset.id);
+    } else {
+      updatePresets(presets.map((preset) => (
+        preset.id === editMode.id ? { ...preset, name: trimmed, updatedAt: Date.now() } : preset
+      )));
+    }
+    setEditMode(null);
+    setIssues([]);
+  };
+
+  // 用当前设置覆盖选中的预设
+  const handleUpdate = () => {
+    if (!activePreset) return;
+    updatePresets(presets.map((preset) => (
+      preset.id === activePreset.id
+        ? { ...preset, config: toPresetConfig(config), updatedAt: Date.now() }
+        : preset
+    )));
+  };
+
+  const handleDelete = () => {
+    if (!activePreset) return;
+    if (!window.confirm(t('presets.confirmDelete', { name: activePreset.name }))) return;
+
+    updatePresets(presets.filter((preset) => preset.id !== activePreset.id));
+    selectPreset(null);
+  };
+
+  const handleExport = () => {
+    downloadBlob(exportPresets(presets), 'background-removal-presets.json');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = parsePresetFile(await file.text());
+      updatePresets(mergePresets(presets, imported));
+      setIssues([]);
+      setMessage(t('presets.imported', { count: imported.length }));
+    } catch (err) {
+      setMessage(null);
+      setIssues(err instanceof PresetValidationError ? err.issues : [t('presets.readFailed')]);
+    }
+  };
+
+  // 复制包含当前完整设置的链接，对方打开后自动使用相同设置
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(createShareUrl(config, window.location.href));
+      setIssues([]);
+      setMessage(t('presets.linkCopied'));
+    } catch {
+      setMessage(null);
+      setIssues([t('presets.linkCopyFailed')]);
+    }
+  };
+
+  const iconButton = 'p-2 text-gray-600 hover:text-purple-600 hover:bg-purple-50 rounded-lg transition-colors disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-gray-600';
+
+  return (
+    <div>
+      <label className="flex items-center text-sm font-semibold text-gray-700 mb-3">
+        <Bookmark className="w-4 h-4 mr-2" />
+        {t('presets.title')}
+      </label>
+
+      {editMode ? (
+        <div className="flex items-center gap-1">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleSubmitName();
+              if (e.key === 'Escape') setEditMode(null);
+            }}
+            placeholder={t('presets.namePlaceholder')}
+            autoFocus
+            className="flex-1 min-w-0 px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:border-purple-400"
+          />
+          <button onClick={handleSubmitName} disabled={!name.trim()} className={iconButton} title={t('presets.confirm')}>
+            <Check className="w-4 h-4" />
+          </button>
+          <button onClick={() => setEditMode(null)} className={iconButton} title={t('common.cancel')}>
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ) : (
+        <div className="flex items-center gap-1">
+          <select
+            value={activePreset?.id ?? ''}
+            onChange={(e) => handleSelect(e.target.value)}
+            className="flex-1 min-w-0 px-3 py-2 border border-gray-200 rounded-lg text-sm bg-white focus:outline-none focus:border-purple-400"
+          >
+            <option value="">{t('presets.none')}</option>
+            {presets.map((preset) => (
+              <option key={preset.id} value={preset.id}>{preset.name}</option>
+            ))}
+          </select>
+          <button onClick={() => startEdit({ type: 'create' })} className={iconButton} title={t('presets.saveAs')}>
+            <Plus className="w-4 h-4" />
+          </button>
+          <button onClick={handleUpdate} disabled={!isModified} className={iconButton} title={t('presets.save')}>
+            <Save className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => activePreset && startEdit({ type: 'rename', id: activePreset.id })}
+            disabled={!activePreset}
+            className={iconButton}
+            title={t('presets.rename')}
+          >
+            <Pencil className="w-4 h-4" />
+          </button>
+          <button onClick={handleDelete} disabled={!activePreset} className={iconButton} title={t('presets.delete')}>
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {isModified && !editMode && (
+        <p className="text-xs text-amber-600 mt-2">{t('presets.modified')}</p>
+      )}
+
+      {/* Import / Export */}
+      <div className="grid grid-cols-2 gap-2 mt-3">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center justify-center p-2 rounded-lg border-2 border-gray-200 hover:border-gray-300 text-xs font-medium transition-all duration-200"
+        >
+          <Upload className="w-3 h-3 mr-1" />
+          {t('presets.import')}
+        </button>
+        <button
+          onClick={handleExport}
+          disabled={presets.length === 0}
+          className="flex items-center justify-center p-2 rounded-lg border-2 border-gray-200 hover:border-gray-300 text-xs font-medium transition-all duration-200 disabled:opacity-40"
+        >
+          <Download className="w-3 h-3 mr-1" />
+          {t('presets.export')}
+        </button>
+        <button
+          onClick={handleCopyLink}
+          className="col-span-2 flex items-center justify-center p-2 rounded-lg border-2 border-gray-200 hover:border-gray-300 text-xs font-medium transition-all duration-200"
+        >
+          <Link className="w-3 h-3 mr-1" />
+          {t('presets.copyLink')}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleImport}
+          className="hidden"
+        />
+      </div>
+
+      {message && issues.length === 0 && (
+        <p className="text-xs text-green-600 mt-2">{message}</p>
+      )}
+      {issues.length > 0 && (
+        <ul className="text-xs text-red-600 mt-2 space-y-1 max-h-32 overflow-y-auto">
+          {issues.map((issue) => (
+            <li key={issue} className="break-all">{issue}</li>
+          ))}
+        </ul>
+      )}
+      <p className="text-xs text-gray-500 mt-2">
+        {t('presets.hint')}
+      </p>
+    </div>
+  );
+};
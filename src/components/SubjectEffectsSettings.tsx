@@ -0,0 +1,189 @@
+import React from 'react';
+import { Wand2 } from 'lucide-react';
+import {
+  DropShadow,
+  FloorShadow,
+  SubjectEffects,
+  SubjectOutline,
+  defaultSubjectEffects,
+  isEffectsActive,
+  outlinePositions
+} from '../utils/subjectEffects';
+import { formatPercent } from '../utils/format';
+import { useI18n } from '../i18n/useI18n';
+
+interface SubjectEffectsSettingsProps {
+  effects: SubjectEffects;
+  onChange: (effects: SubjectEffects) => void;
+  // 仅前景输出支持主体效果
+  disabled: boolean;
+}
+
+const Toggle: React.FC<{ checked: boolean; onChange: (checked: boolean) => void }> = ({ checked, onChange }) => (
+  <button
+    onClick={() => onChange(!checked)}
+    className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+      checked ? 'bg-purple-600' : 'bg-gray-200'
+    }`}
+  >
+    <span
+      className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+        checked ? 'translate-x-6' : 'translate-x-1'
+      }`}
+    />
+  </button>
+);
+
+interface SliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+  onChange: (value: number) => void;
+}
+
+const Slider: React.FC<SliderProps> = ({ label, value, min, max, step, format, onChange }) => (
+  <div>
+    <div className="flex justify-between text-xs text-gray-600">
+      <span>{label}</span>
+      <span>{format(value)}</span>
+    </div>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+    />
+  </div>
+);
+
+const ColorRow: React.FC<{ label: string; value: string; onChange: (color: string) => void }> = ({ label, value, onChange }) => (
+  <div className="flex items-center justify-between">
+    <span className="text-xs text-gray-600">{label}</span>
+    <input
+      type="color"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="w-10 h-8 rounded cursor-pointer"
+    />
+  </div>
+);
+
+const formatPixels = (value: number) => `${value}px`;
+
+export const SubjectEffectsSettings: React.FC<SubjectEffectsSettingsProps> = ({
+  effects,
+  onChange,
+  disabled
+}) => {
+  const { t } = useI18n();
+  const { shadow, floorShadow, outline } = effects;
+
+  const updateShadow = (updates: Partial<DropShadow>) => {
+    onChange({ ...effects, shadow: { ...shadow, ...updates } });
+  };
+
+  const updateFloorShadow = (updates: Partial<FloorShadow>) => {
+    onChange({ ...effects, floorShadow: { ...floorShadow, ...updates } });
+  };
+
+  const updateOutline = (updates: Partial<SubjectOutline>) => {
+    onChange({ ...effects, outline: { ...outline, ...updates } });
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <label className="flex items-center text-sm font-semibold text-gray-700">
+          <Wand2 className="w-4 h-4 mr-2" />
+          {t('effects.title')}
+        </label>
+        {!disabled && isEffectsActive(effects) && (
+          <button
+            onClick={() => onChange(defaultSubjectEffects)}
+            className="text-xs text-purple-600 hover:text-purple-700"
+          >
+            {t('common.resetAll')}
+          </button>
+        )}
+      </div>
+
+      {disabled ? (
+        <p className="text-xs text-gray-500">{t('common.foregroundOnly')}</p>
+      ) : (
+        <div className="space-y-4">
+          {/* Drop Shadow */}
+          <div className="space-y-3">
+            <label className="flex items-center justify-between">
+              <span className="text-xs font-medium text-gray-700">{t('effects.shadow.title')}</span>
+              <Toggle checked={shadow.enabled} onChange={(enabled) => updateShadow({ enabled })} />
+            </label>
+            {shadow.enabled && (
+              <>
+                <Slider label={t('effects.offsetX')} value={shadow.offsetX} min={-100} max={100} step={1} format={formatPixels} onChange={(offsetX) => updateShadow({ offsetX })} />
+                <Slider label={t('effects.offsetY')} value={shadow.offsetY} min={-100} max={100} step={1} format={formatPixels} onChange={(offsetY) => updateShadow({ offsetY })} />
+                <Slider label={t('effects.blur')} value={shadow.blur} min={0} max={50} step={1} format={formatPixels} onChange={(blur) => updateShadow({ blur })} />
+                <Slider label={t('effects.opacity')} value={shadow.opacity} min={0} max={1} step={0.05} format={formatPercent} onChange={(opacity) => updateShadow({ opacity })} />
+                <ColorRow label={t('effects.shadowColor')} value={shadow.color} onChange={(color) => updateShadow({ color })} />
+              </>
+            )}
+          </div>
+
+          {/* Floor Shadow */}
+          <div className="space-y-3">
+            <label className="flex items-center justify-between">
+              <span className="text-xs font-medium text-gray-700">{t('effects.floorShadow.title')}</span>
+              <Toggle checked={floorShadow.enabled} onChange={(enabled) => updateFloorShadow({ enabled })} />
+            </label>
+            {floorShadow.enabled && (
+              <>
+                <Slider label={t('effects.width')} value={floorShadow.width} min={20} max={200} step={5} format={(value) => formatPercent(value / 100)} onChange={(width) => updateFloorShadow({ width })} />
+                <Slider label={t('effects.height')} value={floorShadow.height} min={5} max={50} step={1} format={(value) => formatPercent(value / 100)} onChange={(height) => updateFloorShadow({ height })} />
+                <Slider label={t('effects.blur')} value={floorShadow.blur} min={0} max={50} step={1} format={formatPixels} onChange={(blur) => updateFloorShadow({ blur })} />
+                <Slider label={t('effects.opacity')} value={floorShadow.opacity} min={0} max={1} step={0.05} format={formatPercent} onChange={(opacity) => updateFloorShadow({ opacity })} />
+                <ColorRow label={t('effects.shadowColor')} value={floorShadow.color} onChange={(color) => updateFloorShadow({ color })} />
+              </>
+            )}
+          </div>
+
+          {/* Outline */}
+          <div className="space-y-3">
+            <label className="flex items-center justify-between">
+              <span className="text-xs font-medium text-gray-700">{t('effects.outline.title')}</span>
+              <Toggle checked={outline.enabled} onChange={(enabled) => updateOutline({ enabled })} />
+            </label>
+            {outline.enabled && (
+              <>
+                <div className="grid grid-cols-3 gap-1">
+                  {outlinePositions.map((position) => (
+                    <button
+                      key={position.value}
+                      onClick={() => updateOutline({ position: position.value })}
+                      className={`p-2 rounded-lg border-2 text-xs font-medium transition-all duration-200 ${
+                        outline.position === position.value
+                          ? 'border-purple-500 bg-purple-50 text-purple-700'
+                          : 'border-gray-200 hover:border-gray-300'
+                      }`}
+                    >
+                      {position.label}
+                    </button>
+                  ))}
+                </div>
+                <Slider label={t('effects.width')} value={outline.width} min={1} max={50} step={1} format={formatPixels} onChange={(width) => updateOutline({ width })} />
+                <ColorRow label={t('effects.outlineColor')} value={outline.color} onChange={(color) => updateOutline({ color })} />
+              </>
+            )}
+          </div>
+        </div>
+      )}
+      <p className="text-xs text-gray-500 mt-3">
+        {t('effects.hint')}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,451 @@
+import React, { useState, useRef, useEffect, useMemo, useCallback } from 'react';
+import { PlusCircle, MinusCircle, BoxSelect, Undo2, Trash2, ScanSearch, RotateCcw, Layers, Check, X, Loader2, AlertCircle } from 'lucide-react';
+import { ProcessingConfig, segmentImage } from '../utils/backgroundRemoval';
+import { MaskData, decodeImage, encodeImageData, extractMaskFromGrayscale, maskToImageData } from '../utils/imageUtils';
+import { Rect, cropImageData } from '../utils/cropping';
+import { SelectionPrompt, SubjectLabels, applySelection, labelSubjects, placeRegionMask, resolveSelection } from '../utils/subjectSelection';
+import { t } from '../i18n';
+import { useI18n } from '../i18n/useI18n';
+
+type SelectorTool = 'include' | 'exclude' | 'box';
+type BoxPrompt = Extract<SelectionPrompt, { type: 'box' }>;
+
+interface SubjectSelectorProps {
+  image: Blob;
+  imageUrl: string;
+  // 推理（或手动精修）得到的原始蒙版
+  mask: Blob;
+  // 框选区域重新推理时使用
+  config: ProcessingConfig;
+  onApply: (mask: Blob) => Promise<void>;
+  // 每个选中的主体单独导出，参数为只包含该主体的蒙版
+  onExport: (masks: Blob[]) => Promise<void>;
+  onCancel: () => void;
+}
+
+interface ViewTransform {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+const VIEW_HEIGHT = 480;
+// 小于该尺寸（原图像素）的拖动视为误触
+const MIN_BOX_SIZE = 8;
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(t('common.errors.imageLoad')));
+    image.src = src;
+  });
+}
+
+function encodeMask(mask: MaskData): Promise<Blob> {
+  return encodeImageData(maskToImageData(mask), { format: 'image/png', quality: 1 });
+}
+
+// 选区外的背景调暗，未选中的主体标红，选中的主体完整显示
+function createOverlay(mask: MaskData, { labels }: SubjectLabels, selected: Set<number>): HTMLCanvasElement {
+  const overlay = new ImageData(mask.width, mask.height);
+  for (let i = 0; i < labels.length; i++) {
+    const index = i * 4;
+    if (labels[i] !== -1 && !selected.has(labels[i])) {
+      overlay.data[index] = 239;
+      overlay.data[index + 1] = 68;
+      overlay.data[index + 2] = 68;
+      overlay.data[index + 3] = 150;
+    } else {
+      overlay.data[index + 3] = labels[i] === -1 ? 160 : Math.round(160 * (1 - mask.data[i] / 255));
+    }
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = mask.width;
+  canvas.height = mask.height;
+  canvas.getContext('2d')!.putImageData(overlay, 0, 0);
+  return canvas;
+}
+
+function normalizeRect(x1: number, y1: number, x2: number, y2: number): Rect {
+  return { x: Math.min(x1, x2), y: Math.min(y1, y2), width: Math.abs(x2 - x1), height: Math.abs(y2 - y1) };
+}
+
+export const SubjectSelector: React.FC<SubjectSelectorProps> = ({
+  image,
+  imageUrl,
+  mask,
+  config,
+  onApply,
+  onExport,
+  onCancel
+}) => {
+  // 切换语言时重新渲染
+  useI18n();
+  const [tool, setTool] = useState<SelectorTool>('include');
+  const [workingMask, setWorkingMask] = useState<MaskData | null>(null);
+  // 框选区域重新推理前的蒙版，用于恢复
+  const [originalMask, setOriginalMask] = useState<MaskData | null>(null);
+  const [prompts, setPrompts] = useState<SelectionPrompt[]>([]);
+  const [draftBox, setDraftBox] = useState<Rect | null>(null);
+  const [busy, setBusy] = useState<'apply' | 'export' | 'segment' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [view, setView] = useState<ViewTransform>({ scale: 1, x: 0, y: 0 });
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const viewCanvasRef = useRef<HTMLCanvasElement>(null);
+  const imageRef = useRef<HTMLImageElement | null>(null);
+  const boxStart = useRef<{ x: number; y: number } | null>(null);
+
+  // 加载原图和蒙版
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([loadImage(imageUrl), decodeImage(mask)])
+      .then(([loaded, maskImage]) => {
+        if (cancelled) return;
+        imageRef.current = loaded;
+        const decoded = extractMaskFromGrayscale(maskImage);
+        setWorkingMask(decoded);
+        setOriginalMask(null);
+        setPrompts([]);
+
+        const container = containerRef.current;
+        if (container) {
+          const scale = Math.min(container.clientWidth / loaded.naturalWidth, VIEW_HEIGHT / loaded.naturalHeight);
+          setView({
+            scale,
+            x: (container.clientWidth - loaded.naturalWidth * scale) / 2,
+            y: (VIEW_HEIGHT - loaded.naturalHeight * scale) / 2
+          });
+        }
+      })
+      .catch((err) => {
+        console.error('主体选择加载失败:', err);
+        if (!cancelled) setError(t('subjects.errors.load'));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [imageUrl, mask]);
+
+  const labels = useMemo(() => (workingMask ? labelSubjects(workingMask) : null), [workingMask]);
+  const selected = useMemo(() => (labels ? resolveSelection(labels, prompts) : new Set<number>()), [labels, prompts]);
+  const overlay = useMemo(
+    () => (workingMask && labels ? createOverlay(workingMask, labels, selected) : null),
+    [workingMask, labels, selected]
+  );
+  // 选中的主体按从左到右编号，与导出文件的序号一致
+  const selectedSubjects = useMemo(
+    () => (labels?.subjects ?? []).filter((subject) => selected.has(subject.id)).sort((a, b) => a.bounds.x - b.bounds.x),
+    [labels, selected]
+  );
+
+  const render = useCallback(() => {
+    const canvas = viewCanvasRef.current;
+    const container = containerRef.current;
+    const loaded = imageRef.current;
+    if (!canvas || !container || !loaded || !overlay) return;
+
+    canvas.width = container.clientWidth;
+    canvas.height = VIEW_HEIGHT;
+    const context = canvas.getContext('2d')!;
+    context.clearRect(0, 0, canvas.width, canvas.height);
+    context.setTransform(view.scale, 0, 0, view.scale, view.x, view.y);
+    context.drawImage(loaded, 0, 0);
+    context.drawImage(overlay, 0, 0);
+
+    // 标记和边框按屏幕像素绘制，不随缩放变粗
+    context.lineWidth = 2 / view.scale;
+    context.font = `${12 / view.scale}px sans-serif`;
+
+    selectedSubjects.forEach(({ bounds }, index) => {
+      context.setLineDash([6 / view.scale, 4 / view.scale]);
+      context.strokeStyle = '#9333ea';
+      context.strokeRect(bounds.x, bounds.y, bounds.width, bounds.height);
+      context.setLineDash([]);
+      context.fillStyle = '#9333ea';
+      context.fillRect(bounds.x, bounds.y, 20 / view.scale, 18 / view.scale);
+      context.fillStyle = '#ffffff';
+      context.fillText(String(index + 1), bounds.x + 6 / view.scale, bounds.y + 13 / view.scale);
+    });
+
+    const boxes = prompts.flatMap((prompt) => (prompt.type === 'box' ? [prompt.rect] : []));
+    [...boxes, ...(draftBox ? [draftBox] : [])].forEach((rect) => {
+      context.strokeStyle = '#2563eb';
+      context.strokeRect(rect.x, rect.y, rect.width, rect.height);
+    });
+
+    prompts.forEach((prompt) => {
+      if (prompt.type !== 'point') return;
+      const radius = 8 / view.scale;
+      context.fillStyle = prompt.positive ? '#16a34a' : '#dc2626';
+      context.strokeStyle = '#ffffff';
+      context.beginPath();
+      context.arc(prompt.x, prompt.y, radius, 0, Math.PI * 2);
+      context.fill();
+      context.stroke();
+      context.beginPath();
+      context.moveTo(prompt.x - radius / 2, prompt.y);
+      context.lineTo(prompt.x + radius / 2, prompt.y);
+      if (prompt.positive) {
+        context.moveTo(prompt.x, prompt.y - radius / 2);
+        context.lineTo(prompt.x, prompt.y + radius / 2);
+      }
+      context.stroke();
+    });
+  }, [view, overlay, prompts, draftBox, selectedSubjects]);
+
+  useEffect(() => {
+    render();
+  }, [render]);
+
+  const toImageCoordinates = (e: React.PointerEvent) => {
+    const rect = viewCanvasRef.current!.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left - view.x) / view.scale,
+      y: (e.clientY - rect.top - view.y) / view.scale
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!labels || busy) return;
+    const point = toImageCoordinates(e);
+
+    if (tool === 'box') {
+      e.currentTarget.setPointerCapture(e.pointerId);
+      boxStart.current = point;
+      setDraftBox({ ...point, width: 0, height: 0 });
+      return;
+    }
+
+    // 按住 Shift 时反向操作
+    const positive = (tool === 'include') !== e.shiftKey;
+    setPrompts((current) => [...current, { type: 'point', ...point, positive }]);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const start = boxStart.current;
+    if (!start) return;
+    const point = toImageCoordinates(e);
+    setDraftBox(normalizeRect(start.x, start.y, point.x, point.y));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const start = boxStart.current;
+    if (!start) return;
+    boxStart.current = null;
+    setDraftBox(null);
+
+    const point = toImageCoordinates(e);
+    const rect = normalizeRect(start.x, start.y, point.x, point.y);
+    if (rect.width >= MIN_BOX_SIZE && rect.height >= MIN_BOX_SIZE) {
+      setPrompts((current) => [...current, { type: 'box', rect }]);
+    }
+  };
+
+  const lastBox = [...prompts].reverse().find((prompt): prompt is BoxPrompt => prompt.type === 'box');
+
+  // 对最后一个框选区域重新推理：主体相互接触无法按连通区域分开时，让模型只关注框内内容
+  const segmentRegion = async () => {
+    if (!lastBox || !workingMask) return;
+
+    setBusy('segment');
+    setError(null);
+    try {
+      const source = await decodeImage(image);
+      const x = Math.max(0, Math.round(lastBox.rect.x));
+      const y = Math.max(0, Math.round(lastBox.rect.y));
+      const rect: Rect = {
+        x,
+        y,
+        width: Math.min(source.width, Math.round(lastBox.rect.x + lastBox.rect.width)) - x,
+        height: Math.min(source.height, Math.round(lastBox.rect.y + lastBox.rect.height)) - y
+      };
+      if (rect.width < MIN_BOX_SIZE || rect.height < MIN_BOX_SIZE) return;
+
+      const region = await encodeImageData(cropImageData(source, rect), { format: 'image/png', quality: 1 });
+      const { mask: regionMask } = await segmentImage(region, config);
+      const placed = placeRegionMask(extractMaskFromGrayscale(await decodeImage(regionMask)), rect, source.width, source.height);
+      setOriginalMask((current) => current ?? workingMask);
+      setWorkingMask(placed);
+      setPrompts([]);
+    } catch (err) {
+      console.error('框选区域推理失败:', err);
+      setError(err instanceof Error ? err.message : t('subjects.errors.segment'));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const restoreMask = () => {
+    if (!originalMask) return;
+    setWorkingMask(originalMask);
+    setOriginalMask(null);
+    setPrompts([]);
+  };
+
+  const handleApply = async () => {
+    if (!workingMask || !labels) return;
+    setBusy('apply');
+    setError(null);
+    try {
+      await onApply(await encodeMask(applySelection(workingMask, labels, selected)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('subjects.errors.apply'));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleExport = async () => {
+    if (!workingMask || !labels) return;
+    setBusy('export');
+    setError(null);
+    try {
+      const masks = await Promise.all(
+        selectedSubjects.map((subject) => encodeMask(applySelection(workingMask, labels, new Set([subject.id]))))
+      );
+      await onExport(masks);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('subjects.errors.export'));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const tools: { value: SelectorTool; label: string; icon: React.ReactNode }[] = [
+    { value: 'include', label: t('subjects.tools.include'), icon: <PlusCircle className="w-4 h-4 mr-1" /> },
+    { value: 'exclude', label: t('subjects.tools.exclude'), icon: <MinusCircle className="w-4 h-4 mr-1" /> },
+    { value: 'box', label: t('subjects.tools.box'), icon: <BoxSelect className="w-4 h-4 mr-1" /> }
+  ];
+
+  const isLoading = !labels;
+
+  return (
+    <div>
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-4 mb-4">
+        <div className="flex space-x-2">
+          {tools.map((item) => (
+            <button
+              key={item.value}
+              onClick={() => setTool(item.value)}
+              className={`flex items-center px-3 py-2 rounded-lg border-2 text-sm font-medium transition-all duration-200 ${
+                tool === item.value
+                  ? 'border-purple-500 bg-purple-50 text-purple-700'
+                  : 'border-gray-200 hover:border-gray-300'
+              }`}
+            >
+              {item.icon}
+              {item.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex space-x-1">
+          <button
+            onClick={() => setPrompts((current) => current.slice(0, -1))}
+            disabled={prompts.length === 0 || busy !== null}
+            className="p-2 rounded-lg hover:bg-gray-100 disabled:opacity-40"
+            title={t('subjects.undo')}
+          >
+            <Undo2 className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => setPrompts([])}
+            disabled={prompts.length === 0 || busy !== null}
+            className="p-2 rounded-lg hover:bg-gray-100 disabled:opacity-40"
+            title={t('subjects.clear')}
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+
+        <button
+          onClick={segmentRegion}
+          disabled={!lastBox || busy !== null}
+          className="flex items-center px-3 py-2 rounded-lg border border-gray-300 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed"
+          title={t('subjects.segmentHint')}
+        >
+          {busy === 'segment' ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <ScanSearch className="w-4 h-4 mr-1" />}
+          {t('subjects.segment')}
+        </button>
+        {originalMask && (
+          <button
+            onClick={restoreMask}
+            disabled={busy !== null}
+            className="flex items-center px-3 py-2 rounded-lg text-sm text-gray-600 hover:bg-gray-100 disabled:opacity-40"
+          >
+            <RotateCcw className="w-4 h-4 mr-1" />
+            {t('subjects.restore')}
+          </button>
+        )}
+
+        {labels && (
+          <span className="text-xs text-gray-600">
+            {t('subjects.selected', { selected: selected.size, total: labels.subjects.length })}
+          </span>
+        )}
+      </div>
+
+      {/* Canvas */}
+      <div
+        ref={containerRef}
+        className="relative border-2 border-gray-200 rounded-xl overflow-hidden shadow-inner bg-gray-100"
+        style={{ height: VIEW_HEIGHT }}
+      >
+        <canvas
+          ref={viewCanvasRef}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          className="block touch-none cursor-crosshair"
+        />
+        {(isLoading || busy === 'segment') && !error && (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <Loader2 className="w-8 h-8 text-purple-600 animate-spin" />
+          </div>
+        )}
+      </div>
+      <p className="text-xs text-gray-500 mt-2">
+        {t('subjects.hint')}
+      </p>
+
+      {error && (
+        <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg flex items-center text-sm text-red-700">
+          <AlertCircle className="w-4 h-4 mr-2 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {/* Actions */}
+      <div className="flex justify-end space-x-3 mt-4">
+        <button
+          onClick={onCancel}
+          className="flex items-center px-6 py-3 bg-white text-gray-700 border border-gray-300 rounded-xl hover:bg-gray-50 transition-all duration-200"
+        >
+          <X className="w-4 h-4 mr-2" />
+          {t('common.cancel')}
+        </button>
+        <button
+          onClick={handleExport}
+          disabled={isLoading || busy !== null || selectedSubjects.length === 0}
+          className="flex items-center px-6 py-3 bg-white text-purple-700 border border-purple-300 rounded-xl hover:bg-purple-50 transition-all duration-200 disabled:opacity-60"
+        >
+          {busy === 'export' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Layers className="w-4 h-4 mr-2" />}
+          {t('subjects.exportEach')} {selectedSubjects.length > 0 && `(${selectedSubjects.length})`}
+        </button>
+        <button
+          onClick={handleApply}
+          disabled={isLoading || busy !== null || selected.size === 0}
+          className="flex items-center px-6 py-3 bg-gradient-to-r from-purple-600 to-blue-600 text-white rounded-xl hover:from-purple-700 hover:to-blue-700 transition-all duration-200 shadow-lg disabled:opacity-60"
+        >
+          {busy === 'apply' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Check className="w-4 h-4 mr-2" />}
+          {t('subjects.apply')}
+        </button>
+      </div>
+    </div>
+  );
+};
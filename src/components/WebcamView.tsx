@@ -0,0 +1,342 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Camera, ArrowLeft, Loader2, AlertCircle, Aperture } from 'lucide-react';
+import { ProcessingConfig, ProcessingStats, segmentImage } from '../utils/backgroundRemoval';
+import { MaskData, createCanvas, decodeImage, encodeImageData, extractMaskFromGrayscale, maskToImageData } from '../utils/imageUtils';
+import { refineMask } from '../utils/maskProcessing';
+import { upsampleMask } from '../utils/largeImage';
+import { smoothMaskTemporal } from '../utils/animation';
+import {
+  MAX_MASK_FPS,
+  WebcamQuality,
+  captureFrame,
+  createRateMeter,
+  drawLiveFrame,
+  maskToAlphaCanvas,
+  openCamera,
+  stopCamera,
+  webcamQualityOptions
+} from '../utils/webcam';
+import { formatDuration } from '../utils/format';
+import { t } from '../i18n';
+import { useI18n } from '../i18n/useI18n';
+import { BackgroundSettings } from './BackgroundSettings';
+
+interface WebcamViewProps {
+  config: ProcessingConfig;
+  onConfigChange: (config: ProcessingConfig) => void;
+  // 模型未加载或队列正在处理时暂停推理，只显示原始画面
+  disabled: boolean;
+  onClose: () => void;
+  onBusyChange: (busy: boolean) => void;
+  // 拍照：当前画面（原始分辨率）与放大到同尺寸的蒙版
+  onSnapshot: (file: File, mask: Blob, stats: ProcessingStats) => Promise<void>;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export const WebcamView: React.FC<WebcamViewProps> = ({
+  config,
+  onConfigChange,
+  disabled,
+  onClose,
+  onBusyChange,
+  onSnapshot
+}) => {
+  // 切换语言时重新渲染
+  useI18n();
+  const [quality, setQuality] = useState<WebcamQuality>('balanced');
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [fps, setFps] = useState({ render: 0, mask: 0 });
+  const [inferenceMs, setInferenceMs] = useState<number | null>(null);
+  const [backgroundImage, setBackgroundImage] = useState<ImageBitmap | null>(null);
+  const [isCapturing, setIsCapturing] = useState(false);
+  // 得到第一个蒙版后才能拍照
+  const [hasMask, setHasMask] = useState(false);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // 绘制循环读取最新的配置和蒙版，不随渲染重新启动
+  const configRef = useRef(config);
+  const backgroundImageRef = useRef<ImageBitmap | null>(null);
+  const maskRef = useRef<MaskData | null>(null);
+  const alphaMaskRef = useRef<OffscreenCanvas | null>(null);
+  const statsRef = useRef<ProcessingStats | null>(null);
+  const maskMeter = useRef(createRateMeter());
+
+  useEffect(() => {
+    configRef.current = config;
+  }, [config]);
+
+  useEffect(() => {
+    backgroundImageRef.current = backgroundImage;
+  }, [backgroundImage]);
+
+  // 切换画质时按新的分辨率重新打开摄像头
+  useEffect(() => {
+    let cancelled = false;
+    let opened: MediaStream | null = null;
+    setStream(null);
+    setError(null);
+    maskRef.current = null;
+    alphaMaskRef.current = null;
+    setHasMask(false);
+
+    openCamera(quality)
+      .then((result) => {
+        if (cancelled) {
+          stopCamera(result);
+          return;
+        }
+        opened = result;
+        setStream(result);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : t('webcam.errors.failed'));
+      });
+
+    return () => {
+      cancelled = true;
+      if (opened) stopCamera(opened);
+    };
+  }, [quality]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !stream) return;
+    video.srcObject = stream;
+    video.play().catch((err) => console.error('摄像头画面播放失败:', err));
+  }, [stream]);
+
+  // 背景图片只解码一次，避免每帧重复解码
+  useEffect(() => {
+    const image = config.background.image;
+    if (!image) {
+      setBackgroundImage(null);
+      return;
+    }
+
+    let cancelled = false;
+    let bitmap: ImageBitmap | null = null;
+    createImageBitmap(image).then((result) => {
+      if (cancelled) {
+        result.close();
+        return;
+      }
+      bitmap = result;
+      setBackgroundImage(result);
+    });
+    return () => {
+      cancelled = true;
+      bitmap?.close();
+    };
+  }, [config.background.image]);
+
+  // 绘制循环：每个显示帧都用最新的蒙版合成
+  useEffect(() => {
+    const video = videoRef.current;
+    const context = canvasRef.current?.getContext('2d');
+    if (!stream || !video || !context) return;
+
+    const foreground = createCanvas(1, 1);
+    const renderMeter = createRateMeter();
+    let frame = 0;
+    const draw = () => {
+      if (video.readyState >= 2) {
+        const { canvas } = context;
+        if (canvas.width !== video.videoWidth || canvas.height !== video.videoHeight) {
+          canvas.width = video.videoWidth;
+          canvas.height = video.videoHeight;
+        }
+        drawLiveFrame(context, video, alphaMaskRef.current, configRef.current.background, backgroundImageRef.current, foreground);
+        renderMeter.tick();
+      }
+      frame = requestAnimationFrame(draw);
+    };
+    frame = requestAnimationFrame(draw);
+
+    // 帧率每半秒刷新一次显示
+    const timer = setInterval(() => {
+      setFps({ render: renderMeter.rate, mask: maskMeter.current.rate });
+    }, 500);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      clearInterval(timer);
+    };
+  }, [stream]);
+
+  // 推理循环：上一帧推理完成后立即取最新画面，速率随设备性能自动调整；页面不可见时暂停
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!stream || !video || disabled) return;
+
+    const { inferenceEdge } = webcamQualityOptions.find((item) => item.value === quality)!;
+    let stopped = false;
+    onBusyChange(true);
+
+    const run = async () => {
+      let previous: MaskData | null = null;
+      while (!stopped) {
+        const start = performance.now();
+        if (document.hidden || video.readyState < 2) {
+          await sleep(200);
+          continue;
+        }
+
+        try {
+          const frame = await encodeImageData(captureFrame(video, inferenceEdge), { format: 'image/jpeg', quality: 0.9 });
+          const currentConfig = configRef.current;
+          const { mask, stats } = await segmentImage(frame, currentConfig);
+          if (stopped) break;
+
+          let current = extractMaskFromGrayscale(await decodeImage(mask));
+          // 与上一次的蒙版做时间平滑，减少边缘闪烁
+          if (previous && previous.width === current.width && previous.height === current.height) {
+            current = smoothMaskTemporal([previous, current], 1);
+          }
+          previous = current;
+          maskRef.current = current;
+          statsRef.current = stats;
+          alphaMaskRef.current = maskToAlphaCanvas(refineMask(current, currentConfig.refinement));
+          maskMeter.current.tick();
+          setHasMask(true);
+          setInferenceMs(stats.inferenceMs);
+        } catch (err) {
+          if (!stopped) {
+            console.error('实时推理失败:', err);
+            setError(err instanceof Error ? err.message : t('webcam.errors.inference'));
+          }
+          break;
+        }
+
+        await sleep(Math.max(0, 1000 / MAX_MASK_FPS - (performance.now() - start)));
+      }
+    };
+    run();
+
+    return () => {
+      stopped = true;
+      onBusyChange(false);
+    };
+  }, [stream, disabled, quality, onBusyChange]);
+
+  // 拍照：以原始分辨率截取当前画面，并将蒙版放大到同尺寸后进入常规结果页
+  const takeSnapshot = async () => {
+    const video = videoRef.current;
+    const mask = maskRef.current;
+    const stats = statsRef.current;
+    if (!video || !mask || !stats) return;
+
+    setIsCapturing(true);
+    try {
+      const image = captureFrame(video);
+      const [imageBlob, maskBlob] = await Promise.all([
+        encodeImageData(image, { format: 'image/png', quality: 1 }),
+        encodeImageData(maskToImageData(upsampleMask(mask, image)), { format: 'image/png', quality: 1 }),
+      ]);
+      const file = new File([imageBlob], `webcam-${Date.now()}.png`, { type: 'image/png' });
+      await onSnapshot(file, maskBlob, stats);
+    } catch (err) {
+      console.error('拍照失败:', err);
+      setError(err instanceof Error ? err.message : t('webcam.errors.snapshot'));
+    } finally {
+      setIsCapturing(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-8">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="flex items-center text-2xl font-semibold text-gray-900">
+          <Camera className="w-6 h-6 mr-2 text-purple-600" />
+          {t('webcam.title')}
+        </h3>
+        <button
+          onClick={onClose}
+          className="flex items-center px-4 py-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+        >
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          {t('common.back')}
+        </button>
+      </div>
+
+      <div className="grid lg:grid-cols-3 gap-6">
+        {/* Live Preview */}
+        <div className="lg:col-span-2">
+          <div className="relative checkerboard rounded-lg overflow-hidden flex items-center justify-center min-h-72">
+            <video ref={videoRef} muted playsInline className="hidden" />
+            <canvas ref={canvasRef} className="max-w-full max-h-[60vh]" />
+            {!stream && !error && (
+              <div className="absolute inset-0 flex items-center justify-center">
+                <Loader2 className="w-8 h-8 text-purple-600 animate-spin" />
+              </div>
+            )}
+            {stream && (
+              <div className="absolute top-2 left-2 bg-black/60 text-white text-xs rounded px-2 py-1 font-mono">
+                {t('webcam.fps', { render: fps.render, mask: fps.mask })}
+                {inferenceMs !== null && ` · ${t('webcam.inference', { duration: formatDuration(inferenceMs) })}`}
+              </div>
+            )}
+            {stream && disabled && (
+              <div className="absolute bottom-2 left-2 bg-amber-500/90 text-white text-xs rounded px-2 py-1">
+                {t('webcam.paused')}
+              </div>
+            )}
+          </div>
+
+          {error && (
+            <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg flex items-center text-sm text-red-700">
+              <AlertCircle className="w-4 h-4 mr-2 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+
+          <div className="flex justify-center mt-4">
+            <button
+              onClick={takeSnapshot}
+              disabled={!stream || !hasMask || isCapturing}
+              className="flex items-center px-8 py-3 bg-gradient-to-r from-purple-600 to-blue-600 text-white rounded-xl hover:shadow-lg transition-all font-medium disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              {isCapturing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Aperture className="w-4 h-4 mr-2" />}
+              {t('webcam.snapshot')}
+            </button>
+          </div>
+        </div>
+
+        {/* Settings */}
+        <div className="space-y-6">
+          <div>
+            <label className="text-sm font-semibold text-gray-700 mb-2 block">{t('webcam.quality')}</label>
+            <div className="space-y-2">
+              {webcamQualityOptions.map((option) => (
+                <button
+                  key={option.value}
+                  onClick={() => setQuality(option.value)}
+                  className={`w-full p-3 rounded-lg border-2 text-left transition-all duration-200 ${
+                    quality === option.value
+                      ? 'border-purple-500 bg-purple-50'
+                      : 'border-gray-200 hover:border-gray-300'
+                  }`}
+                >
+                  <div className="font-medium text-sm">{option.label}</div>
+                  <div className="text-xs text-gray-500">{option.desc}</div>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <BackgroundSettings
+            background={config.background}
+            onChange={(background) => onConfigChange({ ...config, background })}
+            disabled={false}
+          />
+          <p className="text-xs text-gray-500">
+            {t('webcam.modelHint', { model: config.model })}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,167 @@
+import zhCN, { MessageKey } from './locales/zh-CN';
+import en from './locales/en';
+
+// 界面文本的多语言支持：按语言注册消息目录，界面通过 t() 按键取当前语言的文本
+// 新增语言只需添加消息目录并在 locales 中注册，组件无需修改
+
+export type { MessageKey };
+export type Messages = Record<MessageKey, string>;
+
+export interface LocaleDefinition {
+  // BCP 47 语言标签，同时用于数字和日期格式化
+  code: string;
+  // 语言切换中显示的名称，使用该语言本身书写
+  name: string;
+  messages: Messages;
+}
+
+export const locales: LocaleDefinition[] = [
+  { code: 'zh-CN', name: '简体中文', messages: zhCN },
+  { code: 'en', name: 'English', messages: en },
+];
+
+export const DEFAULT_LOCALE = 'zh-CN';
+
+const STORAGE_KEY = 'background-removal:locale';
+
+function findLocale(code: string): LocaleDefinition | undefined {
+  return locales.find((locale) => locale.code.toLowerCase() === code.toLowerCase());
+}
+
+// 按浏览器的语言偏好选择：先精确匹配，再按主语言匹配（例如 en-US 使用 en，zh-TW 使用 zh-CN）
+export function detectLocale(languages: readonly string[]): string {
+  for (const language of languages) {
+    const exact = findLocale(language);
+    if (exact) return exact.code;
+
+    const primary = language.split('-')[0].toLowerCase();
+    const matched = locales.find((locale) => locale.code.split('-')[0].toLowerCase() === primary);
+    if (matched) return matched.code;
+  }
+  return DEFAULT_LOCALE;
+}
+
+// 优先使用用户选择过的语言；Worker 和命令行中没有 localStorage，Node 中没有 navigator 时使用默认语言
+function resolveInitialLocale(): string {
+  const stored = typeof localStorage === 'undefined' ? null : localStorage.getItem(STORAGE_KEY);
+  const storedLocale = stored ? findLocale(stored) : undefined;
+  if (storedLocale) return storedLocale.code;
+
+  if (typeof navigator === 'undefined') return DEFAULT_LOCALE;
+  return detectLocale(navigator.languages?.length ? navigator.languages : [navigator.language]);
+}
+
+let currentLocale = resolveInitialLocale();
+const listeners = new Set<() => void>();
+
+export function getLocale(): string {
+  return currentLocale;
+}
+
+// 切换语言并记住选择
+export function setLocale(code: string) {
+  const locale = findLocale(code);
+  if (!locale || locale.code === currentLocale) return;
+
+  currentLocale = locale.code;
+  if (typeof localStorage !== 'undefined') {
+    localStorage.setItem(STORAGE_KEY, locale.code);
+  }
+  listeners.forEach((listener) => listener());
+}
+
+// 订阅语言变化，返回取消订阅的函数
+export function subscribeLocale(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export type MessageParams = Record<string, string | number>;
+
+const numberFormats = new Map<string, Intl.NumberFormat>();
+
+// 按语言格式化数字，格式化器按语言和选项缓存
+export function formatNumber(value: number, options?: Intl.NumberFormatOptions, locale: string = currentLocale): string {
+  const cacheKey = `${locale}|${JSON.stringify(options ?? {})}`;
+  let numberFormat = numberFormats.get(cacheKey);
+  if (!numberFormat) {
+    numberFormat = new Intl.NumberFormat(locale, options);
+    numberFormats.set(cacheKey, numberFormat);
+  }
+  return numberFormat.format(value);
+}
+
+function formatParam(value: string | number, locale: string): string {
+  return typeof value === 'number' ? formatNumber(value, undefined, locale) : value;
+}
+
+// 返回与 start 处的 { 配对的 } 的位置
+function findClosingBrace(text: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '{') depth++;
+    else if (text[i] === '}' && --depth === 0) return i;
+  }
+  return -1;
+}
+
+// 从 one {...} other {...} 中按数量选择分支，=N 精确匹配优先
+function selectPlural(cases: string, count: number, locale: string): string {
+  const branches = new Map<string, string>();
+  let index = 0;
+  while (index < cases.length) {
+    const match = /^\s*(=?\w+)\s*\{/.exec(cases.slice(index));
+    if (!match) break;
+    const open = index + match[0].length - 1;
+    const close = findClosingBrace(cases, open);
+    if (close < 0) break;
+    branches.set(match[1], cases.slice(open + 1, close));
+    index = close + 1;
+  }
+  return branches.get(`=${count}`) ?? branches.get(new Intl.PluralRules(locale).select(count)) ?? branches.get('other') ?? '';
+}
+
+// 替换 {name} 占位符；{count, plural, one {# item} other {# items}} 按语言的复数规则选择分支，# 为格式化后的数量
+function interpolate(template: string, params: MessageParams, locale: string): string {
+  let result = '';
+  let index = 0;
+  while (index < template.length) {
+    const open = template.indexOf('{', index);
+    if (open < 0) break;
+    const close = findClosingBrace(template, open);
+    if (close < 0) break;
+
+    result += template.slice(index, open);
+    const placeholder = template.slice(open + 1, close);
+    const plural = /^\s*(\w+)\s*,\s*plural\s*,([\s\S]*)$/.exec(placeholder);
+    if (plural) {
+      const count = Number(params[plural[1]]);
+      const branch = selectPlural(plural[2], count, locale).replace(/#/g, formatParam(count, locale));
+      result += interpolate(branch, params, locale);
+    } else {
+      const value = params[placeholder.trim()];
+      result += value === undefined ? `{${placeholder}}` : formatParam(value, locale);
+    }
+    index = close + 1;
+  }
+  return result + template.slice(index);
+}
+
+// 取当前语言的文本；缺少翻译时使用默认语言
+export function t(key: MessageKey, params?: MessageParams): string {
+  const template = findLocale(currentLocale)?.messages[key] ?? zhCN[key] ?? key;
+  return params ? interpolate(template, params, currentLocale) : template;
+}
+
+// 为模块级的选项列表和标签定义随语言变化的文本属性，读取时才取当前语言的文本
+export function localized<T extends object, K extends string>(
+  target: T,
+  keys: Record<K, MessageKey>
+): T & { readonly [P in K]: string } {
+  for (const [name, key] of Object.entries(keys) as [string, MessageKey][]) {
+    Object.defineProperty(target, name, { get: () => t(key), enumerable: true });
+  }
+  return target as T & { readonly [P in K]: string };
+}
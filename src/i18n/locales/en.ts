@@ -0,0 +1,506 @@
+import type { MessageKey } from './zh-CN';
+
+// 英文消息目录，键与简体中文目录一一对应
+
+const en: Record<MessageKey, string> = {
+  // 通用
+  'common.cancel': 'Cancel',
+  'common.back': 'Back',
+  'common.aboutSeconds': '~{seconds} s',
+  'common.off': 'Off',
+  'common.resetAll': 'Reset all',
+  'common.unknown': 'Unknown',
+  'common.foregroundOnly': 'Only available when the output type is "Foreground"',
+  'common.listSeparator': '; ',
+  'common.errors.canvasContext': 'Unable to create a canvas context',
+  'common.errors.imageLoad': 'Failed to load image',
+
+  // 界面语言
+  'language.label': 'Language',
+
+  // 主页面
+  'app.documentTitle': 'Image Background Remover',
+  'app.title': 'AI Background Remover',
+  'app.subtitle': 'Accurately detect and remove image backgrounds with advanced AI. Works with people, objects, animals and more, and produces transparent images in one click',
+  'app.loadingModel': 'Loading AI model ({model})... {progress}',
+  'app.upload.title': 'Drop images here or click to upload',
+  'app.upload.desc': 'Supports JPG, PNG and WEBP up to 100MB. Select several images to process them as a batch, or paste an image with Ctrl+V; videos (WebM/MP4) and animated GIF/WebP are processed frame by frame',
+  'app.upload.choose': 'Choose images',
+  'app.upload.webcam': 'Use camera',
+  'app.upload.urlPlaceholder': 'Paste an image URL, e.g. https://example.com/photo.jpg',
+  'app.upload.loadUrl': 'Load image',
+  'app.processing.title': 'AI is processing your image...',
+  'app.processing.desc.foreground': 'Removing the background with the {model} model',
+  'app.processing.desc.background': 'Extracting the background with the {model} model',
+  'app.processing.desc.mask': 'Generating a mask with the {model} model',
+  'app.processing.preparing': 'Preparing',
+  'app.processing.cancel': 'Cancel processing',
+  'app.results.title': 'Result',
+  'app.results.selectSubject': 'Select subjects',
+  'app.results.editMask': 'Refine mask',
+  'app.results.back': 'Back to list',
+  'app.results.copy': 'Copy image',
+  'app.results.copied': 'Copied',
+  'app.results.download': 'Download image',
+  'app.results.reset': 'Start over',
+  'app.resultLabel.foreground': 'Background removed',
+  'app.resultLabel.background': 'Background only',
+  'app.resultLabel.mask': 'Mask',
+  'app.info.title': 'Current settings',
+  'app.info.model': 'Model',
+  'app.info.device': 'Device',
+  'app.info.deviceFallback': ' ({device} unavailable, fell back)',
+  'app.info.format': 'Format',
+  'app.info.quality': 'Quality',
+  'app.info.loadTime': 'Model load',
+  'app.info.inferenceTime': 'Inference',
+  'app.info.threads': 'Threads',
+  'app.features.ai.title': 'AI detection',
+  'app.features.ai.desc': 'State-of-the-art deep learning separates subject and background precisely, even in complex scenes',
+  'app.features.config.title': 'Flexible settings',
+  'app.features.config.desc': 'Multiple AI models, output formats and processing modes for different needs',
+  'app.features.quality.title': 'High-quality output',
+  'app.features.quality.desc': 'Keeps the original resolution and quality, with PNG, JPEG and WebP output',
+  'app.errors.invalidImage': 'Please choose a valid image file (JPG, PNG, WEBP, etc.)',
+  'app.errors.fileTooLarge': 'Image files must not exceed 100MB',
+  'app.errors.wasmSimd': 'This browser does not support WebAssembly SIMD and cannot run the AI model. Please update your browser',
+  'app.errors.historySave': 'Failed to save history; storage may be full',
+  'app.errors.render': 'Failed to generate the result. Please try again',
+  'app.errors.singleAnimation': 'Videos and animated images must be processed on their own. Please choose one at a time',
+  'app.errors.fetchImage': 'Unable to fetch the image',
+  'app.errors.export': 'Export failed. Please try again',
+  'app.errors.zip': 'Failed to create the ZIP download. Please try again',
+  'app.errors.copy': 'Copy failed. Please try again',
+
+  // 设置面板
+  'config.toggle': 'Settings',
+  'config.title': 'AI processing settings',
+  'config.device.title': 'Processing device',
+  'config.device.gpuUnsupported': 'This browser does not support WebGPU',
+  'config.device.usingCpu': 'This browser does not support WebGPU; the CPU will be used',
+  'config.device.gpuDisabled': 'This browser does not support WebGPU; GPU mode is unavailable',
+  'config.device.hint': 'GPU mode requires WebGPU support and falls back to the CPU otherwise',
+  'config.capabilities.wasmSimdMissing': 'Cannot run models',
+  'config.capabilities.threads': 'Multithreading',
+  'config.capabilities.threadCount': '{count, plural, one {# thread} other {# threads}}',
+  'config.capabilities.notIsolated': 'Page is not cross-origin isolated; running single-threaded',
+  'config.capabilities.memory': 'Memory',
+  'config.capabilities.memoryAmount': '~{amount} GB',
+  'config.model.title': 'AI model',
+  'config.model.lowMemory': 'This device has {amount} GB of memory or less; the standard model and full-quality large image processing are disabled',
+  'config.largeImage.title': 'Large images',
+  'config.largeImage.confirm': 'Show an estimate and ask before processing',
+  'config.largeImage.hint': 'Images above about 4MP are inferred at a lower resolution and the mask is upscaled along the original edges; output keeps the original resolution',
+  'config.output.format': 'Output format',
+  'config.output.noAlpha': '{format} does not support transparency; transparent areas are filled with the matte color',
+  'config.output.matte': 'Matte color',
+  'config.output.metadata': 'Embed processing info',
+  'config.output.metadataHint': 'Records the model, settings and original image hash for traceability. PNG, JPEG, WebP and SVG store it in the file; other formats get a JSON file with the same name',
+  'config.outputType.title': 'Output type',
+  'config.outputType.foreground.label': 'Foreground (remove background)',
+  'config.outputType.foreground.desc': 'Keep the subject, remove the background',
+  'config.outputType.background.label': 'Background',
+  'config.outputType.background.desc': 'Keep only the background',
+  'config.outputType.mask.label': 'Mask',
+  'config.outputType.mask.desc': 'Black and white mask image',
+  'config.quality.title': 'Output quality: {quality}',
+  'config.quality.unused': '(not used by {format})',
+  'config.quality.low': 'Lower quality',
+  'config.quality.high': 'Higher quality',
+  'config.debug.title': 'Debug mode',
+  'config.debug.hint': 'Log detailed processing information to the console',
+
+  // 配置预设
+  'presets.title': 'Presets',
+  'presets.namePlaceholder': 'Preset name',
+  'presets.confirm': 'OK',
+  'presets.none': 'No preset selected',
+  'presets.saveAs': 'Save as new preset',
+  'presets.save': 'Save current settings to preset',
+  'presets.rename': 'Rename',
+  'presets.delete': 'Delete',
+  'presets.modified': 'Current settings differ from the preset; click save to update it',
+  'presets.import': 'Import JSON',
+  'presets.export': 'Export JSON',
+  'presets.copyLink': 'Copy settings link',
+  'presets.hint': 'Presets and settings links do not include uploaded background images',
+  'presets.duplicate': 'A preset named "{name}" already exists',
+  'presets.confirmDelete': 'Delete the preset "{name}"?',
+  'presets.imported': '{count, plural, one {Imported # preset} other {Imported # presets}}',
+  'presets.readFailed': 'Failed to read the preset file',
+  'presets.linkCopied': 'Settings link copied',
+  'presets.linkCopyFailed': 'Failed to copy the link; please check clipboard permissions',
+
+  // 替换背景
+  'background.title': 'Replace background',
+  'background.modes.none': 'Transparent',
+  'background.modes.color': 'Color',
+  'background.modes.gradient': 'Gradient',
+  'background.modes.blur': 'Blur',
+  'background.modes.image': 'Image',
+  'background.fits.cover': 'Cover',
+  'background.fits.contain': 'Contain',
+  'background.fits.stretch': 'Stretch',
+  'background.color': 'Background color',
+  'background.gradientFrom': 'Start color',
+  'background.gradientTo': 'End color',
+  'background.gradientAngle': 'Gradient angle: {angle}°',
+  'background.blurRadius': 'Blur radius: {radius}px',
+  'background.changeImage': 'Change background image',
+  'background.uploadImage': 'Upload background image',
+  'background.subjectScale': 'Subject scale: {value}',
+  'background.offsetX': 'Horizontal position: {value}',
+  'background.offsetY': 'Vertical position: {value}',
+  'background.resetPlacement': 'Reset position',
+
+  // 蒙版后处理
+  'refinement.title': 'Mask refinement',
+  'refinement.unchanged': 'Unchanged',
+  'refinement.threshold.label': 'Alpha threshold',
+  'refinement.threshold.desc': 'Pixels above the threshold become foreground and the rest background, giving hard edges',
+  'refinement.featherRadius.label': 'Edge feather',
+  'refinement.featherRadius.desc': 'Soften the mask edges',
+  'refinement.edgeShift.label': 'Grow/shrink edges',
+  'refinement.edgeShift.desc': 'Positive values grow the subject; negative values shrink it to remove leftover background',
+  'refinement.minIslandSize.label': 'Remove isolated areas',
+  'refinement.minIslandSize.desc': 'Remove scattered foreground smaller than this share of the image',
+  'refinement.despill.label': 'Edge color cleanup',
+  'refinement.despill.desc': 'Remove background color bleeding into semi-transparent edges (foreground output only)',
+  'refinement.hint': 'Changes are previewed from the existing mask without running AI inference again',
+
+  // 自动裁剪
+  'crop.title': 'Auto crop',
+  'crop.padding': 'Padding',
+  'crop.center': 'Center subject',
+  'crop.resize': 'Resize to {width}×{height}',
+  'crop.hint': 'Crops away extra transparent space based on the mask, before the output is encoded',
+
+  // 阴影与描边
+  'effects.title': 'Shadows and outline',
+  'effects.shadow.title': 'Drop shadow',
+  'effects.floorShadow.title': 'Floor shadow',
+  'effects.outline.title': 'Outline',
+  'effects.offsetX': 'Horizontal offset',
+  'effects.offsetY': 'Vertical offset',
+  'effects.blur': 'Blur',
+  'effects.opacity': 'Opacity',
+  'effects.width': 'Width',
+  'effects.height': 'Height',
+  'effects.shadowColor': 'Shadow color',
+  'effects.outlineColor': 'Outline color',
+  'effects.hint': 'Generated from the mask and applied to the preview and exported images; auto crop leaves room for shadows and outlines',
+
+  // 批量处理
+  'batch.title': 'Batch queue',
+  'batch.summary': '{total, plural, one {# image} other {# images}} · {done} done · {failed} failed',
+  'batch.downloadZip': 'Download all (ZIP)',
+  'batch.retryFailed': 'Retry failed',
+  'batch.clear': 'Clear queue',
+  'batch.includeMask': 'Include masks',
+  'batch.includeOriginal': 'Include originals',
+  'batch.view': 'View result',
+  'batch.remove': 'Remove',
+  'batch.status.pending': 'Waiting',
+  'batch.status.confirm': 'Large image, needs confirmation',
+  'batch.status.processing': 'Processing',
+  'batch.status.done': 'Done',
+  'batch.status.failed': 'Failed',
+
+  // 大图提示
+  'largeImage.title': 'This is a large image',
+  'largeImage.summary': '{filename} · {width}×{height} ({megapixels} MP)',
+  'largeImage.workingSize': 'Inference size',
+  'largeImage.memory': 'Est. memory',
+  'largeImage.duration': 'Est. time',
+  'largeImage.note': 'Both modes output at the original resolution. Estimates are approximate and depend on your device',
+
+  // 历史记录
+  'history.toggle': 'History',
+  'history.title': 'Processing history',
+  'history.search': 'Search by file name',
+  'history.empty': 'No history yet',
+  'history.noMatch': 'No matching entries',
+  'history.reopen': 'Reopen',
+  'history.delete': 'Delete',
+  'history.storage': 'Storage',
+  'history.clear': 'Clear all history',
+  'history.confirmClear': 'Clear all history?',
+  'history.errors.load': 'Failed to load history',
+  'history.errors.delete': 'Delete failed. Please try again',
+  'history.errors.clear': 'Clear failed. Please try again',
+
+  // 画布视图
+  'viewer.zoomIn': 'Zoom in',
+  'viewer.zoomOut': 'Zoom out',
+  'viewer.actualSize': 'Actual pixels (1:1)',
+  'viewer.fit': 'Fit to window',
+
+  // 对比视图
+  'compare.modes.split': 'Split view',
+  'compare.modes.mask': 'Mask overlay',
+  'compare.backdrop': 'Backdrop',
+  'compare.backdrops.checker': 'Checker',
+  'compare.backdrops.black': 'Black',
+  'compare.backdrops.white': 'White',
+  'compare.backdrops.custom': 'Custom',
+  'compare.original': 'Original',
+  'compare.mask': 'Mask',
+  'compare.hints.split': 'Drag the divider to compare original and result; scroll to zoom, drag to pan',
+  'compare.hints.mask': 'Red areas were removed; the darker the red, the more completely',
+
+  // 蒙版编辑
+  'maskEditor.tools.keep': 'Keep',
+  'maskEditor.tools.erase': 'Erase',
+  'maskEditor.tools.pan': 'Pan',
+  'maskEditor.brushSize': 'Brush size',
+  'maskEditor.hardness': 'Hardness',
+  'maskEditor.undo': 'Undo (Ctrl+Z)',
+  'maskEditor.redo': 'Redo (Ctrl+Shift+Z)',
+  'maskEditor.hint': 'Semi-transparent areas are removed background. Scroll to zoom; hold Space or use the pan tool to move around.',
+  'maskEditor.discard': 'Discard changes',
+  'maskEditor.apply': 'Apply changes',
+  'maskEditor.errors.export': 'Failed to export the mask',
+
+  // 主体选择
+  'subjects.tools.include': 'Select',
+  'subjects.tools.exclude': 'Exclude',
+  'subjects.tools.box': 'Box',
+  'subjects.undo': 'Undo last step',
+  'subjects.clear': 'Clear all marks',
+  'subjects.segment': 'Re-infer inside box',
+  'subjects.segmentHint': 'When subjects touch, run inference again on the boxed area only',
+  'subjects.restore': 'Restore original mask',
+  'subjects.selected': '{selected} of {total, plural, one {# subject} other {# subjects}} selected',
+  'subjects.hint': 'Click a subject to select it, Shift-click to exclude it; a box keeps subjects that lie mostly inside it. Red marks unselected subjects and dark marks background.',
+  'subjects.exportEach': 'Export separately',
+  'subjects.apply': 'Keep selected subjects only',
+  'subjects.errors.load': 'Failed to load the image or mask',
+  'subjects.errors.segment': 'Inference on the boxed area failed. Please try again',
+  'subjects.errors.apply': 'Failed to apply the selection. Please try again',
+  'subjects.errors.export': 'Export failed. Please try again',
+
+  // 可嵌入的去背景组件
+  'remover.reset': 'Choose another',
+
+  // 错误与恢复操作
+  'errors.UNSUPPORTED_FORMAT.message': 'Unsupported file format',
+  'errors.UNSUPPORTED_FORMAT.hint': 'Please choose a common image format such as JPG, PNG or WEBP',
+  'errors.FILE_TOO_LARGE.message': 'File too large',
+  'errors.FILE_TOO_LARGE.hint': 'Image files must not exceed 100MB; please compress the image and try again',
+  'errors.DECODE_FAILED.message': 'Failed to decode the image',
+  'errors.DECODE_FAILED.hint': 'The file may be corrupted, or the browser may not support its encoding (such as HEIC or CMYK JPEG); convert it to PNG or JPG and try again',
+  'errors.MODEL_FETCH_FAILED.message': 'Failed to download the AI model',
+  'errors.MODEL_FETCH_FAILED.hint': 'Check your network connection, or make sure the model resource URL in settings is reachable',
+  'errors.OUT_OF_MEMORY.message': 'Out of memory',
+  'errors.OUT_OF_MEMORY.hint': 'The image resolution is too high or the device is low on memory; try a smaller image, a lighter model, or closing other tabs',
+  'errors.DEVICE_UNAVAILABLE.message': 'GPU acceleration unavailable',
+  'errors.DEVICE_UNAVAILABLE.hint': 'This browser or graphics card cannot run WebGPU inference; switching to the CPU usually works',
+  'errors.CANCELLED.message': 'Processing cancelled',
+  'errors.CANCELLED.hint': '',
+  'errors.UNKNOWN.message': 'Background removal failed. Please try again',
+  'errors.UNKNOWN.hint': '',
+  'recovery.retry': 'Retry',
+  'recovery.retry-on-cpu': 'Retry on CPU',
+  'recovery.downscale': 'Downscale and retry',
+  'recovery.reload-model': 'Reload model',
+  'recovery.open-settings': 'Check model resource URL',
+  'recovery.choose-another': 'Choose another file',
+
+  // 处理阶段
+  'stages.download': 'Downloading model',
+  'stages.decode': 'Decoding image',
+  'stages.inference': 'AI inference',
+  'stages.upsample': 'Upscaling mask',
+  'stages.compose': 'Compositing',
+  'stages.encode': 'Encoding output',
+
+  // 模型
+  'models.isnet.label': 'Standard',
+  'models.isnet.desc': 'Balanced speed and quality',
+  'models.isnet_fp16.label': 'Optimized',
+  'models.isnet_fp16.desc': 'Recommended, faster',
+  'models.isnet_quint8.label': 'Lightweight',
+  'models.isnet_quint8.desc': 'Fastest',
+
+  // 输出格式
+  'formats.png.label': 'PNG',
+  'formats.png.desc': 'Lossless, supports transparency',
+  'formats.jpeg.label': 'JPEG',
+  'formats.jpeg.desc': 'Small files, no transparency',
+  'formats.webp.label': 'WebP',
+  'formats.webp.desc': 'Small files, supports transparency',
+  'formats.avif.label': 'AVIF',
+  'formats.avif.desc': 'Best compression, supports transparency',
+  'formats.svg.label': 'SVG outline',
+  'formats.svg.desc': 'Vector path of the subject outline, usable as a die line',
+  'formats.psd.label': 'Layered PSD',
+  'formats.psd.desc': 'Original, cutout and mask as separate layers',
+  'formats.tiff.label': 'Multi-page TIFF',
+  'formats.tiff.desc': 'Original, cutout and mask as separate pages',
+
+  // 大图处理模式
+  'largeImage.fast.label': 'Fast preview',
+  'largeImage.fast.desc': 'Low-resolution inference, faster and lighter on memory',
+  'largeImage.full.label': 'Full quality',
+  'largeImage.full.desc': 'Inference close to the original resolution for finer edges',
+
+  // 裁剪预设
+  'crop.presets.trim.label': 'Fit subject',
+  'crop.presets.trim.desc': 'Crop to the subject bounds',
+  'crop.presets.square.label': '1:1 product photo',
+  'crop.presets.portrait.label': '4:5 social media',
+  'crop.presets.story.label': '9:16 vertical',
+  'crop.presets.passport-cn.label': 'Passport 33×48mm',
+  'crop.presets.passport-eu.label': 'ID photo 35×45mm',
+  'crop.presets.passport-us.label': 'US passport 2×2in',
+
+  // 描边位置
+  'effects.outline.outside': 'Outside',
+  'effects.outline.center': 'Center',
+  'effects.outline.inside': 'Inside',
+
+  // 图片输入
+  'input.errors.invalidUrl': 'Please enter an image URL starting with http:// or https://',
+  'input.errors.fetchBlocked': 'Unable to fetch the image: the site does not allow cross-origin access (CORS) or the network is unavailable. Please download it and upload the file instead',
+  'input.errors.httpStatus': 'Failed to download the image (HTTP {status})',
+  'input.errors.notImage': 'The URL did not return an image',
+  'input.errors.clipboardUnsupported': 'This browser cannot copy images to the clipboard',
+  'input.errors.unreadable': 'Unable to read the image; the file may be corrupted',
+
+  // 预设与设置链接校验
+  'presets.issues.invalidFile': 'Invalid preset file:\n{issues}',
+  'presets.issues.boolean': 'a boolean',
+  'presets.issues.color': 'a color in #RRGGBB format',
+  'presets.issues.numberRange': 'a number between {min} and {max}',
+  'presets.issues.notObject': '{path}: must be an object',
+  'presets.issues.unknownField': '{path}: unknown field',
+  'presets.issues.invalidValue': '{path}: invalid value {value}, expected {expected}',
+  'presets.issues.invalidJson': 'The file is not valid JSON',
+  'presets.issues.fileNotObject': 'The file content must be an object',
+  'presets.issues.format': 'format: must be "{format}"',
+  'presets.issues.version': 'version: unsupported version {version}',
+  'presets.issues.presetsNotArray': 'presets: must be an array',
+  'presets.issues.emptyName': '{path}: must be a non-empty string',
+  'shareLink.unparsable': 'The settings in the link cannot be parsed; the link may be incomplete',
+  'shareLink.invalid': 'The settings in the link are invalid: {issues}',
+
+  // 历史记录存储
+  'history.errors.open': 'Unable to open the history database',
+  'history.errors.request': 'History operation failed',
+
+  // 模型资源与离线缓存
+  'offline.title': 'Model resources',
+  'offline.resetPath': 'Restore default path',
+  'offline.pathHint': 'Where model and WASM files are loaded from. Defaults to this site; an intranet server or CDN URL also works',
+  'offline.unsupported': 'This browser does not support offline caching (requires HTTPS or localhost)',
+  'offline.available': 'Available offline · {size}',
+  'offline.partial': 'Cached {cached} / {total}',
+  'offline.notDownloaded': 'Not downloaded · {size}',
+  'offline.evict': 'Remove from offline cache',
+  'offline.download': 'Download for offline use',
+  'offline.hint': 'The model in use is cached automatically once loaded; offline, the page and cached models keep working',
+  'offline.errors.readCache': 'Unable to read the model cache',
+  'offline.errors.download': 'Failed to download the model',
+  'offline.errors.evict': 'Failed to remove the model',
+  'offline.errors.missingResource': '{key} is missing from the resource directory; please check the model resource path',
+  'offline.errors.manifest': 'Unable to fetch the model resource manifest; please check the model resource path',
+  'offline.errors.httpStatus': 'Failed to download model resources (HTTP {status})',
+
+  // 性能对比
+  'benchmark.toggle': 'Benchmark',
+  'benchmark.title': 'Model and device benchmark',
+  'benchmark.images': 'Test images',
+  'benchmark.chooseImages': 'Choose images',
+  'benchmark.useQueue': 'Use queued images ({count})',
+  'benchmark.noImages': 'No images selected',
+  'benchmark.nameSeparator': ', ',
+  'benchmark.models': 'Models',
+  'benchmark.modelOption': '{label} ({value})',
+  'benchmark.devices': 'Devices',
+  'benchmark.webgpuUnsupported': '(WebGPU not supported)',
+  'benchmark.start': 'Start ({combos, plural, one {# combination} other {# combinations}} × {images, plural, one {# image} other {# images}})',
+  'benchmark.stop': 'Stop',
+  'benchmark.disabled': 'Benchmarks can start once the model has loaded and the queue has finished',
+  'benchmark.exportCsv': 'Export CSV',
+  'benchmark.exportJson': 'Export JSON',
+  'benchmark.columns.reference': 'Reference',
+  'benchmark.columns.model': 'Model',
+  'benchmark.columns.device': 'Device',
+  'benchmark.columns.load': 'Model load',
+  'benchmark.columns.inference': 'Inference',
+  'benchmark.columns.outputSize': 'Output size',
+  'benchmark.columns.meanDiff': 'Mean difference',
+  'benchmark.columns.changedRatio': 'Changed pixels',
+  'benchmark.referenceTag': '(reference)',
+  'benchmark.maskAlt': '{model} mask',
+  'benchmark.heatmapAlt': '{model} difference heatmap',
+  'benchmark.noResult': 'No result',
+  'benchmark.diffTitle': 'Difference from reference',
+  'benchmark.note': 'Each combination restarts the inference worker, so model load time is a cold start (excluding downloads when the model is already cached); output size uses the current output settings. Brighter areas in the heatmap differ more from the reference mask.',
+  'benchmark.status.done': '{count, plural, one {Finished # test} other {Finished # tests}}',
+  'benchmark.status.cancelled': 'Benchmark cancelled',
+  'benchmark.status.failed': 'Benchmark failed',
+  'benchmark.status.loading': '[{index}/{total}] Loading {label}',
+  'benchmark.status.processing': '[{index}/{total}] {label} processing {filename}',
+  'benchmark.errors.load': 'Failed to load the model',
+  'benchmark.errors.process': 'Processing failed',
+  'benchmark.errors.maskSize': 'Mask sizes differ and cannot be compared',
+
+  // 视频与动图
+  'animation.title.video': 'Video background removal',
+  'animation.title.animated': 'Animated image background removal',
+  'animation.source.video': 'Original video',
+  'animation.source.animated': 'Original animation',
+  'animation.frames': '{count, plural, one {# frame} other {# frames}}',
+  'animation.truncated': 'More than {max} frames; only the first {max} will be processed',
+  'animation.currentFrame': 'Frame {current} / {total}',
+  'animation.notProcessed': 'Not processed yet',
+  'animation.fps': 'Sampling frame rate',
+  'animation.smoothing': 'Temporal smoothing',
+  'animation.smoothingFrames': '{count, plural, one {# frame} other {# frames}} each side',
+  'animation.smoothingHint': 'Uses masks from neighboring frames to reduce edge flicker; areas with clear motion are unaffected',
+  'animation.progress': 'Inferred {inferred} / {total} · Composited {rendered} / {total} frames',
+  'animation.start': 'Start processing',
+  'animation.restart': 'Process again',
+  'animation.export': 'Export',
+  'animation.exporting': 'Exporting {done} / {total}',
+  'animation.errors.read': 'Unable to read this file',
+  'animation.errors.process': 'Processing failed. Please try again',
+  'animation.formats.webm.label': 'WebM',
+  'animation.formats.webm.desc': 'Transparent video, requires Chrome/Edge, recorded in real time',
+  'animation.formats.webp.label': 'Animated WebP',
+  'animation.formats.webp.desc': 'Supports partial transparency, small files',
+  'animation.formats.gif.label': 'GIF',
+  'animation.formats.gif.desc': 'Best compatibility, fully transparent or opaque pixels only',
+  'animation.formats.png-zip.label': 'PNG sequence',
+  'animation.formats.png-zip.desc': 'Lossless frames packed into a ZIP',
+  'animation.errors.webmUnsupported': 'This browser cannot record WebM video',
+  'animation.errors.webpInvalid': 'The WebP generated by the browser could not be read',
+  'animation.errors.videoDecode': 'Failed to decode the video; the browser may not support this format',
+  'animation.errors.animatedUnsupported': 'This browser cannot decode animated images; please use the latest Chrome or Edge',
+  'animation.errors.animatedDecode': 'Failed to decode the animation; the file may be corrupted',
+
+  // 摄像头
+  'webcam.title': 'Live camera background removal',
+  'webcam.fps': '{render} FPS · mask {mask} FPS',
+  'webcam.inference': 'inference {duration}',
+  'webcam.paused': 'Model loading or busy with other images; background removal paused',
+  'webcam.snapshot': 'Take photo and export',
+  'webcam.quality': 'Quality',
+  'webcam.modelHint': 'Uses the currently selected {model} model; the faster the inference, the more often the mask refreshes',
+  'webcam.quality.speed.label': 'Smooth',
+  'webcam.quality.speed.desc': '640×360, coarser mask',
+  'webcam.quality.balanced.label': 'Balanced',
+  'webcam.quality.balanced.desc': '1280×720, recommended',
+  'webcam.quality.quality.label': 'Sharp',
+  'webcam.quality.quality.desc': '1920×1080, needs a fast device',
+  'webcam.errors.unsupported': 'This browser cannot access the camera; please open the page over HTTPS or on localhost',
+  'webcam.errors.denied': 'Camera permission was denied; please allow camera access in the address bar',
+  'webcam.errors.notFound': 'No camera found',
+  'webcam.errors.busy': 'The camera is in use by another application',
+  'webcam.errors.failed': 'Unable to open the camera',
+  'webcam.errors.inference': 'Live inference failed',
+  'webcam.errors.snapshot': 'Failed to take the photo. Please try again',
+};
+
+export default en;
@@ -0,0 +1,507 @@
+// 简体中文消息目录，也是所有消息键的来源；其他语言必须提供相同的键
+// 占位符写作 {name}，复数写作 {count, plural, one {...} other {...}}
+
+const zhCN = {
+  // 通用
+  'common.cancel': '取消',
+  'common.back': '返回',
+  'common.aboutSeconds': '约 {seconds} 秒',
+  'common.off': '关闭',
+  'common.resetAll': '全部重置',
+  'common.unknown': '未知',
+  'common.foregroundOnly': '仅在输出类型为“前景”时可用',
+  'common.listSeparator': '；',
+  'common.errors.canvasContext': '无法创建画布上下文',
+  'common.errors.imageLoad': '图片加载失败',
+
+  // 界面语言
+  'language.label': '界面语言',
+
+  // 主页面
+  'app.documentTitle': '图片背景去除工具',
+  'app.title': 'AI背景去除工具',
+  'app.subtitle': '使用先进的AI技术，精准识别并去除图片背景。支持人物、物体、动物等多种场景，一键生成透明背景图片',
+  'app.loadingModel': '正在加载AI模型 ({model})... {progress}',
+  'app.upload.title': '拖拽图片到这里或点击上传',
+  'app.upload.desc': '支持 JPG、PNG、WEBP 格式，文件大小不超过 100MB，可一次选择多张图片批量处理，也可以直接 Ctrl+V 粘贴图片；视频（WebM/MP4）和 GIF/WebP 动图会逐帧去背景',
+  'app.upload.choose': '选择图片',
+  'app.upload.webcam': '使用摄像头',
+  'app.upload.urlPlaceholder': '粘贴图片地址，例如 https://example.com/photo.jpg',
+  'app.upload.loadUrl': '加载图片',
+  'app.processing.title': 'AI正在处理图片...',
+  'app.processing.desc.foreground': '正在使用 {model} 模型进行背景去除',
+  'app.processing.desc.background': '正在使用 {model} 模型进行背景提取',
+  'app.processing.desc.mask': '正在使用 {model} 模型进行蒙版生成',
+  'app.processing.preparing': '准备中',
+  'app.processing.cancel': '取消处理',
+  'app.results.title': '处理结果',
+  'app.results.selectSubject': '选择主体',
+  'app.results.editMask': '精修蒙版',
+  'app.results.back': '返回列表',
+  'app.results.copy': '复制图片',
+  'app.results.copied': '已复制',
+  'app.results.download': '下载图片',
+  'app.results.reset': '重新处理',
+  'app.resultLabel.foreground': '去背景后',
+  'app.resultLabel.background': '背景部分',
+  'app.resultLabel.mask': '蒙版图像',
+  'app.info.title': '当前配置',
+  'app.info.model': '模型',
+  'app.info.device': '设备',
+  'app.info.deviceFallback': '（{device} 不可用，已降级）',
+  'app.info.format': '格式',
+  'app.info.quality': '质量',
+  'app.info.loadTime': '模型加载',
+  'app.info.inferenceTime': '推理耗时',
+  'app.info.threads': '推理线程',
+  'app.features.ai.title': 'AI智能识别',
+  'app.features.ai.desc': '采用最新的深度学习算法，精准识别图片中的主体和背景，支持复杂场景处理',
+  'app.features.config.title': '灵活配置',
+  'app.features.config.desc': '支持多种AI模型、输出格式和处理模式，满足不同场景的需求',
+  'app.features.quality.title': '高质量输出',
+  'app.features.quality.desc': '保持原图分辨率和质量，支持PNG、JPEG、WebP多种格式输出',
+  'app.errors.invalidImage': '请选择有效的图片文件（JPG、PNG、WEBP等）',
+  'app.errors.fileTooLarge': '图片文件大小不能超过100MB',
+  'app.errors.wasmSimd': '当前浏览器不支持 WebAssembly SIMD，无法运行AI模型，请升级浏览器',
+  'app.errors.historySave': '历史记录保存失败，存储空间可能不足',
+  'app.errors.render': '生成结果失败，请重试',
+  'app.errors.singleAnimation': '视频或动图需要单独处理，请一次只选择一个',
+  'app.errors.fetchImage': '无法获取图片',
+  'app.errors.export': '导出失败，请重试',
+  'app.errors.zip': '打包下载失败，请重试',
+  'app.errors.copy': '复制失败，请重试',
+
+  // 设置面板
+  'config.toggle': '设置',
+  'config.title': 'AI处理设置',
+  'config.device.title': '处理设备',
+  'config.device.gpuUnsupported': '当前浏览器不支持WebGPU',
+  'config.device.usingCpu': '当前浏览器不支持WebGPU，将使用CPU处理',
+  'config.device.gpuDisabled': '当前浏览器不支持WebGPU，GPU模式不可用',
+  'config.device.hint': 'GPU模式需要浏览器支持WebGPU，否则自动降级到CPU',
+  'config.capabilities.wasmSimdMissing': '无法运行模型',
+  'config.capabilities.threads': '多线程',
+  'config.capabilities.threadCount': '{count} 线程',
+  'config.capabilities.notIsolated': '页面未跨源隔离，单线程运行',
+  'config.capabilities.memory': '内存',
+  'config.capabilities.memoryAmount': '约 {amount} GB',
+  'config.model.title': 'AI模型',
+  'config.model.lowMemory': '设备内存不超过 {amount} GB，标准模型和完整质量大图处理已禁用',
+  'config.largeImage.title': '大图处理',
+  'config.largeImage.confirm': '处理前显示预估并询问',
+  'config.largeImage.hint': '超过约 4MP 的图片在较低分辨率下推理，再按原图边缘放大蒙版，输出保持原始分辨率',
+  'config.output.format': '输出格式',
+  'config.output.noAlpha': '{format} 不支持透明度，透明区域将填充为底色',
+  'config.output.matte': '底色',
+  'config.output.metadata': '写入处理信息',
+  'config.output.metadataHint': '记录模型、配置和原图哈希，便于追溯和复现；PNG、JPEG、WebP、SVG 写入文件内，其他格式附带同名 JSON 文件',
+  'config.outputType.title': '输出类型',
+  'config.outputType.foreground.label': '前景（去背景）',
+  'config.outputType.foreground.desc': '保留主体，移除背景',
+  'config.outputType.background.label': '背景',
+  'config.outputType.background.desc': '仅保留背景部分',
+  'config.outputType.mask.label': '蒙版',
+  'config.outputType.mask.desc': '黑白蒙版图像',
+  'config.quality.title': '输出质量: {quality}',
+  'config.quality.unused': '（{format} 不使用）',
+  'config.quality.low': '低质量',
+  'config.quality.high': '高质量',
+  'config.debug.title': '调试模式',
+  'config.debug.hint': '在控制台显示详细的处理信息',
+
+  // 配置预设
+  'presets.title': '配置预设',
+  'presets.namePlaceholder': '预设名称',
+  'presets.confirm': '确定',
+  'presets.none': '未选择预设',
+  'presets.saveAs': '另存为新预设',
+  'presets.save': '保存当前设置到预设',
+  'presets.rename': '重命名',
+  'presets.delete': '删除',
+  'presets.modified': '当前设置与预设不同，点击保存按钮更新预设',
+  'presets.import': '导入 JSON',
+  'presets.export': '导出 JSON',
+  'presets.copyLink': '复制设置链接',
+  'presets.hint': '预设和设置链接不包含上传的背景图片',
+  'presets.duplicate': '已存在名为「{name}」的预设',
+  'presets.confirmDelete': '确定要删除预设「{name}」吗？',
+  'presets.imported': '已导入 {count} 个预设',
+  'presets.readFailed': '读取预设文件失败',
+  'presets.linkCopied': '已复制设置链接',
+  'presets.linkCopyFailed': '复制链接失败，请检查剪贴板权限',
+
+  // 替换背景
+  'background.title': '替换背景',
+  'background.modes.none': '透明',
+  'background.modes.color': '纯色',
+  'background.modes.gradient': '渐变',
+  'background.modes.blur': '模糊',
+  'background.modes.image': '图片',
+  'background.fits.cover': '填充',
+  'background.fits.contain': '适应',
+  'background.fits.stretch': '拉伸',
+  'background.color': '背景颜色',
+  'background.gradientFrom': '起始颜色',
+  'background.gradientTo': '结束颜色',
+  'background.gradientAngle': '渐变角度: {angle}°',
+  'background.blurRadius': '模糊半径: {radius}px',
+  'background.changeImage': '更换背景图片',
+  'background.uploadImage': '上传背景图片',
+  'background.subjectScale': '主体缩放: {value}',
+  'background.offsetX': '水平位置: {value}',
+  'background.offsetY': '垂直位置: {value}',
+  'background.resetPlacement': '重置位置',
+
+  // 蒙版后处理
+  'refinement.title': '蒙版后处理',
+  'refinement.unchanged': '不变',
+  'refinement.threshold.label': '透明度阈值',
+  'refinement.threshold.desc': '高于阈值为前景，其余为背景，得到硬边缘',
+  'refinement.featherRadius.label': '边缘羽化',
+  'refinement.featherRadius.desc': '柔化蒙版边缘',
+  'refinement.edgeShift.label': '边缘扩展/收缩',
+  'refinement.edgeShift.desc': '正值扩大主体范围，负值收缩以去除残留背景',
+  'refinement.minIslandSize.label': '移除孤立区域',
+  'refinement.minIslandSize.desc': '移除面积小于图片该比例的零散前景',
+  'refinement.despill.label': '边缘颜色净化',
+  'refinement.despill.desc': '去除半透明边缘中混入的背景色（仅前景输出）',
+  'refinement.hint': '调整后会基于已有蒙版实时预览，无需重新运行AI推理',
+
+  // 自动裁剪
+  'crop.title': '自动裁剪',
+  'crop.padding': '留白',
+  'crop.center': '主体居中',
+  'crop.resize': '缩放到 {width}×{height}',
+  'crop.hint': '根据蒙版裁掉多余的透明区域，在编码输出前生效',
+
+  // 阴影与描边
+  'effects.title': '阴影与描边',
+  'effects.shadow.title': '投影',
+  'effects.floorShadow.title': '地面阴影',
+  'effects.outline.title': '描边',
+  'effects.offsetX': '水平偏移',
+  'effects.offsetY': '垂直偏移',
+  'effects.blur': '模糊',
+  'effects.opacity': '不透明度',
+  'effects.width': '宽度',
+  'effects.height': '高度',
+  'effects.shadowColor': '阴影颜色',
+  'effects.outlineColor': '描边颜色',
+  'effects.hint': '根据蒙版生成，在结果预览和导出的图片中生效；开启自动裁剪时会为阴影和描边留出空间',
+
+  // 批量处理
+  'batch.title': '批量处理队列',
+  'batch.summary': '共 {total} 张，已完成 {done} 张，失败 {failed} 张',
+  'batch.downloadZip': '下载全部（ZIP）',
+  'batch.retryFailed': '重试失败项',
+  'batch.clear': '清空队列',
+  'batch.includeMask': '包含蒙版',
+  'batch.includeOriginal': '包含原图',
+  'batch.view': '查看结果',
+  'batch.remove': '移除',
+  'batch.status.pending': '等待中',
+  'batch.status.confirm': '大图待确认',
+  'batch.status.processing': '处理中',
+  'batch.status.done': '已完成',
+  'batch.status.failed': '失败',
+
+  // 大图提示
+  'largeImage.title': '这是一张大图',
+  'largeImage.summary': '{filename} · {width}×{height}（{megapixels} MP）',
+  'largeImage.workingSize': '推理分辨率',
+  'largeImage.memory': '预计内存',
+  'largeImage.duration': '预计耗时',
+  'largeImage.note': '两种模式都以原始分辨率输出，预估值仅供参考，实际取决于设备性能',
+
+  // 历史记录
+  'history.toggle': '历史记录',
+  'history.title': '处理历史',
+  'history.search': '按文件名搜索',
+  'history.empty': '暂无历史记录',
+  'history.noMatch': '没有匹配的记录',
+  'history.reopen': '重新打开',
+  'history.delete': '删除',
+  'history.storage': '存储空间',
+  'history.clear': '清空全部历史记录',
+  'history.confirmClear': '确定要清空全部历史记录吗？',
+  'history.errors.load': '历史记录加载失败',
+  'history.errors.delete': '删除失败，请重试',
+  'history.errors.clear': '清空失败，请重试',
+
+  // 画布视图
+  'viewer.zoomIn': '放大',
+  'viewer.zoomOut': '缩小',
+  'viewer.actualSize': '实际像素 (1:1)',
+  'viewer.fit': '适应窗口',
+
+  // 对比视图
+  'compare.modes.split': '滑动对比',
+  'compare.modes.mask': '蒙版叠加',
+  'compare.backdrop': '背景',
+  'compare.backdrops.checker': '棋盘格',
+  'compare.backdrops.black': '黑色',
+  'compare.backdrops.white': '白色',
+  'compare.backdrops.custom': '自定义',
+  'compare.original': '原始图片',
+  'compare.mask': '蒙版',
+  'compare.hints.split': '拖动分割线对比原图与结果，滚轮缩放，拖动画面平移',
+  'compare.hints.mask': '红色区域为被移除的部分，颜色越深移除越彻底',
+
+  // 蒙版编辑
+  'maskEditor.tools.keep': '保留',
+  'maskEditor.tools.erase': '擦除',
+  'maskEditor.tools.pan': '移动',
+  'maskEditor.brushSize': '笔刷大小',
+  'maskEditor.hardness': '硬度',
+  'maskEditor.undo': '撤销 (Ctrl+Z)',
+  'maskEditor.redo': '重做 (Ctrl+Shift+Z)',
+  'maskEditor.hint': '半透明区域为已移除的背景。滚轮缩放，按住空格或使用移动工具拖动画面。',
+  'maskEditor.discard': '放弃修改',
+  'maskEditor.apply': '应用修改',
+  'maskEditor.errors.export': '蒙版导出失败',
+
+  // 主体选择
+  'subjects.tools.include': '选择',
+  'subjects.tools.exclude': '排除',
+  'subjects.tools.box': '框选',
+  'subjects.undo': '撤销上一步',
+  'subjects.clear': '清除所有标记',
+  'subjects.segment': '框内重新推理',
+  'subjects.segmentHint': '主体相互接触时，只对框内区域重新推理',
+  'subjects.restore': '恢复原蒙版',
+  'subjects.selected': '已选择 {selected} / {total} 个主体',
+  'subjects.hint': '点击主体进行选择，按住 Shift 点击为排除；框选时保留大部分位于框内的主体。红色为未选中的主体，暗色为背景。',
+  'subjects.exportEach': '分别导出',
+  'subjects.apply': '只保留所选主体',
+  'subjects.errors.load': '图片或蒙版加载失败',
+  'subjects.errors.segment': '框选区域推理失败，请重试',
+  'subjects.errors.apply': '应用选择失败，请重试',
+  'subjects.errors.export': '导出失败，请重试',
+
+  // 可嵌入的去背景组件
+  'remover.reset': '重新选择',
+
+  // 错误与恢复操作
+  'errors.UNSUPPORTED_FORMAT.message': '不支持的文件格式',
+  'errors.UNSUPPORTED_FORMAT.hint': '请选择 JPG、PNG、WEBP 等常见图片格式',
+  'errors.FILE_TOO_LARGE.message': '文件过大',
+  'errors.FILE_TOO_LARGE.hint': '图片文件不能超过 100MB，请压缩后再试',
+  'errors.DECODE_FAILED.message': '图片解码失败',
+  'errors.DECODE_FAILED.hint': '文件可能已损坏，或浏览器不支持该编码（例如 HEIC、CMYK 色彩的 JPEG），请转换为 PNG 或 JPG 后再试',
+  'errors.MODEL_FETCH_FAILED.message': 'AI模型下载失败',
+  'errors.MODEL_FETCH_FAILED.hint': '请检查网络连接，或在设置中确认模型资源地址可以访问',
+  'errors.OUT_OF_MEMORY.message': '内存不足',
+  'errors.OUT_OF_MEMORY.hint': '图片分辨率过高或设备可用内存不足，可以缩小图片、改用轻量模型或关闭其他标签页后重试',
+  'errors.DEVICE_UNAVAILABLE.message': 'GPU 加速不可用',
+  'errors.DEVICE_UNAVAILABLE.hint': '当前浏览器或显卡无法完成 WebGPU 推理，改用 CPU 通常可以正常处理',
+  'errors.CANCELLED.message': '处理已取消',
+  'errors.CANCELLED.hint': '',
+  'errors.UNKNOWN.message': '背景去除失败，请重试',
+  'errors.UNKNOWN.hint': '',
+  'recovery.retry': '重试',
+  'recovery.retry-on-cpu': '改用 CPU 重试',
+  'recovery.downscale': '缩小图片后重试',
+  'recovery.reload-model': '重新加载模型',
+  'recovery.open-settings': '检查模型资源地址',
+  'recovery.choose-another': '重新选择文件',
+
+  // 处理阶段
+  'stages.download': '下载模型',
+  'stages.decode': '解码图片',
+  'stages.inference': 'AI推理',
+  'stages.upsample': '放大蒙版',
+  'stages.compose': '合成结果',
+  'stages.encode': '编码输出',
+
+  // 模型
+  'models.isnet.label': '标准模型',
+  'models.isnet.desc': '平衡速度和质量',
+  'models.isnet_fp16.label': '优化模型',
+  'models.isnet_fp16.desc': '推荐，更快处理',
+  'models.isnet_quint8.label': '轻量模型',
+  'models.isnet_quint8.desc': '最快速度',
+
+  // 输出格式
+  'formats.png.label': 'PNG',
+  'formats.png.desc': '无损，支持透明',
+  'formats.jpeg.label': 'JPEG',
+  'formats.jpeg.desc': '体积小，不支持透明',
+  'formats.webp.label': 'WebP',
+  'formats.webp.desc': '体积小，支持透明',
+  'formats.avif.label': 'AVIF',
+  'formats.avif.desc': '压缩率最高，支持透明',
+  'formats.svg.label': 'SVG 轮廓',
+  'formats.svg.desc': '主体轮廓的矢量路径，可作为印刷刀线',
+  'formats.psd.label': 'PSD 分层',
+  'formats.psd.desc': '原图、抠图、蒙版分别为独立图层',
+  'formats.tiff.label': 'TIFF 多页',
+  'formats.tiff.desc': '原图、抠图、蒙版分别为独立页面',
+
+  // 大图处理模式
+  'largeImage.fast.label': '快速预览',
+  'largeImage.fast.desc': '低分辨率推理，速度快、占用内存少',
+  'largeImage.full.label': '完整质量',
+  'largeImage.full.desc': '尽量以原始分辨率推理，边缘更精细',
+
+  // 裁剪预设
+  'crop.presets.trim.label': '贴合主体',
+  'crop.presets.trim.desc': '裁剪到主体边界',
+  'crop.presets.square.label': '1:1 电商主图',
+  'crop.presets.portrait.label': '4:5 社交媒体',
+  'crop.presets.story.label': '9:16 竖屏',
+  'crop.presets.passport-cn.label': '护照 33×48mm',
+  'crop.presets.passport-eu.label': '证件照 35×45mm',
+  'crop.presets.passport-us.label': '美国护照 2×2in',
+
+  // 描边位置
+  'effects.outline.outside': '外侧',
+  'effects.outline.center': '居中',
+  'effects.outline.inside': '内侧',
+
+  // 图片输入
+  'input.errors.invalidUrl': '请输入以 http:// 或 https:// 开头的图片地址',
+  'input.errors.fetchBlocked': '无法获取图片：目标网站不允许跨域访问（CORS）或网络不可用，请下载后再上传',
+  'input.errors.httpStatus': '下载图片失败（HTTP {status}）',
+  'input.errors.notImage': '该地址返回的不是图片',
+  'input.errors.clipboardUnsupported': '当前浏览器不支持复制图片到剪贴板',
+  'input.errors.unreadable': '无法读取图片，文件可能已损坏',
+
+  // 预设与设置链接校验
+  'presets.issues.invalidFile': '预设文件无效：\n{issues}',
+  'presets.issues.boolean': '布尔值',
+  'presets.issues.color': '#RRGGBB 格式的颜色',
+  'presets.issues.numberRange': '{min} ~ {max} 之间的数字',
+  'presets.issues.notObject': '{path}: 应为对象',
+  'presets.issues.unknownField': '{path}: 未知字段',
+  'presets.issues.invalidValue': '{path}: 无效的值 {value}，应为 {expected}',
+  'presets.issues.invalidJson': '文件不是有效的 JSON',
+  'presets.issues.fileNotObject': '文件内容应为对象',
+  'presets.issues.format': 'format: 应为 "{format}"',
+  'presets.issues.version': 'version: 不支持的版本 {version}',
+  'presets.issues.presetsNotArray': 'presets: 应为数组',
+  'presets.issues.emptyName': '{path}: 应为非空字符串',
+  'shareLink.unparsable': '链接中的配置无法解析，链接可能不完整',
+  'shareLink.invalid': '链接中的配置无效：{issues}',
+
+  // 历史记录存储
+  'history.errors.open': '无法打开历史记录数据库',
+  'history.errors.request': '历史记录操作失败',
+
+  // 模型资源与离线缓存
+  'offline.title': '模型资源',
+  'offline.resetPath': '恢复默认路径',
+  'offline.pathHint': '模型与 WASM 文件的地址，默认从本站加载；也可以填写内网服务器或 CDN 地址',
+  'offline.unsupported': '当前浏览器不支持离线缓存（需要 HTTPS 或 localhost）',
+  'offline.available': '可离线使用 · {size}',
+  'offline.partial': '已缓存 {cached} / {total}',
+  'offline.notDownloaded': '未下载 · {size}',
+  'offline.evict': '从离线缓存中移除',
+  'offline.download': '下载以便离线使用',
+  'offline.hint': '当前使用的模型加载后会自动缓存；离线时页面和已缓存的模型仍可使用',
+  'offline.errors.readCache': '无法读取模型缓存',
+  'offline.errors.download': '下载模型失败',
+  'offline.errors.evict': '移除模型失败',
+  'offline.errors.missingResource': '资源目录中缺少 {key}，请确认模型资源路径是否正确',
+  'offline.errors.manifest': '无法获取模型资源清单，请确认模型资源路径是否正确',
+  'offline.errors.httpStatus': '下载模型资源失败（HTTP {status}）',
+
+  // 性能对比
+  'benchmark.toggle': '性能对比',
+  'benchmark.title': '模型与设备性能对比',
+  'benchmark.images': '测试图片',
+  'benchmark.chooseImages': '选择图片',
+  'benchmark.useQueue': '使用队列中的图片（{count}）',
+  'benchmark.noImages': '未选择图片',
+  'benchmark.nameSeparator': '、',
+  'benchmark.models': '模型',
+  'benchmark.modelOption': '{label}（{value}）',
+  'benchmark.devices': '设备',
+  'benchmark.webgpuUnsupported': '（不支持WebGPU）',
+  'benchmark.start': '开始测试（{combos} 个组合 × {images} 张）',
+  'benchmark.stop': '停止测试',
+  'benchmark.disabled': '模型加载或队列处理完成后才能开始测试',
+  'benchmark.exportCsv': '导出 CSV',
+  'benchmark.exportJson': '导出 JSON',
+  'benchmark.columns.reference': '参考',
+  'benchmark.columns.model': '模型',
+  'benchmark.columns.device': '设备',
+  'benchmark.columns.load': '模型加载',
+  'benchmark.columns.inference': '推理耗时',
+  'benchmark.columns.outputSize': '输出大小',
+  'benchmark.columns.meanDiff': '平均差异',
+  'benchmark.columns.changedRatio': '差异像素',
+  'benchmark.referenceTag': '（参考）',
+  'benchmark.maskAlt': '{model} 蒙版',
+  'benchmark.heatmapAlt': '{model} 差异热力图',
+  'benchmark.noResult': '无结果',
+  'benchmark.diffTitle': '与参考的差异',
+  'benchmark.note': '每个组合都会重新启动推理 Worker，模型加载时间为冷启动耗时（模型文件已缓存时不含下载）；输出大小按当前输出设置编码。差异热力图中越亮表示与参考蒙版差异越大。',
+  'benchmark.status.done': '完成 {count} 项测试',
+  'benchmark.status.cancelled': '测试已取消',
+  'benchmark.status.failed': '测试失败',
+  'benchmark.status.loading': '[{index}/{total}] 加载 {label}',
+  'benchmark.status.processing': '[{index}/{total}] {label} 处理 {filename}',
+  'benchmark.errors.load': '模型加载失败',
+  'benchmark.errors.process': '处理失败',
+  'benchmark.errors.maskSize': '蒙版尺寸不一致，无法比较',
+
+  // 视频与动图
+  'animation.title.video': '视频逐帧去背景',
+  'animation.title.animated': '动图逐帧去背景',
+  'animation.source.video': '原始视频',
+  'animation.source.animated': '原始动图',
+  'animation.frames': '{count} 帧',
+  'animation.truncated': '超过 {max} 帧，只处理前 {max} 帧',
+  'animation.currentFrame': '第 {current} / {total} 帧',
+  'animation.notProcessed': '尚未处理',
+  'animation.fps': '抽帧帧率',
+  'animation.smoothing': '时间平滑',
+  'animation.smoothingFrames': '前后各 {count} 帧',
+  'animation.smoothingHint': '参考相邻帧的蒙版减少边缘闪烁，明显运动的区域不受影响',
+  'animation.progress': '推理 {inferred} / {total} 帧 · 合成 {rendered} / {total} 帧',
+  'animation.start': '开始处理',
+  'animation.restart': '重新处理',
+  'animation.export': '导出',
+  'animation.exporting': '导出中 {done} / {total}',
+  'animation.errors.read': '无法读取该文件',
+  'animation.errors.process': '处理失败，请重试',
+  'animation.formats.webm.label': 'WebM',
+  'animation.formats.webm.desc': '透明视频，需要 Chrome/Edge，按实际时长录制',
+  'animation.formats.webp.label': '动画 WebP',
+  'animation.formats.webp.desc': '支持半透明，体积较小',
+  'animation.formats.gif.label': 'GIF',
+  'animation.formats.gif.desc': '兼容性最好，仅支持全透明或不透明',
+  'animation.formats.png-zip.label': 'PNG 序列',
+  'animation.formats.png-zip.desc': '无损逐帧图片，打包为 ZIP',
+  'animation.errors.webmUnsupported': '当前浏览器不支持录制 WebM 视频',
+  'animation.errors.webpInvalid': '浏览器生成的 WebP 无法识别',
+  'animation.errors.videoDecode': '视频解码失败，浏览器可能不支持该格式',
+  'animation.errors.animatedUnsupported': '当前浏览器不支持解码动图，请使用最新版 Chrome 或 Edge',
+  'animation.errors.animatedDecode': '动图解码失败，文件可能已损坏',
+
+  // 摄像头
+  'webcam.title': '摄像头实时去背景',
+  'webcam.fps': '{render} FPS · 蒙版 {mask} FPS',
+  'webcam.inference': '推理 {duration}',
+  'webcam.paused': '模型加载中或正在处理其他图片，暂停去背景',
+  'webcam.snapshot': '拍照并导出',
+  'webcam.quality': '画质',
+  'webcam.modelHint': '使用当前选择的 {model} 模型，推理耗时越短蒙版刷新越快',
+  'webcam.quality.speed.label': '流畅',
+  'webcam.quality.speed.desc': '640×360，蒙版较粗',
+  'webcam.quality.balanced.label': '均衡',
+  'webcam.quality.balanced.desc': '1280×720，推荐',
+  'webcam.quality.quality.label': '清晰',
+  'webcam.quality.quality.desc': '1920×1080，需要较快的设备',
+  'webcam.errors.unsupported': '当前浏览器不支持访问摄像头，请使用 HTTPS 或 localhost 打开页面',
+  'webcam.errors.denied': '摄像头权限被拒绝，请在浏览器地址栏中允许访问摄像头',
+  'webcam.errors.notFound': '未找到可用的摄像头',
+  'webcam.errors.busy': '摄像头正被其他程序占用',
+  'webcam.errors.failed': '无法打开摄像头',
+  'webcam.errors.inference': '实时推理失败',
+  'webcam.errors.snapshot': '拍照失败，请重试',
+};
+
+export type MessageKey = keyof typeof zhCN;
+
+export default zhCN;
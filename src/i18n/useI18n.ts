@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from 'react';
+import { getLocale, setLocale, subscribeLocale, t } from './index';
+
+// 订阅当前语言，切换语言后使用该 Hook 的组件会重新渲染
+export function useI18n() {
+  const locale = useSyncExternalStore(subscribeLocale, getLocale);
+  return { locale, setLocale, t };
+}
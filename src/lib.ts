@@ -0,0 +1,36 @@
+// 供其他项目嵌入使用的入口：React 组件与不依赖框架的处理接口
+import './lib.css';
+
+export { BackgroundRemover } from './components/BackgroundRemover';
+export type { BackgroundRemoverProps } from './components/BackgroundRemover';
+export {
+  createRemover,
+  defaultConfig,
+  modelOptions,
+  processingStageLabels
+} from './utils/backgroundRemoval';
+export type {
+  OutputType,
+  ProcessingConfig,
+  ProcessingOptions,
+  ProcessingProgress,
+  ProcessingResult,
+  ProcessingStage,
+  ProcessingStats,
+  Remover,
+  SegmentationResult
+} from './utils/backgroundRemoval';
+export {
+  DecodeError,
+  DeviceUnavailableError,
+  FileTooLargeError,
+  ModelFetchError,
+  OutOfMemoryError,
+  ProcessingCancelledError,
+  ProcessingError,
+  UnsupportedFormatError,
+  errorGuides
+} from './utils/errors';
+export type { ProcessingErrorCode } from './utils/errors';
+export { getLocale, locales, setLocale } from './i18n';
+export type { LocaleDefinition } from './i18n';
@@ -0,0 +1,33 @@
+// gifenc 没有自带类型定义，这里只声明用到的部分
+declare module 'gifenc' {
+  export type Palette = number[][];
+  export type PixelFormat = 'rgb565' | 'rgb444' | 'rgba4444';
+
+  export interface QuantizeOptions {
+    format?: PixelFormat;
+    oneBitAlpha?: boolean | number;
+    clearAlpha?: boolean;
+    clearAlphaThreshold?: number;
+    clearAlphaColor?: number;
+  }
+
+  export interface WriteFrameOptions {
+    palette?: Palette;
+    first?: boolean;
+    transparent?: boolean;
+    transparentIndex?: number;
+    delay?: number;
+    repeat?: number;
+    dispose?: number;
+  }
+
+  export interface Encoder {
+    writeFrame(index: Uint8Array, width: number, height: number, options?: WriteFrameOptions): void;
+    finish(): void;
+    bytes(): Uint8Array;
+  }
+
+  export function GIFEncoder(options?: { auto?: boolean; initialCapacity?: number }): Encoder;
+  export function quantize(rgba: Uint8Array | Uint8ClampedArray, maxColors: number, options?: QuantizeOptions): Palette;
+  export function applyPalette(rgba: Uint8Array | Uint8ClampedArray, palette: Palette, format?: PixelFormat): Uint8Array;
+}
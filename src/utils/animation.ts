@@ -0,0 +1,138 @@
+import {
+  ProcessingConfig,
+  renderProcessedImage,
+  segmentImage
+} from './backgroundRemoval';
+import { MaskData, decodeImage, encodeImageData, extractMaskFromGrayscale, maskToImageData } from './imageUtils';
+import { ProcessingCancelledError } from './errors';
+import type { FrameSource } from './frameSource';
+
+// 视频和动图逐帧处理：每帧推理蒙版，对相邻帧的蒙版做时间平滑以减少闪烁，再按当前配置合成输出
+
+export interface AnimationSettings {
+  // 视频抽帧帧率
+  fps: number;
+  // 时间平滑半径（前后各参考的帧数），0 为关闭
+  smoothing: number;
+}
+
+export const defaultAnimationSettings: AnimationSettings = {
+  fps: 15,
+  smoothing: 2,
+};
+
+export const animationFpsOptions = [10, 15, 24, 30];
+
+// 处理后的帧，均为带透明度的 PNG
+export interface ProcessedFrame {
+  blob: Blob;
+  durationMs: number;
+}
+
+export interface AnimationProgress {
+  // 已完成推理和已完成合成的帧数
+  inferred: number;
+  rendered: number;
+  total: number;
+}
+
+export interface AnimationOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: AnimationProgress) => void;
+}
+
+// 相邻帧蒙版差异较大时视为真实运动，不参与平滑，避免拖影
+const SIMILARITY_SIGMA = 40;
+const similarityWeights = Array.from({ length: 256 }, (_, diff) => Math.exp(-(diff * diff) / (2 * SIMILARITY_SIGMA * SIMILARITY_SIGMA)));
+
+// 对窗口内的蒙版做保边的时间加权平均，center 为当前帧在窗口中的位置
+export function smoothMaskTemporal(window: MaskData[], center: number): MaskData {
+  const current = window[center];
+  if (window.length === 1) return current;
+
+  const radius = Math.max(center, window.length - 1 - center);
+  const sigma = Math.max(0.5, radius / 2);
+  const temporalWeights = window.map((_, index) => Math.exp(-((index - center) ** 2) / (2 * sigma * sigma)));
+  const data = new Uint8ClampedArray(current.data.length);
+
+  for (let i = 0; i < data.length; i++) {
+    const value = current.data[i];
+    let sum = value;
+    let weightSum = 1;
+    for (let j = 0; j < window.length; j++) {
+      if (j === center) continue;
+      const neighbour = window[j].data[i];
+      const weight = temporalWeights[j] * similarityWeights[Math.abs(neighbour - value)];
+      sum += neighbour * weight;
+      weightSum += weight;
+    }
+    data[i] = Math.round(sum / weightSum);
+  }
+  return { width: current.width, height: current.height, data };
+}
+
+// 逐帧处理时使用的配置：中间结果统一为 PNG，关闭自动裁剪以保证所有帧尺寸一致
+export function getFrameConfig(config: ProcessingConfig): ProcessingConfig {
+  return {
+    ...config,
+    output: { ...config.output, format: 'image/png', quality: 1 },
+    crop: { ...config.crop, enabled: false },
+  };
+}
+
+interface BufferedFrame {
+  image: Blob;
+  mask: MaskData;
+  durationMs: number;
+}
+
+export async function processAnimation(
+  source: FrameSource,
+  config: ProcessingConfig,
+  settings: AnimationSettings,
+  { signal, onProgress }: AnimationOptions = {}
+): Promise<ProcessedFrame[]> {
+  const frameConfig = getFrameConfig(config);
+  const radius = settings.smoothing;
+  const total = source.frameCount;
+  const output: ProcessedFrame[] = [];
+  // 只保留平滑窗口内的帧，内存占用与视频长度无关
+  const buffer = new Map<number, BufferedFrame>();
+
+  const renderFrame = async (index: number) => {
+    const window: MaskData[] = [];
+    let center = 0;
+    for (let j = Math.max(0, index - radius); j <= Math.min(total - 1, index + radius); j++) {
+      if (j === index) center = window.length;
+      window.push(buffer.get(j)!.mask);
+    }
+    const frame = buffer.get(index)!;
+    const mask = await encodeImageData(maskToImageData(smoothMaskTemporal(window, center)), { format: 'image/png', quality: 1 });
+    const rendered = await renderProcessedImage(frame.image, mask, frameConfig, { signal });
+    output.push({ blob: rendered.blob, durationMs: frame.durationMs });
+    buffer.delete(index - radius);
+    onProgress?.({ inferred: Math.min(total, index + radius + 1), rendered: index + 1, total });
+  };
+
+  for (let index = 0; index < total; index++) {
+    if (signal?.aborted) throw new ProcessingCancelledError();
+
+    const { image, durationMs } = await source.readFrame(index);
+    const frameBlob = await encodeImageData(image, { format: 'image/png', quality: 1 });
+    const { mask } = await segmentImage(frameBlob, frameConfig, { signal });
+    buffer.set(index, { image: frameBlob, mask: extractMaskFromGrayscale(await decodeImage(mask)), durationMs });
+    onProgress?.({ inferred: index + 1, rendered: output.length, total });
+
+    // 后续帧推理完成后才能平滑当前帧
+    if (index - radius >= 0) {
+      await renderFrame(index - radius);
+    }
+  }
+
+  for (let index = Math.max(0, total - radius); index < total; index++) {
+    if (signal?.aborted) throw new ProcessingCancelledError();
+    await renderFrame(index);
+  }
+
+  return output;
+}
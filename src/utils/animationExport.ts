@@ -0,0 +1,224 @@
+import { zip, Zippable } from 'fflate';
+import { GIFEncoder, applyPalette, quantize } from 'gifenc';
+import { decodeImage, encodeImageData } from './imageUtils';
+import type { ProcessedFrame } from './animation';
+import { localized, t } from '../i18n';
+
+// 将逐帧处理的结果导出为透明 WebM、动画 WebP、GIF 或 PNG 序列（ZIP）
+
+export type AnimationExportFormat = 'webm' | 'webp' | 'gif' | 'png-zip';
+
+export const animationExportFormats: { value: AnimationExportFormat; label: string; extension: string; desc: string }[] = [
+  localized({ value: 'webm', extension: 'webm' }, { label: 'animation.formats.webm.label', desc: 'animation.formats.webm.desc' }),
+  localized({ value: 'webp', extension: 'webp' }, { label: 'animation.formats.webp.label', desc: 'animation.formats.webp.desc' }),
+  localized({ value: 'gif', extension: 'gif' }, { label: 'animation.formats.gif.label', desc: 'animation.formats.gif.desc' }),
+  localized({ value: 'png-zip', extension: 'zip' }, { label: 'animation.formats.png-zip.label', desc: 'animation.formats.png-zip.desc' }),
+];
+
+// 参数为已导出的帧数
+type ExportProgressCallback = (done: number) => void;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// MediaRecorder 只能实时录制，按每帧时长依次绘制到画布
+async function exportWebm(frames: ProcessedFrame[], width: number, height: number, onProgress?: ExportProgressCallback): Promise<Blob> {
+  const mimeType = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm']
+    .find((type) => typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(type));
+  if (!mimeType) {
+    throw new Error(t('animation.errors.webmUnsupported'));
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error(t('common.errors.canvasContext'));
+  }
+
+  const stream = canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 8_000_000 });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  const stopped = new Promise<void>((resolve) => {
+    recorder.onstop = () => resolve();
+  });
+
+  recorder.start();
+  const start = performance.now();
+  let elapsed = 0;
+  try {
+    for (const [index, frame] of frames.entries()) {
+      const bitmap = await createImageBitmap(frame.blob);
+      // 按累计时长等待，避免解码耗时导致整体变慢
+      await sleep(Math.max(0, start + elapsed - performance.now()));
+      context.clearRect(0, 0, width, height);
+      context.drawImage(bitmap, 0, 0);
+      bitmap.close();
+      track.requestFrame();
+      elapsed += frame.durationMs;
+      onProgress?.(index + 1);
+    }
+    await sleep(Math.max(0, start + elapsed - performance.now()));
+  } finally {
+    recorder.stop();
+    stream.getTracks().forEach((item) => item.stop());
+  }
+  await stopped;
+  return new Blob(chunks, { type: 'video/webm' });
+}
+
+function writeUint24(target: Uint8Array, offset: number, value: number) {
+  target[offset] = value & 0xff;
+  target[offset + 1] = (value >> 8) & 0xff;
+  target[offset + 2] = (value >> 16) & 0xff;
+}
+
+function createChunk(fourCC: string, payload: Uint8Array): Uint8Array {
+  const padded = payload.length + (payload.length % 2);
+  const chunk = new Uint8Array(8 + padded);
+  chunk.set(new TextEncoder().encode(fourCC), 0);
+  new DataView(chunk.buffer).setUint32(4, payload.length, true);
+  chunk.set(payload, 8);
+  return chunk;
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+// 提取单帧 WebP 中的图像数据块（ALPH、VP8、VP8L），用于放进动画帧
+function readWebpImageChunks(bytes: Uint8Array): Uint8Array[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+  const chunks: Uint8Array[] = [];
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const fourCC = decoder.decode(bytes.subarray(offset, offset + 4));
+    const size = view.getUint32(offset + 4, true);
+    if (fourCC === 'ALPH' || fourCC === 'VP8 ' || fourCC === 'VP8L') {
+      chunks.push(bytes.subarray(offset, offset + 8 + size + (size % 2)));
+    }
+    offset += 8 + size + (size % 2);
+  }
+  if (chunks.length === 0) {
+    throw new Error(t('animation.errors.webpInvalid'));
+  }
+  return chunks;
+}
+
+// 由画布逐帧编码 WebP，再封装为 RIFF 动画容器（VP8X + ANIM + ANMF）
+async function exportAnimatedWebp(
+  frames: ProcessedFrame[],
+  width: number,
+  height: number,
+  quality: number,
+  onProgress?: ExportProgressCallback
+): Promise<Blob> {
+  const header = new Uint8Array(10);
+  // 含透明度与动画
+  header[0] = 0x10 | 0x02;
+  writeUint24(header, 4, width - 1);
+  writeUint24(header, 7, height - 1);
+  // 背景色透明，无限循环
+  const parts: Uint8Array[] = [createChunk('VP8X', header), createChunk('ANIM', new Uint8Array(6))];
+
+  for (const [index, frame] of frames.entries()) {
+    const image = await decodeImage(frame.blob);
+    const webp = new Uint8Array(await (await encodeImageData(image, { format: 'image/webp', quality })).arrayBuffer());
+    const frameHeader = new Uint8Array(16);
+    writeUint24(frameHeader, 6, image.width - 1);
+    writeUint24(frameHeader, 9, image.height - 1);
+    writeUint24(frameHeader, 12, Math.round(frame.durationMs));
+    // 不与上一帧混合，显示后清除为背景，保证透明区域不残留
+    frameHeader[15] = 0x02 | 0x01;
+    parts.push(createChunk('ANMF', concatBytes([frameHeader, ...readWebpImageChunks(webp)])));
+    onProgress?.(index + 1);
+  }
+
+  const body = concatBytes(parts);
+  const riff = new Uint8Array(12);
+  riff.set(new TextEncoder().encode('RIFF'), 0);
+  new DataView(riff.buffer).setUint32(4, body.length + 4, true);
+  riff.set(new TextEncoder().encode('WEBP'), 8);
+  return new Blob([riff, body], { type: 'image/webp' });
+}
+
+// GIF 每帧单独量化为 256 色；有透明像素时使用 1 位透明度
+async function exportGif(frames: ProcessedFrame[], onProgress?: ExportProgressCallback): Promise<Blob> {
+  const gif = GIFEncoder();
+  for (const [index, frame] of frames.entries()) {
+    const { data, width, height } = await decodeImage(frame.blob);
+    let hasAlpha = false;
+    for (let i = 3; i < data.length; i += 4) {
+      if (data[i] < 255) {
+        hasAlpha = true;
+        break;
+      }
+    }
+
+    const format = hasAlpha ? 'rgba4444' : 'rgb565';
+    const palette = quantize(data, 256, { format, oneBitAlpha: hasAlpha });
+    const transparentIndex = hasAlpha ? palette.findIndex((color) => color[3] === 0) : -1;
+    gif.writeFrame(applyPalette(data, palette, format), width, height, {
+      palette,
+      delay: Math.round(frame.durationMs),
+      transparent: transparentIndex >= 0,
+      transparentIndex: Math.max(0, transparentIndex),
+      dispose: transparentIndex >= 0 ? 2 : -1,
+    });
+    onProgress?.(index + 1);
+  }
+  gif.finish();
+  return new Blob([gif.bytes()], { type: 'image/gif' });
+}
+
+async function exportPngZip(frames: ProcessedFrame[], basename: string, onProgress?: ExportProgressCallback): Promise<Blob> {
+  const files: Zippable = {};
+  const digits = String(frames.length).length;
+  for (const [index, frame] of frames.entries()) {
+    files[`${basename}-${String(index + 1).padStart(Math.max(4, digits), '0')}.png`] = new Uint8Array(await frame.blob.arrayBuffer());
+    onProgress?.(index + 1);
+  }
+
+  // PNG 本身已压缩，直接存储即可
+  const data = await new Promise<Uint8Array>((resolve, reject) => {
+    zip(files, { level: 0 }, (error, result) => {
+      if (error) {
+        reject(error);
+      } else {
+        resolve(result);
+      }
+    });
+  });
+  return new Blob([data], { type: 'application/zip' });
+}
+
+export async function exportAnimation(
+  frames: ProcessedFrame[],
+  format: AnimationExportFormat,
+  options: { width: number; height: number; quality: number; basename: string; onProgress?: ExportProgressCallback }
+): Promise<Blob> {
+  const { width, height, quality, basename, onProgress } = options;
+  switch (format) {
+    case 'webm':
+      return exportWebm(frames, width, height, onProgress);
+    case 'webp':
+      return exportAnimatedWebp(frames, width, height, quality, onProgress);
+    case 'gif':
+      return exportGif(frames, onProgress);
+    case 'png-zip':
+      return exportPngZip(frames, basename, onProgress);
+  }
+}
@@ -1,61 +1,372 @@
-import { removeBackground, Config, preload } from '@imgly/background-removal';
+import { Config } from '@imgly/background-removal';
+import type { WorkerRequest, WorkerResponse } from '../workers/protocol';
+import { BackgroundReplacement, defaultBackground } from './compositing';
+import { MaskRefinement, defaultMaskRefinement } from './maskProcessing';
+import { CropSettings, defaultCropSettings } from './cropping';
+import { LargeImageSettings, defaultLargeImageSettings } from './largeImage';
+import { SubjectEffects, defaultSubjectEffects } from './subjectEffects';
+import { DEFAULT_PUBLIC_PATH } from './modelAssets';
+import type { OutputFormat } from './outputFormats';
+import { ProcessingCancelledError, ProcessingError, createProcessingError, deserializeError, toProcessingError } from './errors';
+import { localized } from '../i18n';
 
-let isModelLoaded = false;
+// 输出类型：前景（去背景）、背景、蒙版
+export type OutputType = 'foreground' | 'background' | 'mask';
+
+// 应用内使用的处理配置（在库配置基础上补全必填项并增加输出类型）
+export type ProcessingConfig = Omit<Config, 'output'> & {
+  device: NonNullable<Config['device']>;
+  model: NonNullable<Config['model']>;
+  // 模型与 WASM 资源的地址，相对路径按应用所在域名解析
+  publicPath: string;
+  output: {
+    format: OutputFormat;
+    quality: number;
+    type: OutputType;
+    // 输出格式不支持透明度时，透明区域填充的底色
+    matte: string;
+    // 导出时写入模型、配置等处理信息
+    metadata: boolean;
+  };
+  // 蒙版后处理
+  refinement: MaskRefinement;
+  // 按主体自动裁剪
+  crop: CropSettings;
+  // 替换背景（仅对前景输出生效）
+  background: BackgroundReplacement;
+  // 主体的投影、地面阴影和描边（仅对前景输出生效）
+  effects: SubjectEffects;
+  // 大图的推理分辨率
+  largeImage: LargeImageSettings;
+};
+
+export const modelOptions: { value: ProcessingConfig['model']; label: string; desc: string }[] = [
+  localized({ value: 'isnet' }, { label: 'models.isnet.label', desc: 'models.isnet.desc' }),
+  localized({ value: 'isnet_fp16' }, { label: 'models.isnet_fp16.label', desc: 'models.isnet_fp16.desc' }),
+  localized({ value: 'isnet_quint8' }, { label: 'models.isnet_quint8.label', desc: 'models.isnet_quint8.desc' }),
+];
+
+// 推理实际使用的设备和模型（GPU 不可用时会降级到 CPU）以及耗时
+export interface ProcessingStats {
+  device: ProcessingConfig['device'];
+  model: ProcessingConfig['model'];
+  threads: number;
+  // 本次会话中加载该模型的耗时（毫秒）
+  loadMs: number;
+  inferenceMs: number;
+}
+
+// 处理结果：按输出类型生成的图片、推理（或手动精修）得到的原始蒙版，以及后处理后的蒙版（均为黑白 PNG）
+// 仅重新合成而未推理时沿用原结果的 stats
+export interface ProcessingResult {
+  blob: Blob;
+  // 输出格式无法在浏览器中显示（PSD、TIFF）时附带的 PNG 预览
+  preview?: Blob;
+  mask: Blob;
+  refinedMask: Blob;
+  stats?: ProcessingStats;
+}
+
+// 在界面中显示的结果图片
+export function getDisplayBlob(result: Pick<ProcessingResult, 'blob' | 'preview'>): Blob {
+  return result.preview ?? result.blob;
+}
+
+// 仅推理的结果：原始蒙版（黑白 PNG）
+export interface SegmentationResult {
+  mask: Blob;
+  stats: ProcessingStats;
+}
+
+// 处理阶段：模型下载、图片解码、推理、放大蒙版（仅大图）、合成、编码
+export type ProcessingStage = 'download' | 'decode' | 'inference' | 'upsample' | 'compose' | 'encode';
+
+export const processingStageLabels: Record<ProcessingStage, string> = localized({}, {
+  download: 'stages.download',
+  decode: 'stages.decode',
+  inference: 'stages.inference',
+  upsample: 'stages.upsample',
+  compose: 'stages.compose',
+  encode: 'stages.encode',
+});
+
+// 进度信息，progress 为当前任务的整体进度（0-1）
+export interface ProcessingProgress {
+  stage: ProcessingStage;
+  progress: number;
+}
+
+export interface ProcessingOptions {
+  onProgress?: (progress: ProcessingProgress) => void;
+  signal?: AbortSignal;
+}
 
 // 默认配置
-export const defaultConfig: Config = {
+export const defaultConfig: ProcessingConfig = {
   debug: false,
   device: 'cpu',
   model: 'isnet_fp16',
+  publicPath: DEFAULT_PUBLIC_PATH,
   output: {
     format: 'image/png',
     quality: 0.8,
     type: 'foreground',
+    matte: '#ffffff',
+    metadata: true,
   },
+  refinement: defaultMaskRefinement,
+  crop: defaultCropSettings,
+  background: defaultBackground,
+  effects: defaultSubjectEffects,
+  largeImage: defaultLargeImageSettings,
 };
 
-export async function loadModel(config: Config = defaultConfig): Promise<void> {
-  if (!isModelLoaded) {
-    try {
-      // 预加载模型
-      await preload({
-        model: config.model,
-        debug: config.debug,
-        device: config.device,
+interface PendingRequest {
+  resolve: (response: WorkerResponse) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: ProcessingProgress) => void;
+}
+
+// 不依赖框架的处理接口：每个实例拥有独立的推理 Worker，显式管理模型的加载、切换与释放
+export interface Remover {
+  readonly config: ProcessingConfig;
+  // 当前配置对应的模型是否已加载
+  readonly isLoaded: boolean;
+  load(options?: ProcessingOptions): Promise<void>;
+  process(image: Blob, options?: ProcessingOptions): Promise<ProcessingResult>;
+  // 只推理蒙版，不生成输出
+  segment(image: Blob, options?: ProcessingOptions): Promise<SegmentationResult>;
+  // 使用已有蒙版重新生成输出，无需再次推理（例如修改了输出或背景设置）
+  render(image: Blob, mask: Blob, options?: ProcessingOptions): Promise<ProcessingResult>;
+  // 修改配置；模型相关的字段变化后，下次处理前会自动加载新模型
+  setConfig(config: ProcessingConfig): void;
+  // 释放已加载的模型并加载新模型，进行中的任务会被取消
+  switchModel(model: ProcessingConfig['model'], device?: ProcessingConfig['device'], options?: ProcessingOptions): Promise<void>;
+  // 终止 Worker 并释放所有模型，进行中的任务会被取消；之后再使用会重新创建 Worker
+  dispose(): void;
+}
+
+// 决定模型会话的配置字段
+function getModelKey(config: ProcessingConfig): string {
+  return JSON.stringify([config.model, config.device, config.publicPath, config.debug]);
+}
+
+export function createRemover(initialConfig: ProcessingConfig = defaultConfig): Remover {
+  let config = initialConfig;
+  let worker: Worker | null = null;
+  let nextRequestId = 0;
+  // 已加载的模型，Worker 终止后清空
+  let loadedKey: string | null = null;
+  const pendingRequests = new Map<number, PendingRequest>();
+
+  function handleWorkerMessage(event: MessageEvent<WorkerResponse>) {
+    const response = event.data;
+    const pending = pendingRequests.get(response.id);
+    if (!pending) return;
+
+    if (response.type === 'progress') {
+      pending.onProgress?.(response.progress);
+      return;
+    }
+
+    pendingRequests.delete(response.id);
+    if (response.type === 'error') {
+      pending.reject(createProcessingError(response.code, response.message, response.cause && deserializeError(response.cause)));
+    } else {
+      pending.resolve(response);
+    }
+  }
+
+  function getWorker(): Worker {
+    if (!worker) {
+      worker = new Worker(new URL('../workers/backgroundRemoval.worker.ts', import.meta.url), {
+        type: 'module',
       });
-      isModelLoaded = true;
+      worker.onmessage = handleWorkerMessage;
+      worker.onerror = (event) => {
+        console.error('Background removal worker error:', event);
+        // Worker 崩溃且没有错误信息时，多为 WASM 内存耗尽
+        terminateWorker(event.message ? toProcessingError(new Error(event.message)) : createProcessingError('OUT_OF_MEMORY'));
+      };
+    }
+    return worker;
+  }
+
+  // 终止 Worker 并拒绝所有未完成的请求，模型需要重新加载
+  function terminateWorker(reason: ProcessingError) {
+    worker?.terminate();
+    worker = null;
+    loadedKey = null;
+    pendingRequests.forEach((pending) => pending.reject(reason));
+    pendingRequests.clear();
+  }
+
+  function sendRequest(
+    createRequest: (id: number) => WorkerRequest,
+    { onProgress, signal }: ProcessingOptions = {}
+  ): Promise<WorkerResponse> {
+    if (signal?.aborted) {
+      return Promise.reject(new ProcessingCancelledError());
+    }
+
+    return new Promise((resolve, reject) => {
+      const id = nextRequestId++;
+      pendingRequests.set(id, { resolve, reject, onProgress });
+
+      // 推理过程无法中断，只能终止整个 Worker
+      signal?.addEventListener('abort', () => {
+        if (pendingRequests.has(id)) {
+          terminateWorker(new ProcessingCancelledError());
+        }
+      }, { once: true });
+
+      getWorker().postMessage(createRequest(id));
+    });
+  }
+
+  // 加载指定配置的模型；处理时传入调用时捕获的配置，避免其他调用的 setConfig 在加载前换掉模型
+  async function loadModelFor(loadConfig: ProcessingConfig, options: ProcessingOptions = {}): Promise<void> {
+    const key = getModelKey(loadConfig);
+    if (loadedKey === key) return;
+
+    try {
+      // 在 Worker 中预加载模型
+      await sendRequest((id) => ({ type: 'load', id, config: loadConfig }), options);
+      loadedKey = key;
     } catch (error) {
       console.error('Failed to preload model:', error);
-      throw error;
+      throw toProcessingError(error, 'MODEL_FETCH_FAILED');
+    }
+  }
+
+  function load(options?: ProcessingOptions): Promise<void> {
+    return loadModelFor(config, options);
+  }
+
+  async function process(image: Blob, options: ProcessingOptions = {}): Promise<ProcessingResult> {
+    const processConfig = config;
+    try {
+      // 确保模型已加载
+      await loadModelFor(processConfig, options);
+
+      const response = await sendRequest((id) => ({ type: 'process', id, file: image, config: processConfig }), options);
+      if (response.type !== 'result') {
+        throw new Error(`Unexpected worker response: ${response.type}`);
+      }
+      return response.result;
+    } catch (error) {
+      if (!(error instanceof ProcessingCancelledError)) {
+        console.error('Background removal failed:', error);
+      }
+      throw toProcessingError(error);
     }
   }
-}
 
-export async function processImageBackgroundRemoval(
-  imageFile: File, 
-  config: Config = defaultConfig
-): Promise<Blob> {
-  try {
-    // 确保模型已加载
-    if (!isModelLoaded) {
-      await loadModel(config);
+  async function segment(image: Blob, options: ProcessingOptions = {}): Promise<SegmentationResult> {
+    const segmentConfig = config;
+    try {
+      await loadModelFor(segmentConfig, options);
+
+      const response = await sendRequest((id) => ({ type: 'segment', id, file: image, config: segmentConfig }), options);
+      if (response.type !== 'segmented') {
+        throw new Error(`Unexpected worker response: ${response.type}`);
+      }
+      return response.result;
+    } catch (error) {
+      if (!(error instanceof ProcessingCancelledError)) {
+        console.error('Segmentation failed:', error);
+      }
+      throw toProcessingError(error);
     }
+  }
 
-    // 处理图片
-    const blob = await removeBackground(imageFile, config);
-    return blob;
-  } catch (error) {
-    console.error('Background removal failed:', error);
-    throw new Error('背景去除失败，请重试');
+  async function render(image: Blob, mask: Blob, options: ProcessingOptions = {}): Promise<ProcessingResult> {
+    const renderConfig = config;
+    try {
+      const response = await sendRequest((id) => ({ type: 'render', id, file: image, mask, config: renderConfig }), options);
+      if (response.type !== 'result') {
+        throw new Error(`Unexpected worker response: ${response.type}`);
+      }
+      return response.result;
+    } catch (error) {
+      if (!(error instanceof ProcessingCancelledError)) {
+        console.error('Render failed:', error);
+      }
+      throw toProcessingError(error);
+    }
   }
+
+  return {
+    get config() {
+      return config;
+    },
+    get isLoaded() {
+      return loadedKey === getModelKey(config);
+    },
+    load,
+    process,
+    segment,
+    render,
+    setConfig(nextConfig) {
+      config = nextConfig;
+    },
+    async switchModel(model, device = config.device, options) {
+      // 库会在 Worker 内缓存所有加载过的模型，切换时重建 Worker 才能释放内存
+      terminateWorker(new ProcessingCancelledError());
+      config = { ...config, model, device };
+      await load(options);
+    },
+    dispose() {
+      terminateWorker(new ProcessingCancelledError());
+    },
+  };
+}
+
+// 应用内共用的实例，以下函数每次调用时传入当前配置
+const defaultRemover = createRemover();
+
+export function loadModel(
+  config: ProcessingConfig = defaultConfig,
+  options: ProcessingOptions = {}
+): Promise<void> {
+  defaultRemover.setConfig(config);
+  return defaultRemover.load(options);
 }
 
-// 检查模型是否已加载
+export function processImageBackgroundRemoval(
+  imageFile: File,
+  config: ProcessingConfig = defaultConfig,
+  options: ProcessingOptions = {}
+): Promise<ProcessingResult> {
+  defaultRemover.setConfig(config);
+  return defaultRemover.process(imageFile, options);
+}
+
+export function segmentImage(
+  imageFile: Blob,
+  config: ProcessingConfig,
+  options: ProcessingOptions = {}
+): Promise<SegmentationResult> {
+  defaultRemover.setConfig(config);
+  return defaultRemover.segment(imageFile, options);
+}
+
+export function renderProcessedImage(
+  imageFile: Blob,
+  mask: Blob,
+  config: ProcessingConfig,
+  options: ProcessingOptions = {}
+): Promise<ProcessingResult> {
+  defaultRemover.setConfig(config);
+  return defaultRemover.render(imageFile, mask, options);
+}
+
+// 检查当前配置的模型是否已加载
 export function isModelReady(): boolean {
-  return isModelLoaded;
+  return defaultRemover.isLoaded;
 }
 
-// 重置模型状态（当配置改变时）
-export function resetModel(): void {
-  isModelLoaded = false;
-}
\ No newline at end of file
+// 终止并重建 Worker，释放已加载的所有模型
+export function restartWorker(): void {
+  defaultRemover.dispose();
+}
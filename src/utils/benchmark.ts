@@ -0,0 +1,218 @@
+import {
+  ProcessingConfig,
+  loadModel,
+  processImageBackgroundRemoval,
+  restartWorker
+} from './backgroundRemoval';
+import { ProcessingCancelledError } from './errors';
+import { MaskData } from './imageUtils';
+import { t } from '../i18n';
+
+// 性能对比：用同一批图片依次测试不同的模型与设备组合
+
+export interface BenchmarkCombo {
+  model: ProcessingConfig['model'];
+  device: ProcessingConfig['device'];
+}
+
+export interface BenchmarkRun extends BenchmarkCombo {
+  // 图片序号与组合的唯一标识
+  key: string;
+  imageIndex: number;
+  filename: string;
+  // GPU 不可用时库会降级到 CPU
+  actualDevice: ProcessingConfig['device'] | null;
+  loadMs: number | null;
+  inferenceMs: number | null;
+  outputBytes: number | null;
+  mask: Blob | null;
+  error?: string;
+}
+
+// 与参考蒙版的逐像素差异，均为 0-1
+export interface MaskDifference {
+  meanDiff: number;
+  changedRatio: number;
+}
+
+export interface BenchmarkOptions {
+  signal?: AbortSignal;
+  onStatus?: (status: string) => void;
+  onRun?: (run: BenchmarkRun) => void;
+}
+
+// 差异超过该值（0-255）的像素计为不一致
+const CHANGED_THRESHOLD = 16;
+
+export function getComboKey(combo: BenchmarkCombo): string {
+  return `${combo.model}:${combo.device}`;
+}
+
+export function getRunKey(imageIndex: number, combo: BenchmarkCombo): string {
+  return `${imageIndex}:${getComboKey(combo)}`;
+}
+
+// 每个组合前重启 Worker，保证模型加载时间为冷启动耗时，也避免多个模型同时占用内存
+export async function runBenchmark(
+  files: File[],
+  combos: BenchmarkCombo[],
+  baseConfig: ProcessingConfig,
+  { signal, onStatus, onRun }: BenchmarkOptions = {}
+): Promise<BenchmarkRun[]> {
+  const runs: BenchmarkRun[] = [];
+  const report = (run: BenchmarkRun) => {
+    runs.push(run);
+    onRun?.(run);
+  };
+
+  try {
+    for (const [comboIndex, combo] of combos.entries()) {
+      const config: ProcessingConfig = { ...baseConfig, model: combo.model, device: combo.device };
+      const label = `${combo.model} / ${combo.device.toUpperCase()}`;
+      restartWorker();
+
+      onStatus?.(t('benchmark.status.loading', { index: comboIndex + 1, total: combos.length, label }));
+      let loadMs: number;
+      try {
+        const start = performance.now();
+        await loadModel(config, { signal });
+        loadMs = performance.now() - start;
+      } catch (err) {
+        if (err instanceof ProcessingCancelledError) throw err;
+        const error = err instanceof Error ? err.message : t('benchmark.errors.load');
+        files.forEach((file, imageIndex) => report({
+          ...combo,
+          key: getRunKey(imageIndex, combo),
+          imageIndex,
+          filename: file.name,
+          actualDevice: null,
+          loadMs: null,
+          inferenceMs: null,
+          outputBytes: null,
+          mask: null,
+          error,
+        }));
+        continue;
+      }
+
+      for (const [imageIndex, file] of files.entries()) {
+        onStatus?.(t('benchmark.status.processing', { index: comboIndex + 1, total: combos.length, label, filename: file.name }));
+        const base = { ...combo, key: getRunKey(imageIndex, combo), imageIndex, filename: file.name, loadMs };
+        try {
+          const result = await processImageBackgroundRemoval(file, config, { signal });
+          report({
+            ...base,
+            actualDevice: result.stats?.device ?? null,
+            inferenceMs: result.stats?.inferenceMs ?? null,
+            outputBytes: result.blob.size,
+            mask: result.mask,
+          });
+        } catch (err) {
+          if (err instanceof ProcessingCancelledError) throw err;
+          report({
+            ...base,
+            actualDevice: null,
+            inferenceMs: null,
+            outputBytes: null,
+            mask: null,
+            error: err instanceof Error ? err.message : t('benchmark.errors.process'),
+          });
+        }
+      }
+    }
+  } finally {
+    // 释放测试过程中加载的模型，由调用方重新加载当前配置的模型
+    restartWorker();
+  }
+
+  return runs;
+}
+
+// 逐像素比较两个蒙版，生成差异热力图（黑色为一致，越亮差异越大）
+export function compareMasks(mask: MaskData, reference: MaskData): { difference: MaskDifference; heatmap: ImageData } {
+  if (mask.width !== reference.width || mask.height !== reference.height) {
+    throw new Error(t('benchmark.errors.maskSize'));
+  }
+
+  const heatmap = new ImageData(mask.width, mask.height);
+  let total = 0;
+  let changed = 0;
+  for (let i = 0; i < mask.data.length; i++) {
+    const diff = Math.abs(mask.data[i] - reference.data[i]);
+    total += diff;
+    if (diff > CHANGED_THRESHOLD) changed++;
+
+    // 黑 → 红 → 黄
+    const index = i * 4;
+    heatmap.data[index] = Math.min(255, diff * 2);
+    heatmap.data[index + 1] = Math.max(0, diff * 2 - 255);
+    heatmap.data[index + 2] = 0;
+    heatmap.data[index + 3] = 255;
+  }
+
+  const pixels = mask.data.length || 1;
+  return {
+    difference: { meanDiff: total / pixels / 255, changedRatio: changed / pixels },
+    heatmap,
+  };
+}
+
+function escapeCsv(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function round(value: number | null, digits = 1): number | null {
+  return value === null ? null : Number(value.toFixed(digits));
+}
+
+export function exportBenchmarkCsv(
+  runs: BenchmarkRun[],
+  differences: Map<string, MaskDifference>,
+  referenceKey: string | null
+): Blob {
+  const header = ['image', 'model', 'device', 'actual_device', 'load_ms', 'inference_ms', 'output_bytes', 'reference', 'mean_diff', 'changed_ratio', 'error'];
+  const rows = runs.map((run) => {
+    const difference = differences.get(run.key);
+    return [
+      run.filename,
+      run.model,
+      run.device,
+      run.actualDevice,
+      round(run.loadMs),
+      round(run.inferenceMs),
+      run.outputBytes,
+      referenceKey,
+      difference ? round(difference.meanDiff, 6) : null,
+      difference ? round(difference.changedRatio, 6) : null,
+      run.error,
+    ].map(escapeCsv).join(',');
+  });
+  // 带 BOM，便于 Excel 正确识别中文文件名
+  return new Blob(['\uFEFF' + [header.join(','), ...rows].join('\n')], { type: 'text/csv' });
+}
+
+export function exportBenchmarkJson(
+  runs: BenchmarkRun[],
+  differences: Map<string, MaskDifference>,
+  referenceKey: string | null
+): Blob {
+  const data = {
+    createdAt: new Date().toISOString(),
+    userAgent: navigator.userAgent,
+    reference: referenceKey,
+    runs: runs.map((run) => ({
+      image: run.filename,
+      model: run.model,
+      device: run.device,
+      actualDevice: run.actualDevice,
+      loadMs: round(run.loadMs),
+      inferenceMs: round(run.inferenceMs),
+      outputBytes: run.outputBytes,
+      difference: differences.get(run.key) ?? null,
+      error: run.error ?? null,
+    })),
+  };
+  return new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+}
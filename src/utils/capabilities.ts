@@ -0,0 +1,78 @@
+// 启动时探测浏览器对推理相关特性的支持情况，用于禁用不可用的选项
+
+export interface DeviceCapabilities {
+  // WebGPU 可用时才能使用 GPU 推理，否则库会静默降级到 CPU
+  webgpu: boolean;
+  gpuName: string | null;
+  // ONNX Runtime 的 WASM 运行时依赖 SIMD，不支持时无法推理
+  wasmSimd: boolean;
+  // 多线程推理需要 SharedArrayBuffer，即页面处于跨源隔离状态
+  crossOriginIsolated: boolean;
+  threads: number;
+  // navigator.deviceMemory，单位 GB，浏览器不提供时为 null
+  memoryGB: number | null;
+}
+
+// 内存不超过该值时禁用体积最大的模型和完整质量的大图处理
+export const LOW_MEMORY_GB = 2;
+
+interface GPUAdapterLike {
+  info?: { vendor?: string; architecture?: string; description?: string };
+}
+
+type NavigatorWithGPU = Navigator & {
+  gpu?: { requestAdapter(): Promise<GPUAdapterLike | null> };
+  deviceMemory?: number;
+};
+
+// 包含一条 SIMD 指令的最小 WASM 模块，能通过校验即支持 SIMD
+const SIMD_PROBE = new Uint8Array([
+  0, 97, 115, 109, 1, 0, 0, 0, 1, 5, 1, 96, 0, 1, 123, 3, 2, 1, 0, 10, 10, 1, 8, 0, 65, 0, 253, 15, 253, 98, 11,
+]);
+
+async function requestGPUAdapter(): Promise<GPUAdapterLike | null> {
+  const { gpu } = navigator as NavigatorWithGPU;
+  if (!gpu) return null;
+  try {
+    return await gpu.requestAdapter();
+  } catch {
+    return null;
+  }
+}
+
+// 与库内部的判断方式一致：能获取到适配器才会使用 WebGPU
+export async function hasWebGPU(): Promise<boolean> {
+  return (await requestGPUAdapter()) !== null;
+}
+
+// 实际使用的推理线程数：未跨源隔离时 ONNX Runtime 只能单线程运行
+export function getInferenceThreads(): number {
+  return self.crossOriginIsolated ? navigator.hardwareConcurrency ?? 4 : 1;
+}
+
+function supportsWasmSimd(): boolean {
+  try {
+    return typeof WebAssembly === 'object' && WebAssembly.validate(SIMD_PROBE);
+  } catch {
+    return false;
+  }
+}
+
+export async function detectCapabilities(): Promise<DeviceCapabilities> {
+  const adapter = await requestGPUAdapter();
+  const info = adapter?.info;
+  const gpuName = info ? [info.vendor, info.architecture || info.description].filter(Boolean).join(' ') : '';
+
+  return {
+    webgpu: adapter !== null,
+    gpuName: gpuName || null,
+    wasmSimd: supportsWasmSimd(),
+    crossOriginIsolated: self.crossOriginIsolated === true,
+    threads: getInferenceThreads(),
+    memoryGB: (navigator as NavigatorWithGPU).deviceMemory ?? null,
+  };
+}
+
+export function isLowMemory(capabilities: DeviceCapabilities | null): boolean {
+  return capabilities?.memoryGB != null && capabilities.memoryGB <= LOW_MEMORY_GB;
+}
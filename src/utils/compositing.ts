@@ -0,0 +1,147 @@
+import { createCanvas, getContext2D } from './imageUtils';
+
+// 背景替换模式：保持透明、纯色、渐变、原图模糊、自定义图片
+export type BackgroundMode = 'none' | 'color' | 'gradient' | 'blur' | 'image';
+
+// 自定义背景图片的填充方式
+export type BackgroundImageFit = 'cover' | 'contain' | 'stretch';
+
+export interface BackgroundReplacement {
+  mode: BackgroundMode;
+  color: string;
+  gradientFrom: string;
+  gradientTo: string;
+  // 渐变角度（度），0 为从左到右
+  gradientAngle: number;
+  // 模糊半径（像素）
+  blurRadius: number;
+  image?: Blob;
+  imageFit: BackgroundImageFit;
+  // 主体缩放比例及相对画布尺寸的偏移（-0.5 ~ 0.5）
+  subjectScale: number;
+  subjectOffsetX: number;
+  subjectOffsetY: number;
+}
+
+export const defaultBackground: BackgroundReplacement = {
+  mode: 'none',
+  color: '#ffffff',
+  gradientFrom: '#9333ea',
+  gradientTo: '#3b82f6',
+  gradientAngle: 135,
+  blurRadius: 20,
+  imageFit: 'cover',
+  subjectScale: 1,
+  subjectOffsetX: 0,
+  subjectOffsetY: 0,
+};
+
+// 摄像头实时预览直接绘制到页面上的画布
+type Context2D = OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D;
+
+export function fillGradient(context: Context2D, width: number, height: number, background: BackgroundReplacement) {
+  const angle = (background.gradientAngle * Math.PI) / 180;
+  // 渐变线长度覆盖整个画布
+  const length = Math.abs(width * Math.cos(angle)) + Math.abs(height * Math.sin(angle));
+  const dx = (Math.cos(angle) * length) / 2;
+  const dy = (Math.sin(angle) * length) / 2;
+  const gradient = context.createLinearGradient(width / 2 - dx, height / 2 - dy, width / 2 + dx, height / 2 + dy);
+  gradient.addColorStop(0, background.gradientFrom);
+  gradient.addColorStop(1, background.gradientTo);
+  context.fillStyle = gradient;
+  context.fillRect(0, 0, width, height);
+}
+
+function drawBlurredOriginal(context: Context2D, original: ImageData, radius: number) {
+  const { width, height } = original;
+  const source = createCanvas(width, height);
+  getContext2D(source).putImageData(original, 0, 0);
+
+  if (typeof context.filter === 'string') {
+    // 向外扩展绘制，避免模糊后边缘透出透明像素
+    context.filter = `blur(${radius}px)`;
+    context.drawImage(source, -radius, -radius, width + radius * 2, height + radius * 2);
+    context.filter = 'none';
+    return;
+  }
+
+  // 不支持 filter 时，先缩小再放大得到近似模糊效果
+  const factor = Math.max(1, radius / 2);
+  const small = createCanvas(Math.max(1, Math.round(width / factor)), Math.max(1, Math.round(height / factor)));
+  const smallContext = getContext2D(small);
+  smallContext.imageSmoothingQuality = 'high';
+  smallContext.drawImage(source, 0, 0, small.width, small.height);
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(small, 0, 0, width, height);
+}
+
+// 按填充方式将背景图片绘制到整个画布
+export function drawFittedImage(context: Context2D, bitmap: ImageBitmap, width: number, height: number, fit: BackgroundImageFit) {
+  if (fit === 'stretch') {
+    context.drawImage(bitmap, 0, 0, width, height);
+    return;
+  }
+
+  const scale = fit === 'cover'
+    ? Math.max(width / bitmap.width, height / bitmap.height)
+    : Math.min(width / bitmap.width, height / bitmap.height);
+  const drawWidth = bitmap.width * scale;
+  const drawHeight = bitmap.height * scale;
+  context.drawImage(bitmap, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+}
+
+async function drawBackgroundImage(context: Context2D, width: number, height: number, background: BackgroundReplacement) {
+  if (!background.image) return;
+
+  const bitmap = await createImageBitmap(background.image);
+  try {
+    drawFittedImage(context, bitmap, width, height, background.imageFit);
+  } finally {
+    bitmap.close();
+  }
+}
+
+// 按缩放和偏移放置主体
+export function drawSubject(context: Context2D, subject: CanvasImageSource, width: number, height: number, background: BackgroundReplacement) {
+  const drawWidth = width * background.subjectScale;
+  const drawHeight = height * background.subjectScale;
+  const x = (width - drawWidth) / 2 + background.subjectOffsetX * width;
+  const y = (height - drawHeight) / 2 + background.subjectOffsetY * height;
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(subject, x, y, drawWidth, drawHeight);
+}
+
+// 将已去除背景的主体合成到新的背景上
+export async function compositeBackground(
+  foreground: ImageData,
+  original: ImageData,
+  background: BackgroundReplacement
+): Promise<ImageData> {
+  const { width, height } = foreground;
+  const canvas = createCanvas(width, height);
+  const context = getContext2D(canvas);
+
+  switch (background.mode) {
+    case 'color':
+      context.fillStyle = background.color;
+      context.fillRect(0, 0, width, height);
+      break;
+    case 'gradient':
+      fillGradient(context, width, height, background);
+      break;
+    case 'blur':
+      drawBlurredOriginal(context, original, background.blurRadius);
+      break;
+    case 'image':
+      await drawBackgroundImage(context, width, height, background);
+      break;
+    case 'none':
+      break;
+  }
+
+  const subject = createCanvas(width, height);
+  getContext2D(subject).putImageData(foreground, 0, 0);
+  drawSubject(context, subject, width, height, background);
+
+  return context.getImageData(0, 0, width, height);
+}
@@ -0,0 +1,175 @@
+import { createCanvas, getContext2D, MaskData } from './imageUtils';
+import { localized } from '../i18n';
+
+export type CropPresetId = 'trim' | 'square' | 'portrait' | 'story' | 'passport-cn' | 'passport-eu' | 'passport-us';
+
+export interface CropPreset {
+  id: CropPresetId;
+  label: string;
+  desc: string;
+  // 目标尺寸（像素），宽高比由此确定；贴合主体时不限制
+  width?: number;
+  height?: number;
+}
+
+// 证件照尺寸按 300 DPI 换算
+export const cropPresets: CropPreset[] = [
+  localized({ id: 'trim' }, { label: 'crop.presets.trim.label', desc: 'crop.presets.trim.desc' }),
+  localized({ id: 'square', desc: '2000×2000', width: 2000, height: 2000 }, { label: 'crop.presets.square.label' }),
+  localized({ id: 'portrait', desc: '1080×1350', width: 1080, height: 1350 }, { label: 'crop.presets.portrait.label' }),
+  localized({ id: 'story', desc: '1080×1920', width: 1080, height: 1920 }, { label: 'crop.presets.story.label' }),
+  localized({ id: 'passport-cn', desc: '390×567', width: 390, height: 567 }, { label: 'crop.presets.passport-cn.label' }),
+  localized({ id: 'passport-eu', desc: '413×531', width: 413, height: 531 }, { label: 'crop.presets.passport-eu.label' }),
+  localized({ id: 'passport-us', desc: '600×600', width: 600, height: 600 }, { label: 'crop.presets.passport-us.label' })
+];
+
+export interface CropSettings {
+  enabled: boolean;
+  preset: CropPresetId;
+  // 主体四周留白，占主体较长边的百分比
+  padding: number;
+  // 主体居中；关闭时裁剪框尽量保持在原图范围内
+  center: boolean;
+  // 缩放到预设的目标尺寸
+  resizeToTarget: boolean;
+}
+
+export const defaultCropSettings: CropSettings = {
+  enabled: false,
+  preset: 'trim',
+  padding: 5,
+  center: true,
+  resizeToTarget: true,
+};
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// 透明度高于该值的像素视为主体
+const SUBJECT_ALPHA = 8;
+
+export function getCropPreset(id: CropPresetId): CropPreset {
+  return cropPresets.find((preset) => preset.id === id) ?? cropPresets[0];
+}
+
+// 根据蒙版计算主体的边界框，没有主体时返回 null
+export function findSubjectBounds(mask: MaskData): Rect | null {
+  const { width, height, data } = mask;
+  let minX = width;
+  let minY = height;
+  let maxX = -1;
+  let maxY = -1;
+
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    for (let x = 0; x < width; x++) {
+      if (data[row + x] > SUBJECT_ALPHA) {
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+      }
+    }
+  }
+
+  if (maxX < 0) return null;
+  return { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+}
+
+// 将一维裁剪区间尽量移入 [0, limit] 范围
+function fitInside(start: number, size: number, limit: number): number {
+  if (size >= limit) return (limit - size) / 2;
+  return Math.min(Math.max(start, 0), limit - size);
+}
+
+// 计算裁剪区域：主体边界 + 留白，再扩展到预设宽高比
+// expandBounds 用于把主体之外需要保留的内容（例如阴影和描边）计入主体边界
+export function computeCropRect(
+  mask: MaskData,
+  settings: CropSettings,
+  expandBounds?: (bounds: Rect) => Rect
+): Rect | null {
+  const subjectBounds = findSubjectBounds(mask);
+  if (!subjectBounds) return null;
+  const bounds = expandBounds ? expandBounds(subjectBounds) : subjectBounds;
+
+  const padding = (Math.max(bounds.width, bounds.height) * settings.padding) / 100;
+  let width = bounds.width + padding * 2;
+  let height = bounds.height + padding * 2;
+
+  const preset = getCropPreset(settings.preset);
+  if (preset.width && preset.height) {
+    const aspect = preset.width / preset.height;
+    if (width / height > aspect) {
+      height = width / aspect;
+    } else {
+      width = height * aspect;
+    }
+  }
+
+  const centerX = bounds.x + bounds.width / 2;
+  const centerY = bounds.y + bounds.height / 2;
+  let x = centerX - width / 2;
+  let y = centerY - height / 2;
+
+  if (!settings.center) {
+    x = fitInside(x, width, mask.width);
+    y = fitInside(y, height, mask.height);
+  }
+
+  return {
+    x: Math.round(x),
+    y: Math.round(y),
+    width: Math.max(1, Math.round(width)),
+    height: Math.max(1, Math.round(height))
+  };
+}
+
+// 裁剪图像，超出原图的部分为透明；逐行复制像素，不依赖画布，命令行中同样可用
+export function cropImageData(image: ImageData, rect: Rect): ImageData {
+  const result = new ImageData(rect.width, rect.height);
+  const left = Math.max(0, -rect.x);
+  const right = Math.min(rect.width, image.width - rect.x);
+  if (right <= left) return result;
+
+  for (let y = 0; y < rect.height; y++) {
+    const sourceY = y + rect.y;
+    if (sourceY < 0 || sourceY >= image.height) continue;
+    const sourceStart = (sourceY * image.width + rect.x + left) * 4;
+    const sourceEnd = (sourceY * image.width + rect.x + right) * 4;
+    result.data.set(image.data.subarray(sourceStart, sourceEnd), (y * rect.width + left) * 4);
+  }
+  return result;
+}
+
+// 裁剪蒙版，超出原图的部分视为背景
+export function cropMask(mask: MaskData, rect: Rect): MaskData {
+  const data = new Uint8ClampedArray(rect.width * rect.height);
+  for (let y = 0; y < rect.height; y++) {
+    const sourceY = y + rect.y;
+    if (sourceY < 0 || sourceY >= mask.height) continue;
+    for (let x = 0; x < rect.width; x++) {
+      const sourceX = x + rect.x;
+      if (sourceX < 0 || sourceX >= mask.width) continue;
+      data[y * rect.width + x] = mask.data[sourceY * mask.width + sourceX];
+    }
+  }
+  return { width: rect.width, height: rect.height, data };
+}
+
+export function resizeImageData(image: ImageData, width: number, height: number): ImageData {
+  if (image.width === width && image.height === height) return image;
+
+  const source = createCanvas(image.width, image.height);
+  getContext2D(source).putImageData(image, 0, 0);
+
+  const canvas = createCanvas(width, height);
+  const context = getContext2D(canvas);
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(source, 0, 0, width, height);
+  return context.getImageData(0, 0, width, height);
+}
@@ -0,0 +1,115 @@
+import { zip, Zippable } from 'fflate';
+import { getOutputFormat } from './outputFormats';
+import type { OutputType, ProcessingConfig } from './backgroundRemoval';
+
+// 输出类型对应的文件名前缀
+const outputTypePrefixes: Record<OutputType, string> = {
+  foreground: 'no-bg',
+  background: 'bg-only',
+  mask: 'mask',
+};
+
+// 根据输出格式确定文件扩展名
+export function getFileExtension(format: ProcessingConfig['output']['format']): string {
+  return getOutputFormat(format).extension;
+}
+
+export function stripExtension(filename: string): string {
+  return filename.replace(/\.[^/.]+$/, '');
+}
+
+// 生成处理结果的下载文件名，例如 no-bg-photo.png
+export function getOutputFilename(filename: string, output: ProcessingConfig['output']): string {
+  return `${outputTypePrefixes[output.type]}-${stripExtension(filename)}.${getFileExtension(output.format)}`;
+}
+
+export function getMaskFilename(filename: string): string {
+  return `${outputTypePrefixes.mask}-${stripExtension(filename)}.png`;
+}
+
+// 输出格式无法嵌入元数据时附带的 JSON 文件，例如 no-bg-photo.json
+export function getMetadataFilename(filename: string, output: ProcessingConfig['output']): string {
+  return `${outputTypePrefixes[output.type]}-${stripExtension(filename)}.json`;
+}
+
+// 通过临时链接触发浏览器下载
+export function downloadUrl(url: string, filename: string): void {
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+}
+
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  downloadUrl(url, filename);
+  // 等待浏览器开始下载后再释放链接
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export interface ZipEntrySource {
+  filename: string;
+  output: ProcessingConfig['output'];
+  processed: Blob;
+  // 处理信息的附带文件
+  metadata?: Blob;
+  mask?: Blob;
+  original?: Blob;
+}
+
+export interface ZipOptions {
+  includeMask: boolean;
+  includeOriginal: boolean;
+}
+
+// 同名文件追加序号，避免在压缩包中互相覆盖
+function uniqueName(name: string, usedNames: Set<string>): string {
+  let candidate = name;
+  let index = 1;
+  while (usedNames.has(candidate)) {
+    const extension = name.match(/\.[^/.]+$/)?.[0] ?? '';
+    candidate = `${stripExtension(name)}-${index++}${extension}`;
+  }
+  usedNames.add(candidate);
+  return candidate;
+}
+
+// 在浏览器中将批量处理结果打包为 ZIP
+export async function createResultsZip(entries: ZipEntrySource[], options: ZipOptions): Promise<Blob> {
+  const files: Zippable = {};
+  const usedNames = new Set<string>();
+
+  const addFile = async (name: string, blob: Blob) => {
+    files[uniqueName(name, usedNames)] = new Uint8Array(await blob.arrayBuffer());
+  };
+
+  for (const entry of entries) {
+    await addFile(getOutputFilename(entry.filename, entry.output), entry.processed);
+
+    if (entry.metadata) {
+      await addFile(getMetadataFilename(entry.filename, entry.output), entry.metadata);
+    }
+
+    if (options.includeMask && entry.mask && entry.output.type !== 'mask') {
+      await addFile(getMaskFilename(entry.filename), entry.mask);
+    }
+
+    if (options.includeOriginal && entry.original) {
+      await addFile(entry.filename, entry.original);
+    }
+  }
+
+  // 图片本身已压缩，直接存储即可
+  const data = await new Promise<Uint8Array>((resolve, reject) => {
+    zip(files, { level: 0 }, (error, result) => {
+      if (error) {
+        reject(error);
+      } else {
+        resolve(result);
+      }
+    });
+  });
+  return new Blob([data], { type: 'application/zip' });
+}
@@ -0,0 +1,171 @@
+import { localized } from '../i18n';
+
+// 处理失败的分类：界面和集成方根据错误码给出具体提示和恢复方式，原始错误保存在 cause 中
+
+export type ProcessingErrorCode =
+  | 'UNSUPPORTED_FORMAT'
+  | 'FILE_TOO_LARGE'
+  | 'DECODE_FAILED'
+  | 'MODEL_FETCH_FAILED'
+  | 'OUT_OF_MEMORY'
+  | 'DEVICE_UNAVAILABLE'
+  | 'CANCELLED'
+  | 'UNKNOWN';
+
+// 界面提供的恢复操作
+export type RecoveryAction = 'retry' | 'retry-on-cpu' | 'downscale' | 'reload-model' | 'open-settings' | 'choose-another';
+
+// 恢复操作的按钮文本，随界面语言变化
+export const recoveryActionLabels: Record<RecoveryAction, string> = localized({}, {
+  retry: 'recovery.retry',
+  'retry-on-cpu': 'recovery.retry-on-cpu',
+  downscale: 'recovery.downscale',
+  'reload-model': 'recovery.reload-model',
+  'open-settings': 'recovery.open-settings',
+  'choose-another': 'recovery.choose-another',
+});
+
+export interface ErrorGuide {
+  message: string;
+  // 处理建议，没有时为空字符串
+  hint: string;
+  actions: RecoveryAction[];
+}
+
+function guide(code: ProcessingErrorCode, actions: RecoveryAction[]): ErrorGuide {
+  return localized({ actions }, { message: `errors.${code}.message`, hint: `errors.${code}.hint` });
+}
+
+// 各错误码的默认信息、处理建议和可用的恢复操作；信息和建议随界面语言变化
+export const errorGuides: Record<ProcessingErrorCode, ErrorGuide> = {
+  UNSUPPORTED_FORMAT: guide('UNSUPPORTED_FORMAT', ['choose-another']),
+  FILE_TOO_LARGE: guide('FILE_TOO_LARGE', ['choose-another']),
+  DECODE_FAILED: guide('DECODE_FAILED', ['choose-another']),
+  MODEL_FETCH_FAILED: guide('MODEL_FETCH_FAILED', ['reload-model', 'open-settings']),
+  OUT_OF_MEMORY: guide('OUT_OF_MEMORY', ['downscale', 'retry']),
+  DEVICE_UNAVAILABLE: guide('DEVICE_UNAVAILABLE', ['retry-on-cpu']),
+  CANCELLED: guide('CANCELLED', ['retry']),
+  UNKNOWN: guide('UNKNOWN', ['retry']),
+};
+
+// 当前设置下可用的恢复操作：已经使用 CPU 时不再提供改用 CPU
+export function getRecoveryActions(code: ProcessingErrorCode, device: 'cpu' | 'gpu'): RecoveryAction[] {
+  const actions = errorGuides[code].actions.filter((action) => action !== 'retry-on-cpu' || device === 'gpu');
+  return actions.length > 0 ? actions : ['retry'];
+}
+
+export class ProcessingError extends Error {
+  readonly code: ProcessingErrorCode;
+  // 原始错误；来自 Worker 时只保留名称、信息和调用栈
+  readonly cause?: unknown;
+
+  constructor(code: ProcessingErrorCode, message: string = errorGuides[code].message, cause?: unknown) {
+    super(message);
+    this.name = 'ProcessingError';
+    this.code = code;
+    this.cause = cause;
+  }
+}
+
+export class UnsupportedFormatError extends ProcessingError {
+  constructor(message?: string, cause?: unknown) {
+    super('UNSUPPORTED_FORMAT', message, cause);
+    this.name = 'UnsupportedFormatError';
+  }
+}
+
+export class FileTooLargeError extends ProcessingError {
+  constructor(message?: string, cause?: unknown) {
+    super('FILE_TOO_LARGE', message, cause);
+    this.name = 'FileTooLargeError';
+  }
+}
+
+export class DecodeError extends ProcessingError {
+  constructor(message?: string, cause?: unknown) {
+    super('DECODE_FAILED', message, cause);
+    this.name = 'DecodeError';
+  }
+}
+
+export class ModelFetchError extends ProcessingError {
+  constructor(message?: string, cause?: unknown) {
+    super('MODEL_FETCH_FAILED', message, cause);
+    this.name = 'ModelFetchError';
+  }
+}
+
+export class OutOfMemoryError extends ProcessingError {
+  constructor(message?: string, cause?: unknown) {
+    super('OUT_OF_MEMORY', message, cause);
+    this.name = 'OutOfMemoryError';
+  }
+}
+
+export class DeviceUnavailableError extends ProcessingError {
+  constructor(message?: string, cause?: unknown) {
+    super('DEVICE_UNAVAILABLE', message, cause);
+    this.name = 'DeviceUnavailableError';
+  }
+}
+
+// 用户取消处理时抛出
+export class ProcessingCancelledError extends ProcessingError {
+  constructor(message?: string, cause?: unknown) {
+    super('CANCELLED', message, cause);
+    this.name = 'ProcessingCancelledError';
+  }
+}
+
+// 按错误码创建对应的子类，用于还原 Worker 传回的错误
+export function createProcessingError(code: ProcessingErrorCode, message?: string, cause?: unknown): ProcessingError {
+  switch (code) {
+    case 'UNSUPPORTED_FORMAT': return new UnsupportedFormatError(message, cause);
+    case 'FILE_TOO_LARGE': return new FileTooLargeError(message, cause);
+    case 'DECODE_FAILED': return new DecodeError(message, cause);
+    case 'MODEL_FETCH_FAILED': return new ModelFetchError(message, cause);
+    case 'OUT_OF_MEMORY': return new OutOfMemoryError(message, cause);
+    case 'DEVICE_UNAVAILABLE': return new DeviceUnavailableError(message, cause);
+    case 'CANCELLED': return new ProcessingCancelledError(message, cause);
+    case 'UNKNOWN': return new ProcessingError('UNKNOWN', message, cause);
+  }
+}
+
+// 库和 onnxruntime 只抛出普通错误，按信息内容识别原因；靠前的规则优先
+const errorPatterns: [ProcessingErrorCode, RegExp][] = [
+  ['OUT_OF_MEMORY', /out of memory|allocation failed|bad_alloc|memory access out of bounds|cannot enlarge memory|array buffer allocation/i],
+  ['DEVICE_UNAVAILABLE', /webgpu|gpu adapter|requestadapter|gpudevice|device (was )?lost|jsep/i],
+  ['MODEL_FETCH_FAILED', /failed to fetch|networkerror|network error|publicpath|resource .* not found|resource metadata/i],
+  ['DECODE_FAILED', /decode|invalid format|source image|unsupported image/i],
+];
+
+// 将任意错误归类为 ProcessingError；无法识别时使用 fallback
+export function toProcessingError(error: unknown, fallback: ProcessingErrorCode = 'UNKNOWN'): ProcessingError {
+  if (error instanceof ProcessingError) return error;
+
+  const text = error instanceof Error ? `${error.name} ${error.message}` : String(error);
+  const matched = errorPatterns.find(([, pattern]) => pattern.test(text));
+  // RangeError 多为大数组分配失败
+  const code = matched?.[0] ?? (error instanceof RangeError ? 'OUT_OF_MEMORY' : fallback);
+  return createProcessingError(code, undefined, error);
+}
+
+// 可通过 postMessage 传递的错误信息
+export interface SerializedError {
+  name: string;
+  message: string;
+  stack?: string;
+}
+
+export function serializeError(error: unknown): SerializedError {
+  return error instanceof Error
+    ? { name: error.name, message: error.message, stack: error.stack }
+    : { name: 'Error', message: String(error) };
+}
+
+export function deserializeError({ name, message, stack }: SerializedError): Error {
+  const error = new Error(message);
+  error.name = name;
+  error.stack = stack;
+  return error;
+}
@@ -0,0 +1,34 @@
+import { formatNumber, getLocale } from '../i18n';
+
+// 数字、大小、比例和时间按当前界面语言格式化
+
+// 将字节数格式化为易读的文件大小
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${formatNumber(bytes)} B`;
+
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let value = bytes / 1024;
+  let unitIndex = 0;
+  while (value >= 1024 && unitIndex < units.length - 1) {
+    value /= 1024;
+    unitIndex++;
+  }
+  const digits = value >= 100 ? 0 : 1;
+  return `${formatNumber(value, { minimumFractionDigits: digits, maximumFractionDigits: digits })} ${units[unitIndex]}`;
+}
+
+// 将 0-1 的比例格式化为百分比
+export function formatPercent(ratio: number, maximumFractionDigits = 0): string {
+  return formatNumber(ratio, { style: 'percent', maximumFractionDigits });
+}
+
+export function formatDateTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleString(getLocale());
+}
+
+// 将毫秒格式化为耗时，1 秒以内显示毫秒
+export function formatDuration(ms: number): string {
+  return ms < 1000
+    ? `${formatNumber(Math.round(ms))} ms`
+    : `${formatNumber(ms / 1000, { minimumFractionDigits: 1, maximumFractionDigits: 1 })} s`;
+}
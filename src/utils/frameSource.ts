@@ -0,0 +1,197 @@
+import { createCanvas, getContext2D } from './imageUtils';
+import { t } from '../i18n';
+
+// 视频和动图的逐帧解码：视频通过 <video> 按固定帧率定位抽帧，动图通过 WebCodecs 的 ImageDecoder 解码
+
+// 单个视频或动图最多处理的帧数
+export const MAX_FRAMES = 300;
+// 逐帧推理较慢，帧的长边超过该值时缩小
+export const MAX_FRAME_EDGE = 1280;
+// 动图帧没有时长信息时使用的默认值
+const DEFAULT_FRAME_DURATION = 100;
+
+export interface DecodedFrame {
+  image: ImageData;
+  durationMs: number;
+}
+
+export interface FrameSource {
+  kind: 'video' | 'animation';
+  width: number;
+  height: number;
+  frameCount: number;
+  // 超过 MAX_FRAMES 时只处理前面的帧
+  truncated: boolean;
+  readFrame(index: number): Promise<DecodedFrame>;
+  close(): void;
+}
+
+// WebCodecs ImageDecoder 的最小类型定义（TypeScript 的 DOM 类型中尚未包含）
+interface ImageDecoderLike {
+  tracks: { ready: Promise<void>; selectedTrack: { frameCount: number; animated: boolean } | null };
+  decode(options: { frameIndex: number }): Promise<{ image: VideoFrame }>;
+  close(): void;
+}
+
+type ImageDecoderConstructor = new (init: { data: ArrayBuffer; type: string }) => ImageDecoderLike;
+
+const ANIMATED_IMAGE_TYPES = ['image/gif', 'image/webp', 'image/apng', 'image/png'];
+
+function getImageDecoder(): ImageDecoderConstructor | undefined {
+  return (globalThis as { ImageDecoder?: ImageDecoderConstructor }).ImageDecoder;
+}
+
+export function isVideoFile(file: File): boolean {
+  return file.type.startsWith('video/');
+}
+
+// 缩放到不超过 MAX_FRAME_EDGE
+function getFrameSize(width: number, height: number) {
+  const scale = Math.min(1, MAX_FRAME_EDGE / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+}
+
+async function openImageDecoder(file: File): Promise<ImageDecoderLike | null> {
+  const ImageDecoder = getImageDecoder();
+  if (!ImageDecoder || !ANIMATED_IMAGE_TYPES.includes(file.type)) return null;
+
+  const decoder = new ImageDecoder({ data: await file.arrayBuffer(), type: file.type });
+  try {
+    await decoder.tracks.ready;
+  } catch {
+    decoder.close();
+    return null;
+  }
+  return decoder;
+}
+
+// 判断 GIF/WebP/PNG 是否包含多帧；浏览器不支持 ImageDecoder 时按静态图片处理
+export async function isAnimatedImage(file: File): Promise<boolean> {
+  const decoder = await openImageDecoder(file);
+  if (!decoder) return false;
+  const track = decoder.tracks.selectedTrack;
+  decoder.close();
+  return track !== null && track.frameCount > 1;
+}
+
+export async function isAnimatedSource(file: File): Promise<boolean> {
+  return isVideoFile(file) || isAnimatedImage(file);
+}
+
+function waitForEvent(target: HTMLMediaElement, event: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      target.removeEventListener(event, onEvent);
+      target.removeEventListener('error', onError);
+    };
+    const onEvent = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = () => {
+      cleanup();
+      reject(new Error(t('animation.errors.videoDecode')));
+    };
+    target.addEventListener(event, onEvent, { once: true });
+    target.addEventListener('error', onError, { once: true });
+  });
+}
+
+async function openVideo(file: File, fps: number): Promise<FrameSource> {
+  const url = URL.createObjectURL(file);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+  video.src = url;
+
+  try {
+    await waitForEvent(video, 'loadeddata');
+    // MediaRecorder 录制的 WebM 没有时长信息，定位到末尾后浏览器才会计算出来
+    if (!Number.isFinite(video.duration)) {
+      video.currentTime = Number.MAX_SAFE_INTEGER;
+      await waitForEvent(video, 'seeked');
+    }
+  } catch (error) {
+    URL.revokeObjectURL(url);
+    throw error;
+  }
+
+  const { width, height } = getFrameSize(video.videoWidth, video.videoHeight);
+  const totalFrames = Math.max(1, Math.floor(video.duration * fps));
+  const canvas = createCanvas(width, height);
+  const context = getContext2D(canvas);
+
+  return {
+    kind: 'video',
+    width,
+    height,
+    frameCount: Math.min(totalFrames, MAX_FRAMES),
+    truncated: totalFrames > MAX_FRAMES,
+    async readFrame(index) {
+      const time = Math.min(index / fps, Math.max(0, video.duration - 0.001));
+      if (Math.abs(video.currentTime - time) > 0.0005 || video.readyState < 2) {
+        const seeked = waitForEvent(video, 'seeked');
+        video.currentTime = time;
+        await seeked;
+      }
+      context.clearRect(0, 0, width, height);
+      context.drawImage(video, 0, 0, width, height);
+      return { image: context.getImageData(0, 0, width, height), durationMs: 1000 / fps };
+    },
+    close() {
+      video.removeAttribute('src');
+      video.load();
+      URL.revokeObjectURL(url);
+    },
+  };
+}
+
+async function openAnimation(file: File): Promise<FrameSource> {
+  const decoder = await openImageDecoder(file);
+  const track = decoder?.tracks.selectedTrack;
+  if (!decoder || !track) {
+    decoder?.close();
+    throw new Error(t('animation.errors.animatedUnsupported'));
+  }
+
+  let first: VideoFrame;
+  try {
+    first = (await decoder.decode({ frameIndex: 0 })).image;
+  } catch {
+    decoder.close();
+    throw new Error(t('animation.errors.animatedDecode'));
+  }
+  const { width, height } = getFrameSize(first.displayWidth, first.displayHeight);
+  first.close();
+  const canvas = createCanvas(width, height);
+  const context = getContext2D(canvas);
+
+  return {
+    kind: 'animation',
+    width,
+    height,
+    frameCount: Math.min(track.frameCount, MAX_FRAMES),
+    truncated: track.frameCount > MAX_FRAMES,
+    async readFrame(index) {
+      // ImageDecoder 返回的是已合成的完整帧
+      const frame = (await decoder.decode({ frameIndex: index })).image;
+      try {
+        context.clearRect(0, 0, width, height);
+        context.drawImage(frame, 0, 0, width, height);
+        const durationMs = frame.duration ? frame.duration / 1000 : DEFAULT_FRAME_DURATION;
+        return { image: context.getImageData(0, 0, width, height), durationMs };
+      } finally {
+        frame.close();
+      }
+    },
+    close() {
+      decoder.close();
+    },
+  };
+}
+
+// 打开视频或动图，fps 只对视频生效（动图保留原始帧和时长）
+export function openFrameSource(file: File, fps: number): Promise<FrameSource> {
+  return isVideoFile(file) ? openVideo(file, fps) : openAnimation(file);
+}
@@ -0,0 +1,101 @@
+import type { ProcessingConfig, ProcessingStats } from './backgroundRemoval';
+import { t } from '../i18n';
+
+// 处理历史保存在 IndexedDB 中，刷新页面后仍可重新打开和导出
+
+const DB_NAME = 'background-removal';
+const DB_VERSION = 1;
+const STORE_NAME = 'history';
+
+export interface HistoryEntry {
+  id: string;
+  filename: string;
+  createdAt: number;
+  original: Blob;
+  // 推理（或手动精修）得到的原始蒙版，重新导出时基于它生成输出
+  mask: Blob;
+  refinedMask: Blob;
+  output: Blob;
+  // 输出无法在浏览器中显示（PSD、TIFF）时的 PNG 预览
+  preview?: Blob;
+  config: ProcessingConfig;
+  stats?: ProcessingStats;
+}
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+          store.createIndex('createdAt', 'createdAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error ?? new Error(t('history.errors.open')));
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error(t('history.errors.request')));
+  });
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORE_NAME, mode);
+  return promisifyRequest(run(transaction.objectStore(STORE_NAME)));
+}
+
+export function createHistoryId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+// 新增或更新一条记录，更新时保留原有的创建时间，记录在历史中的位置不变
+export async function saveHistoryEntry(entry: HistoryEntry): Promise<void> {
+  const db = await openDatabase();
+  const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+  const existing = await promisifyRequest<HistoryEntry | undefined>(store.get(entry.id));
+  await promisifyRequest(store.put(existing ? { ...entry, createdAt: existing.createdAt } : entry));
+}
+
+// 按时间倒序返回全部记录
+export async function listHistoryEntries(): Promise<HistoryEntry[]> {
+  const entries = await withStore<HistoryEntry[]>('readonly', (store) => store.index('createdAt').getAll());
+  return entries.reverse();
+}
+
+export async function deleteHistoryEntry(id: string): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(id));
+}
+
+export async function clearHistory(): Promise<void> {
+  await withStore('readwrite', (store) => store.clear());
+}
+
+// 浏览器分配给本站的存储空间使用情况
+export async function getStorageUsage(): Promise<StorageUsage | null> {
+  if (!navigator.storage?.estimate) return null;
+
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+}
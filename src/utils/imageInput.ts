@@ -0,0 +1,105 @@
+import { decodeImage, encodeImageData } from './imageUtils';
+import type { ImageSize } from './largeImage';
+import { t } from '../i18n';
+
+// 剪贴板、网络地址等非文件选择方式的图片输入，以及复制结果到剪贴板
+
+const mimeExtensions: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/bmp': 'bmp',
+};
+
+function getExtension(mimeType: string): string {
+  return mimeExtensions[mimeType] ?? 'png';
+}
+
+// 从粘贴事件中取出图片文件；截图等粘贴内容的文件名通常为 image.png，这里加上时间戳区分
+export function getClipboardImageFiles(data: DataTransfer | null): File[] {
+  if (!data) return [];
+
+  const timestamp = Date.now();
+  return Array.from(data.items)
+    .filter((item) => item.kind === 'file' && item.type.startsWith('image/'))
+    .map((item) => item.getAsFile())
+    .filter((file): file is File => file !== null)
+    .map((file, index) => {
+      const suffix = index > 0 ? `-${index + 1}` : '';
+      return new File([file], `pasted-${timestamp}${suffix}.${getExtension(file.type)}`, { type: file.type });
+    });
+}
+
+// 判断文本是否为可加载的图片地址
+export function isImageUrl(text: string): boolean {
+  try {
+    const url = new URL(text.trim());
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+function getFilenameFromUrl(url: URL, mimeType: string): string {
+  const name = decodeURIComponent(url.pathname.split('/').pop() ?? '');
+  if (/\.[a-z0-9]+$/i.test(name)) return name;
+  return `${name || 'image'}.${getExtension(mimeType)}`;
+}
+
+// 下载网络图片；目标站点不允许跨域访问时浏览器只会抛出 TypeError，无法区分具体原因
+export async function fetchImageFromUrl(text: string, signal?: AbortSignal): Promise<File> {
+  if (!isImageUrl(text)) {
+    throw new Error(t('input.errors.invalidUrl'));
+  }
+  const url = new URL(text.trim());
+
+  let response: Response;
+  try {
+    response = await fetch(url, { signal, mode: 'cors' });
+  } catch (err) {
+    if (signal?.aborted) throw err;
+    throw new Error(t('input.errors.fetchBlocked'));
+  }
+
+  if (!response.ok) {
+    throw new Error(t('input.errors.httpStatus', { status: response.status }));
+  }
+
+  const blob = await response.blob();
+  const mimeType = blob.type.split(';')[0];
+  if (!mimeType.startsWith('image/')) {
+    throw new Error(t('input.errors.notImage'));
+  }
+
+  return new File([blob], getFilenameFromUrl(url, mimeType), { type: mimeType });
+}
+
+// 复制图片到系统剪贴板；浏览器普遍只支持写入 PNG，其他格式先转换
+export async function copyImageToClipboard(blob: Blob): Promise<void> {
+  if (!navigator.clipboard?.write || typeof ClipboardItem === 'undefined') {
+    throw new Error(t('input.errors.clipboardUnsupported'));
+  }
+
+  const png = blob.type === 'image/png'
+    ? blob
+    : await encodeImageData(await decodeImage(blob), { format: 'image/png', quality: 1 });
+  await navigator.clipboard.write([new ClipboardItem({ 'image/png': png })]);
+}
+
+// 读取图片尺寸，用于在处理前判断是否为大图
+export function readImageSize(file: Blob): Promise<ImageSize> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve({ width: image.naturalWidth, height: image.naturalHeight });
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error(t('input.errors.unreadable')));
+    };
+    image.src = url;
+  });
+}
@@ -0,0 +1,97 @@
+import type { OutputType, ProcessingConfig } from './backgroundRemoval';
+import { encodeAvif } from './outputFormats';
+import { t } from '../i18n';
+
+// 单通道蒙版数据，data 中每个像素一个字节（0 为背景，255 为前景）
+export interface MaskData {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+export function createCanvas(width: number, height: number): OffscreenCanvas {
+  return new OffscreenCanvas(width, height);
+}
+
+export function getContext2D(canvas: OffscreenCanvas): OffscreenCanvasRenderingContext2D {
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error(t('common.errors.canvasContext'));
+  }
+  return context;
+}
+
+// 将图片解码为像素数据
+export async function decodeImage(source: Blob): Promise<ImageData> {
+  const bitmap = await createImageBitmap(source);
+  try {
+    const canvas = createCanvas(bitmap.width, bitmap.height);
+    const context = getContext2D(canvas);
+    context.drawImage(bitmap, 0, 0);
+    return context.getImageData(0, 0, bitmap.width, bitmap.height);
+  } finally {
+    bitmap.close();
+  }
+}
+
+// 将像素数据编码为指定格式的图片
+export async function encodeImageData(
+  imageData: ImageData,
+  output: Pick<ProcessingConfig['output'], 'format' | 'quality'>
+): Promise<Blob> {
+  const canvas = createCanvas(imageData.width, imageData.height);
+  getContext2D(canvas).putImageData(imageData, 0, 0);
+  const blob = await canvas.convertToBlob({ type: output.format, quality: output.quality });
+  // 不支持的格式会静默导出为 PNG；AVIF 改用 WASM 编码器
+  if (output.format === 'image/avif' && blob.type !== 'image/avif') {
+    return encodeAvif(imageData, output.quality);
+  }
+  return blob;
+}
+
+// 从图片的 alpha 通道提取蒙版
+export function extractMask(imageData: ImageData): MaskData {
+  const { width, height } = imageData;
+  const data = new Uint8ClampedArray(width * height);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = imageData.data[i * 4 + 3];
+  }
+  return { width, height, data };
+}
+
+// 从黑白蒙版图像（maskToImageData 的结果）还原蒙版
+export function extractMaskFromGrayscale(imageData: ImageData): MaskData {
+  const { width, height } = imageData;
+  const data = new Uint8ClampedArray(width * height);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = imageData.data[i * 4];
+  }
+  return { width, height, data };
+}
+
+// 将蒙版转换为不透明的黑白图像
+export function maskToImageData(mask: MaskData): ImageData {
+  const imageData = new ImageData(mask.width, mask.height);
+  for (let i = 0; i < mask.data.length; i++) {
+    const index = i * 4;
+    imageData.data[index] = mask.data[i];
+    imageData.data[index + 1] = mask.data[i];
+    imageData.data[index + 2] = mask.data[i];
+    imageData.data[index + 3] = 255;
+  }
+  return imageData;
+}
+
+// 根据输出类型将原图与蒙版合成为结果图像
+export function composeOutput(image: ImageData, mask: MaskData, type: OutputType): ImageData {
+  if (type === 'mask') {
+    return maskToImageData(mask);
+  }
+
+  const result = new ImageData(new Uint8ClampedArray(image.data), image.width, image.height);
+  for (let i = 0; i < mask.data.length; i++) {
+    const alpha = type === 'foreground' ? mask.data[i] : 255 - mask.data[i];
+    result.data[i * 4 + 3] = Math.round((image.data[i * 4 + 3] * alpha) / 255);
+  }
+  return result;
+}
@@ -0,0 +1,174 @@
+import type { MaskData } from './imageUtils';
+import { localized } from '../i18n';
+
+// 大图处理：在较低的工作分辨率下推理，再借助原图边缘把蒙版放大回原始尺寸
+
+// 快速预览：以 1024 长边推理；完整质量：尽量使用原图推理，超过 4096 长边时才缩小
+export type LargeImageMode = 'fast' | 'full';
+
+export interface LargeImageSettings {
+  mode: LargeImageMode;
+  // 处理大图前先显示预估并让用户选择模式
+  confirm: boolean;
+}
+
+export const defaultLargeImageSettings: LargeImageSettings = {
+  mode: 'full',
+  confirm: true,
+};
+
+export const largeImageModes: { value: LargeImageMode; label: string; desc: string }[] = [
+  localized({ value: 'fast' }, { label: 'largeImage.fast.label', desc: 'largeImage.fast.desc' }),
+  localized({ value: 'full' }, { label: 'largeImage.full.label', desc: 'largeImage.full.desc' }),
+];
+
+const WORKING_EDGE: Record<LargeImageMode, number> = {
+  fast: 1024,
+  full: 4096,
+};
+
+// 超过该像素数（约 4MP）的图片视为大图
+export const LARGE_IMAGE_PIXELS = 2048 * 2048;
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+export function isLargeImage({ width, height }: ImageSize): boolean {
+  return width * height > LARGE_IMAGE_PIXELS;
+}
+
+// 推理使用的工作分辨率，不超过原图尺寸
+export function getWorkingSize(size: ImageSize, mode: LargeImageMode): ImageSize {
+  const scale = Math.min(1, WORKING_EDGE[mode] / Math.max(size.width, size.height));
+  return {
+    width: Math.max(1, Math.round(size.width * scale)),
+    height: Math.max(1, Math.round(size.height * scale)),
+  };
+}
+
+export interface ProcessingEstimate {
+  working: ImageSize;
+  // 峰值内存（字节）
+  memory: number;
+  // 预计耗时（秒）
+  seconds: number;
+}
+
+// 模型会话与推理张量的大致开销
+const MODEL_MEMORY = 300 * 1024 * 1024;
+// 每百万像素的推理前后处理耗时（秒）
+const INFERENCE_SECONDS_PER_MP = { cpu: 0.8, gpu: 0.25 };
+const INFERENCE_BASE_SECONDS = { cpu: 3, gpu: 1 };
+// 每百万像素的蒙版放大、合成与编码耗时（秒）
+const COMPOSE_SECONDS_PER_MP = 0.3;
+
+// 粗略预估处理大图所需的内存和时间
+export function estimateProcessing(size: ImageSize, mode: LargeImageMode, device: 'cpu' | 'gpu'): ProcessingEstimate {
+  const working = getWorkingSize(size, mode);
+  const pixels = size.width * size.height;
+  const workingPixels = working.width * working.height;
+
+  // 原图解码、输出、合成画布各一份 RGBA，加上若干单通道蒙版；推理端库内部还会保留多份工作分辨率的 RGBA
+  const memory = MODEL_MEMORY + pixels * (4 * 3 + 4) + workingPixels * 4 * 4;
+  const seconds = INFERENCE_BASE_SECONDS[device]
+    + (workingPixels / 1e6) * INFERENCE_SECONDS_PER_MP[device]
+    + (pixels / 1e6) * COMPOSE_SECONDS_PER_MP;
+
+  return { working, memory, seconds };
+}
+
+// 双线性插值放大蒙版
+function bilinearUpsample(mask: MaskData, width: number, height: number): Uint8ClampedArray {
+  const result = new Uint8ClampedArray(width * height);
+  const scaleX = mask.width / width;
+  const scaleY = mask.height / height;
+
+  for (let y = 0; y < height; y++) {
+    const sourceY = Math.min(Math.max((y + 0.5) * scaleY - 0.5, 0), mask.height - 1);
+    const y0 = Math.floor(sourceY);
+    const y1 = Math.min(y0 + 1, mask.height - 1);
+    const fy = sourceY - y0;
+    const row0 = y0 * mask.width;
+    const row1 = y1 * mask.width;
+
+    for (let x = 0; x < width; x++) {
+      const sourceX = Math.min(Math.max((x + 0.5) * scaleX - 0.5, 0), mask.width - 1);
+      const x0 = Math.floor(sourceX);
+      const x1 = Math.min(x0 + 1, mask.width - 1);
+      const fx = sourceX - x0;
+
+      const top = mask.data[row0 + x0] + (mask.data[row0 + x1] - mask.data[row0 + x0]) * fx;
+      const bottom = mask.data[row1 + x0] + (mask.data[row1 + x1] - mask.data[row1 + x0]) * fx;
+      result[y * width + x] = top + (bottom - top) * fy;
+    }
+  }
+  return result;
+}
+
+function toLuminance(image: ImageData): Uint8Array {
+  const { data } = image;
+  const luminance = new Uint8Array(image.width * image.height);
+  for (let i = 0, j = 0; i < luminance.length; i++, j += 4) {
+    luminance[i] = (data[j] * 77 + data[j + 1] * 150 + data[j + 2] * 29) >> 8;
+  }
+  return luminance;
+}
+
+// 引导滤波的正则项，越大边缘越平滑
+const GUIDE_EPSILON = 0.01;
+const MAX_GUIDE_RADIUS = 8;
+
+// 将低分辨率蒙版放大到原图尺寸。先双线性插值，再只在半透明的边缘带内
+// 用原图亮度做局部线性拟合（引导滤波），让蒙版边缘贴合原图中的真实边缘
+export function upsampleMask(mask: MaskData, guide: ImageData): MaskData {
+  const { width, height } = guide;
+  if (mask.width === width && mask.height === height) return mask;
+
+  const upsampled = bilinearUpsample(mask, width, height);
+  const luminance = toLuminance(guide);
+  const data = new Uint8ClampedArray(upsampled);
+  const radius = Math.min(MAX_GUIDE_RADIUS, Math.max(1, Math.round(width / mask.width)));
+
+  for (let y = 0; y < height; y++) {
+    const top = Math.max(0, y - radius);
+    const bottom = Math.min(height - 1, y + radius);
+
+    for (let x = 0; x < width; x++) {
+      const index = y * width + x;
+      const value = upsampled[index];
+      // 完全透明或完全不透明的区域保持不变
+      if (value === 0 || value === 255) continue;
+
+      const left = Math.max(0, x - radius);
+      const right = Math.min(width - 1, x + radius);
+      let sumI = 0;
+      let sumP = 0;
+      let sumIP = 0;
+      let sumII = 0;
+      let count = 0;
+
+      for (let wy = top; wy <= bottom; wy++) {
+        const row = wy * width;
+        for (let wx = left; wx <= right; wx++) {
+          const i = luminance[row + wx] / 255;
+          const p = upsampled[row + wx] / 255;
+          sumI += i;
+          sumP += p;
+          sumIP += i * p;
+          sumII += i * i;
+          count++;
+        }
+      }
+
+      const meanI = sumI / count;
+      const meanP = sumP / count;
+      const a = (sumIP / count - meanI * meanP) / (sumII / count - meanI * meanI + GUIDE_EPSILON);
+      const b = meanP - a * meanI;
+      data[index] = (a * (luminance[index] / 255) + b) * 255;
+    }
+  }
+
+  return { width, height, data };
+}
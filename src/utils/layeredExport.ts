@@ -0,0 +1,320 @@
+import { zlibSync } from 'fflate';
+
+// 导出分层文件（PSD 图层或多页 TIFF），便于设计师在其他软件中继续编辑
+// 两种格式都只依赖像素数据，浏览器与命令行共用
+
+export interface ImageLayer {
+  name: string;
+  image: ImageData;
+  visible: boolean;
+  // 黑白图层（蒙版）：TIFF 中保存为单通道灰度
+  grayscale?: boolean;
+}
+
+// 可自动扩容的二进制写入器
+class BinaryWriter {
+  private buffer = new Uint8Array(64 * 1024);
+  private view = new DataView(this.buffer.buffer);
+  length = 0;
+
+  constructor(private readonly littleEndian: boolean) {}
+
+  private ensure(size: number) {
+    if (this.length + size <= this.buffer.length) return;
+    let capacity = this.buffer.length * 2;
+    while (capacity < this.length + size) capacity *= 2;
+    const buffer = new Uint8Array(capacity);
+    buffer.set(this.buffer.subarray(0, this.length));
+    this.buffer = buffer;
+    this.view = new DataView(buffer.buffer);
+  }
+
+  uint8(value: number) {
+    this.ensure(1);
+    this.buffer[this.length++] = value;
+  }
+
+  uint16(value: number) {
+    this.ensure(2);
+    this.view.setUint16(this.length, value, this.littleEndian);
+    this.length += 2;
+  }
+
+  int16(value: number) {
+    this.ensure(2);
+    this.view.setInt16(this.length, value, this.littleEndian);
+    this.length += 2;
+  }
+
+  uint32(value: number) {
+    this.ensure(4);
+    this.view.setUint32(this.length, value, this.littleEndian);
+    this.length += 4;
+  }
+
+  // 回填之前预留的长度或偏移
+  setUint32(offset: number, value: number) {
+    this.view.setUint32(offset, value, this.littleEndian);
+  }
+
+  bytes(data: Uint8Array) {
+    this.ensure(data.length);
+    this.buffer.set(data, this.length);
+    this.length += data.length;
+  }
+
+  ascii(text: string) {
+    for (let i = 0; i < text.length; i++) this.uint8(text.charCodeAt(i) & 0x7f);
+  }
+
+  // 补零到指定字节数的整数倍
+  pad(multiple: number) {
+    while (this.length % multiple !== 0) this.uint8(0);
+  }
+
+  toUint8Array(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+}
+
+// 提取单个通道（0-3 分别为 R、G、B、A）
+function getChannel(image: ImageData, channel: number): Uint8Array {
+  const result = new Uint8Array(image.width * image.height);
+  for (let i = 0; i < result.length; i++) {
+    result[i] = image.data[i * 4 + channel];
+  }
+  return result;
+}
+
+// PackBits 行程编码，PSD 的 RLE 压缩按行使用
+function packBits(source: Uint8Array): Uint8Array {
+  const output = new Uint8Array(source.length + Math.ceil(source.length / 128) + 1);
+  let o = 0;
+  let i = 0;
+  while (i < source.length) {
+    let run = 1;
+    while (i + run < source.length && run < 128 && source[i + run] === source[i]) run++;
+
+    if (run >= 3) {
+      output[o++] = 257 - run;
+      output[o++] = source[i];
+      i += run;
+      continue;
+    }
+
+    // 原样输出，直到出现 3 个以上的重复字节
+    const start = i;
+    while (
+      i < source.length &&
+      i - start < 128 &&
+      !(i + 2 < source.length && source[i] === source[i + 1] && source[i] === source[i + 2])
+    ) {
+      i++;
+    }
+    output[o++] = i - start - 1;
+    output.set(source.subarray(start, i), o);
+    o += i - start;
+  }
+  return output.subarray(0, o);
+}
+
+// 按行压缩一个通道，返回每行的字节数和压缩后的数据
+function compressChannel(channel: Uint8Array, width: number, height: number): { rowLengths: number[]; rows: Uint8Array[] } {
+  const rows: Uint8Array[] = [];
+  for (let y = 0; y < height; y++) {
+    rows.push(packBits(channel.subarray(y * width, (y + 1) * width)));
+  }
+  return { rowLengths: rows.map((row) => row.length), rows };
+}
+
+// PSD 图层名使用 Pascal 字符串（仅支持 ASCII），连同长度字节补齐到 4 字节
+function writePascalName(writer: BinaryWriter, name: string) {
+  const text = name.slice(0, 255);
+  const start = writer.length;
+  writer.uint8(text.length);
+  writer.ascii(text);
+  while ((writer.length - start) % 4 !== 0) writer.uint8(0);
+}
+
+// PSD 通道顺序：透明度（ID -1）在前，其后为 R、G、B
+const psdChannels: [id: number, channel: number][] = [[-1, 3], [0, 0], [1, 1], [2, 2]];
+
+// 写入 Photoshop 文档：layers 按从下到上的顺序排列，所有图层与画布同尺寸；composite 为合并后的预览图
+export function encodePsd(layers: ImageLayer[], composite: ImageData): Blob {
+  const { width, height } = composite;
+  const writer = new BinaryWriter(false);
+
+  // 文件头：RGB 8 位，合并图像包含透明度通道
+  writer.ascii('8BPS');
+  writer.uint16(1);
+  writer.bytes(new Uint8Array(6));
+  writer.uint16(4);
+  writer.uint32(height);
+  writer.uint32(width);
+  writer.uint16(8);
+  writer.uint16(3);
+  // 颜色模式数据与图像资源均为空
+  writer.uint32(0);
+  writer.uint32(0);
+
+  const layerChannels = layers.map((layer) =>
+    psdChannels.map(([id, channel]) => ({ id, ...compressChannel(getChannel(layer.image, channel), width, height) }))
+  );
+
+  // 图层与蒙版信息，长度稍后回填
+  const sectionStart = writer.length;
+  writer.uint32(0);
+  const layerInfoStart = writer.length;
+  writer.uint32(0);
+  // 图层数为负数时，合并图像的第一个额外通道表示透明度
+  writer.int16(-layers.length);
+
+  layers.forEach((layer, index) => {
+    writer.uint32(0);
+    writer.uint32(0);
+    writer.uint32(height);
+    writer.uint32(width);
+    writer.uint16(psdChannels.length);
+    for (const { id, rowLengths } of layerChannels[index]) {
+      writer.int16(id);
+      writer.uint32(2 + rowLengths.length * 2 + rowLengths.reduce((sum, length) => sum + length, 0));
+    }
+    writer.ascii('8BIMnorm');
+    writer.uint8(255);
+    writer.uint8(0);
+    // 标志位 0x02 表示图层隐藏
+    writer.uint8(layer.visible ? 0 : 0x02);
+    writer.uint8(0);
+
+    const extraStart = writer.length;
+    writer.uint32(0);
+    // 无图层蒙版和混合范围
+    writer.uint32(0);
+    writer.uint32(0);
+    writePascalName(writer, layer.name);
+    writer.setUint32(extraStart, writer.length - extraStart - 4);
+  });
+
+  // 各图层的通道数据：压缩方式 1（RLE）、每行字节数、各行数据
+  for (const channels of layerChannels) {
+    for (const { rowLengths, rows } of channels) {
+      writer.uint16(1);
+      rowLengths.forEach((length) => writer.uint16(length));
+      rows.forEach((row) => writer.bytes(row));
+    }
+  }
+
+  writer.pad(2);
+  writer.setUint32(layerInfoStart, writer.length - layerInfoStart - 4);
+  // 全局图层蒙版信息为空
+  writer.uint32(0);
+  writer.setUint32(sectionStart, writer.length - sectionStart - 4);
+
+  // 合并图像：所有通道的行字节数在前，随后依次为 R、G、B、A 的数据
+  const compositeChannels = [0, 1, 2, 3].map((channel) => compressChannel(getChannel(composite, channel), width, height));
+  writer.uint16(1);
+  compositeChannels.forEach(({ rowLengths }) => rowLengths.forEach((length) => writer.uint16(length)));
+  compositeChannels.forEach(({ rows }) => rows.forEach((row) => writer.bytes(row)));
+
+  return new Blob([writer.toUint8Array()], { type: 'image/vnd.adobe.photoshop' });
+}
+
+// TIFF 字段类型
+const TIFF_ASCII = 2;
+const TIFF_SHORT = 3;
+const TIFF_LONG = 4;
+
+type TiffTag = [tag: number, type: number, values: number[] | string];
+
+// 水平差分预测（Predictor 2）后用 Deflate 压缩，平滑区域可获得更好的压缩率
+function compressTiffPage(pixels: Uint8Array, width: number, height: number, samples: number): Uint8Array {
+  const rowSize = width * samples;
+  for (let y = 0; y < height; y++) {
+    const rowStart = y * rowSize;
+    for (let i = rowStart + rowSize - 1; i >= rowStart + samples; i--) {
+      pixels[i] = (pixels[i] - pixels[i - samples]) & 0xff;
+    }
+  }
+  return zlibSync(pixels, { level: 6 });
+}
+
+// 写入多页 TIFF：每个图层一页，彩色页面为带透明度的 RGBA，黑白图层为单通道灰度
+export function encodeMultiPageTiff(layers: ImageLayer[]): Blob {
+  const writer = new BinaryWriter(true);
+  writer.ascii('II');
+  writer.uint16(42);
+  // 第一个 IFD 的偏移，稍后回填
+  let nextIfdPointer = writer.length;
+  writer.uint32(0);
+
+  layers.forEach((layer, index) => {
+    const { width, height } = layer.image;
+    const samples = layer.grayscale ? 1 : 4;
+    const pixels = layer.grayscale ? getChannel(layer.image, 0) : new Uint8Array(layer.image.data);
+    const data = compressTiffPage(pixels, width, height, samples);
+
+    const dataOffset = writer.length;
+    writer.bytes(data);
+    writer.pad(2);
+
+    const tags: TiffTag[] = [
+      [254, TIFF_LONG, [2]],
+      [256, TIFF_LONG, [width]],
+      [257, TIFF_LONG, [height]],
+      [258, TIFF_SHORT, new Array(samples).fill(8)],
+      [259, TIFF_SHORT, [8]],
+      [262, TIFF_SHORT, [layer.grayscale ? 1 : 2]],
+      [273, TIFF_LONG, [dataOffset]],
+      [277, TIFF_SHORT, [samples]],
+      [278, TIFF_LONG, [height]],
+      [279, TIFF_LONG, [data.length]],
+      [284, TIFF_SHORT, [1]],
+      [285, TIFF_ASCII, `${layer.name}\0`],
+      [297, TIFF_SHORT, [index, layers.length]],
+      [317, TIFF_SHORT, [2]],
+      // 额外的第 4 个通道为非预乘透明度
+      ...(layer.grayscale ? [] : [[338, TIFF_SHORT, [2]] as TiffTag]),
+    ];
+
+    // 超过 4 字节的值写在 IFD 之后
+    const ifdOffset = writer.length;
+    writer.setUint32(nextIfdPointer, ifdOffset);
+    let extraOffset = ifdOffset + 2 + tags.length * 12 + 4;
+    const extras: TiffTag[] = [];
+
+    writer.uint16(tags.length);
+    for (const tag of tags) {
+      const [id, type, values] = tag;
+      const size = type === TIFF_SHORT ? 2 : type === TIFF_LONG ? 4 : 1;
+      writer.uint16(id);
+      writer.uint16(type);
+      writer.uint32(values.length);
+
+      if (values.length * size > 4) {
+        writer.uint32(extraOffset);
+        extraOffset += values.length * size + ((values.length * size) % 2);
+        extras.push(tag);
+      } else if (typeof values === 'string') {
+        writer.ascii(values.padEnd(4, '\0'));
+      } else if (type === TIFF_SHORT) {
+        writer.uint16(values[0]);
+        writer.uint16(values[1] ?? 0);
+      } else {
+        writer.uint32(values[0]);
+      }
+    }
+    nextIfdPointer = writer.length;
+    writer.uint32(0);
+
+    for (const [, type, values] of extras) {
+      if (typeof values === 'string') {
+        writer.ascii(values);
+      } else {
+        values.forEach((value) => (type === TIFF_SHORT ? writer.uint16(value) : writer.uint32(value)));
+      }
+      writer.pad(2);
+    }
+  });
+
+  return new Blob([writer.toUint8Array()], { type: 'image/tiff' });
+}
@@ -0,0 +1,160 @@
+import type { MaskData } from './imageUtils';
+
+// 从蒙版描出主体轮廓并生成 SVG 路径，用作印刷的刀线（切割线）
+
+type Point = [number, number];
+
+// 小于该面积（像素）的区域视为噪点，不生成路径
+const MIN_REGION_AREA = 16;
+// 简化路径时允许的最大偏差（像素），可去掉像素边界的锯齿
+const SIMPLIFY_TOLERANCE = 0.8;
+
+// 沿前景像素的边界追踪闭合轮廓，顶点位于像素角点；前景始终在行进方向的右侧，孔洞的方向相反
+function traceContours(mask: MaskData, threshold: number): Point[][] {
+  const { width, height, data } = mask;
+  const stride = width + 1;
+  const inside = (x: number, y: number) => x >= 0 && y >= 0 && x < width && y < height && data[y * width + x] >= threshold;
+
+  // 以起点角点为键，记录每条边界边的终点；鞍点处一个角点会有两条出边
+  const edges = new Map<number, number[]>();
+  const addEdge = (fromX: number, fromY: number, toX: number, toY: number) => {
+    const key = fromY * stride + fromX;
+    const list = edges.get(key);
+    if (list) {
+      list.push(toY * stride + toX);
+    } else {
+      edges.set(key, [toY * stride + toX]);
+    }
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!inside(x, y)) continue;
+      if (!inside(x, y - 1)) addEdge(x, y, x + 1, y);
+      if (!inside(x + 1, y)) addEdge(x + 1, y, x + 1, y + 1);
+      if (!inside(x, y + 1)) addEdge(x + 1, y + 1, x, y + 1);
+      if (!inside(x - 1, y)) addEdge(x, y + 1, x, y);
+    }
+  }
+
+  const contours: Point[][] = [];
+  for (const [start, targets] of edges) {
+    while (targets.length > 0) {
+      const contour: Point[] = [];
+      let from = start;
+      let to = targets.pop()!;
+      while (true) {
+        contour.push([from % stride, Math.floor(from / stride)]);
+        if (to === start) break;
+
+        const next = edges.get(to)!;
+        // 鞍点处优先右转，使仅以对角相接的像素分成两个区域
+        let index = 0;
+        if (next.length > 1) {
+          const dx = (to % stride) - (from % stride);
+          const dy = Math.floor(to / stride) - Math.floor(from / stride);
+          // y 轴向下时，方向 (dx, dy) 右转后为 (-dy, dx)
+          const right = to - dy + dx * stride;
+          index = Math.max(0, next.indexOf(right));
+        }
+        from = to;
+        to = next.splice(index, 1)[0];
+      }
+      contours.push(contour);
+    }
+  }
+  return contours;
+}
+
+// 去掉同一直线上的中间顶点
+function removeCollinear(points: Point[]): Point[] {
+  return points.filter((point, i) => {
+    const prev = points[(i - 1 + points.length) % points.length];
+    const next = points[(i + 1) % points.length];
+    return (point[0] - prev[0]) * (next[1] - point[1]) !== (point[1] - prev[1]) * (next[0] - point[0]);
+  });
+}
+
+function distanceToSegment([x, y]: Point, [x1, y1]: Point, [x2, y2]: Point): number {
+  const dx = x2 - x1;
+  const dy = y2 - y1;
+  const lengthSquared = dx * dx + dy * dy;
+  if (lengthSquared === 0) return Math.hypot(x - x1, y - y1);
+  const t = Math.max(0, Math.min(1, ((x - x1) * dx + (y - y1) * dy) / lengthSquared));
+  return Math.hypot(x - (x1 + t * dx), y - (y1 + t * dy));
+}
+
+// Douglas-Peucker 简化折线（包含两个端点），使用显式栈避免长轮廓递归过深
+function simplifyPolyline(points: Point[], tolerance: number): Point[] {
+  const keep = new Uint8Array(points.length);
+  keep[0] = 1;
+  keep[points.length - 1] = 1;
+  const stack: [number, number][] = [[0, points.length - 1]];
+
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+    let farthest = -1;
+    let maxDistance = tolerance;
+    for (let i = first + 1; i < last; i++) {
+      const distance = distanceToSegment(points[i], points[first], points[last]);
+      if (distance > maxDistance) {
+        farthest = i;
+        maxDistance = distance;
+      }
+    }
+    if (farthest !== -1) {
+      keep[farthest] = 1;
+      stack.push([first, farthest], [farthest, last]);
+    }
+  }
+  return points.filter((_, i) => keep[i]);
+}
+
+// 闭合轮廓在离起点最远的顶点处分成两段分别简化
+function simplifyContour(points: Point[], tolerance: number): Point[] {
+  if (points.length <= 4) return points;
+
+  let split = 0;
+  let maxDistance = 0;
+  points.forEach(([x, y], i) => {
+    const distance = Math.hypot(x - points[0][0], y - points[0][1]);
+    if (distance > maxDistance) {
+      split = i;
+      maxDistance = distance;
+    }
+  });
+
+  const first = simplifyPolyline(points.slice(0, split + 1), tolerance);
+  const second = simplifyPolyline([...points.slice(split), points[0]], tolerance);
+  return [...first.slice(0, -1), ...second.slice(0, -1)];
+}
+
+function polygonArea(points: Point[]): number {
+  let area = 0;
+  points.forEach(([x1, y1], i) => {
+    const [x2, y2] = points[(i + 1) % points.length];
+    area += x1 * y2 - x2 * y1;
+  });
+  return Math.abs(area) / 2;
+}
+
+// 生成轮廓路径数据，孔洞与外轮廓方向相反，配合 evenodd 填充规则
+export function traceMaskOutline(mask: MaskData, threshold = 128): string {
+  return traceContours(mask, threshold)
+    .map(removeCollinear)
+    .filter((contour) => contour.length >= 3 && polygonArea(contour) >= MIN_REGION_AREA)
+    .map((contour) => simplifyContour(contour, SIMPLIFY_TOLERANCE))
+    .map((contour) => `M${contour.map(([x, y]) => `${x} ${y}`).join('L')}Z`)
+    .join('');
+}
+
+// 生成 SVG 文件：画布与输出图片同尺寸，路径只描边不填充；width/height 与蒙版尺寸不同时按 viewBox 缩放
+export function createOutlineSvg(mask: MaskData, width = mask.width, height = mask.height): Blob {
+  const path = traceMaskOutline(mask);
+  const svg = `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${mask.width} ${mask.height}">
+  <path id="CutContour" d="${path}" fill="none" fill-rule="evenodd" stroke="#ff00ff" stroke-width="1" vector-effect="non-scaling-stroke"/>
+</svg>
+`;
+  return new Blob([svg], { type: 'image/svg+xml' });
+}
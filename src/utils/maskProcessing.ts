@@ -0,0 +1,248 @@
+import type { MaskData } from './imageUtils';
+
+// 蒙版后处理设置，均作用于缓存的蒙版，修改后无需重新推理
+export interface MaskRefinement {
+  // 移除面积小于图片总面积该百分比的孤立区域，0 为关闭
+  minIslandSize: number;
+  // 边缘扩展（正数）或收缩（负数）的像素数
+  edgeShift: number;
+  // 透明度阈值（1-254），用于得到硬边缘，0 为关闭
+  threshold: number;
+  // 边缘羽化半径（像素）
+  featherRadius: number;
+  // 边缘颜色净化强度（0-1）
+  despill: number;
+}
+
+export const defaultMaskRefinement: MaskRefinement = {
+  minIslandSize: 0,
+  edgeShift: 0,
+  threshold: 0,
+  featherRadius: 0,
+  despill: 0,
+};
+
+export function isRefinementActive(refinement: MaskRefinement): boolean {
+  return (
+    refinement.minIslandSize > 0 ||
+    refinement.edgeShift !== 0 ||
+    refinement.threshold > 0 ||
+    refinement.featherRadius > 0 ||
+    refinement.despill > 0
+  );
+}
+
+// 单调队列实现的一维滑动窗口最大/最小值，复杂度与半径无关
+function filterLine(
+  src: ArrayLike<number>,
+  dst: Uint8ClampedArray,
+  offset: number,
+  stride: number,
+  length: number,
+  radius: number,
+  useMax: boolean,
+  deque: Int32Array
+) {
+  let head = 0;
+  let tail = 0;
+  let next = 0;
+
+  for (let i = 0; i < length; i++) {
+    const windowEnd = Math.min(length - 1, i + radius);
+    while (next <= windowEnd) {
+      const value = src[offset + next * stride];
+      while (tail > head) {
+        const last = src[offset + deque[tail - 1] * stride];
+        if (useMax ? value >= last : value <= last) {
+          tail--;
+        } else {
+          break;
+        }
+      }
+      deque[tail++] = next++;
+    }
+    while (deque[head] < i - radius) {
+      head++;
+    }
+    dst[offset + i * stride] = src[offset + deque[head] * stride];
+  }
+}
+
+// 以方形结构元素进行膨胀（useMax）或腐蚀
+function morphology(mask: MaskData, radius: number, useMax: boolean): MaskData {
+  const { width, height, data } = mask;
+  const temp = new Uint8ClampedArray(data.length);
+  const result = new Uint8ClampedArray(data.length);
+  const deque = new Int32Array(Math.max(width, height));
+
+  for (let y = 0; y < height; y++) {
+    filterLine(data, temp, y * width, 1, width, radius, useMax, deque);
+  }
+  for (let x = 0; x < width; x++) {
+    filterLine(temp, result, x, width, height, radius, useMax, deque);
+  }
+  return { width, height, data: result };
+}
+
+// 一维盒式模糊（滑动求和，边缘像素重复）
+function blurLine(
+  src: Float32Array,
+  dst: Float32Array,
+  offset: number,
+  stride: number,
+  length: number,
+  radius: number
+) {
+  const size = radius * 2 + 1;
+  const at = (index: number) => src[offset + Math.min(length - 1, Math.max(0, index)) * stride];
+
+  let sum = 0;
+  for (let i = -radius; i <= radius; i++) {
+    sum += at(i);
+  }
+  for (let i = 0; i < length; i++) {
+    dst[offset + i * stride] = sum / size;
+    sum += at(i + radius + 1) - at(i - radius);
+  }
+}
+
+// 三次盒式模糊近似高斯模糊
+export function blurChannel(values: Float32Array, width: number, height: number, radius: number): Float32Array {
+  if (radius < 1) return values;
+
+  const boxRadius = Math.max(1, Math.round(radius / Math.sqrt(3)));
+  let current = values;
+  const temp = new Float32Array(values.length);
+  for (let pass = 0; pass < 3; pass++) {
+    const output = new Float32Array(values.length);
+    for (let y = 0; y < height; y++) {
+      blurLine(current, temp, y * width, 1, width, boxRadius);
+    }
+    for (let x = 0; x < width; x++) {
+      blurLine(temp, output, x, width, height, boxRadius);
+    }
+    current = output;
+  }
+  return current;
+}
+
+// 移除面积过小的前景连通区域（8 邻域）
+function removeSmallIslands(mask: MaskData, minArea: number): MaskData {
+  const { width, height } = mask;
+  const data = new Uint8ClampedArray(mask.data);
+  const visited = new Uint8Array(data.length);
+  const stack = new Int32Array(data.length);
+  const component = new Int32Array(data.length);
+
+  for (let start = 0; start < data.length; start++) {
+    if (visited[start] || data[start] < 128) continue;
+
+    let top = 0;
+    stack[top++] = start;
+    visited[start] = 1;
+    let size = 0;
+
+    while (top > 0) {
+      const index = stack[--top];
+      component[size++] = index;
+      const x = index % width;
+      const y = (index - x) / width;
+
+      for (let dy = -1; dy <= 1; dy++) {
+        const ny = y + dy;
+        if (ny < 0 || ny >= height) continue;
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          if (nx < 0 || nx >= width) continue;
+          const neighbor = ny * width + nx;
+          if (!visited[neighbor] && data[neighbor] >= 128) {
+            visited[neighbor] = 1;
+            stack[top++] = neighbor;
+          }
+        }
+      }
+    }
+
+    if (size < minArea) {
+      for (let i = 0; i < size; i++) {
+        data[component[i]] = 0;
+      }
+    }
+  }
+
+  return { width, height, data };
+}
+
+function applyThreshold(mask: MaskData, threshold: number): MaskData {
+  const data = new Uint8ClampedArray(mask.data.length);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = mask.data[i] >= threshold ? 255 : 0;
+  }
+  return { ...mask, data };
+}
+
+function feather(mask: MaskData, radius: number): MaskData {
+  const blurred = blurChannel(Float32Array.from(mask.data), mask.width, mask.height, radius);
+  return { ...mask, data: Uint8ClampedArray.from(blurred) };
+}
+
+// 依次执行：移除孤岛、边缘扩展/收缩、阈值、羽化
+export function refineMask(mask: MaskData, refinement: MaskRefinement): MaskData {
+  let result = mask;
+
+  if (refinement.minIslandSize > 0) {
+    const minArea = Math.round((mask.width * mask.height * refinement.minIslandSize) / 100);
+    result = removeSmallIslands(result, minArea);
+  }
+
+  if (refinement.edgeShift !== 0) {
+    result = morphology(result, Math.abs(Math.round(refinement.edgeShift)), refinement.edgeShift > 0);
+  }
+
+  if (refinement.threshold > 0) {
+    result = applyThreshold(result, refinement.threshold);
+  }
+
+  if (refinement.featherRadius > 0) {
+    result = feather(result, refinement.featherRadius);
+  }
+
+  return result;
+}
+
+const DESPILL_RADIUS = 8;
+const SOLID_ALPHA = 250;
+
+// 边缘颜色净化：用附近完全不透明的前景颜色替换半透明边缘中混入的背景色
+export function decontaminateColors(image: ImageData, mask: MaskData, strength: number): ImageData {
+  const { width, height } = image;
+  const pixelCount = width * height;
+  const weights = new Float32Array(pixelCount);
+  const channels = [new Float32Array(pixelCount), new Float32Array(pixelCount), new Float32Array(pixelCount)];
+
+  for (let i = 0; i < pixelCount; i++) {
+    if (mask.data[i] >= SOLID_ALPHA) {
+      weights[i] = 1;
+      channels[0][i] = image.data[i * 4];
+      channels[1][i] = image.data[i * 4 + 1];
+      channels[2][i] = image.data[i * 4 + 2];
+    }
+  }
+
+  const blurredWeights = blurChannel(weights, width, height, DESPILL_RADIUS);
+  const blurredChannels = channels.map((channel) => blurChannel(channel, width, height, DESPILL_RADIUS));
+
+  const result = new ImageData(new Uint8ClampedArray(image.data), width, height);
+  for (let i = 0; i < pixelCount; i++) {
+    const alpha = mask.data[i];
+    if (alpha === 0 || alpha >= SOLID_ALPHA || blurredWeights[i] < 1e-3) continue;
+
+    // 越透明的边缘像素混入的背景色越多
+    const amount = strength * (1 - alpha / 255);
+    for (let c = 0; c < 3; c++) {
+      const foreground = blurredChannels[c][i] / blurredWeights[i];
+      result.data[i * 4 + c] = image.data[i * 4 + c] + (foreground - image.data[i * 4 + c]) * amount;
+    }
+  }
+  return result;
+}
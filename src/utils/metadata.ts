@@ -0,0 +1,257 @@
+import { strToU8 } from 'fflate';
+import type { ProcessingConfig, ProcessingStats } from './backgroundRemoval';
+import type { OutputFormat } from './outputFormats';
+import { PresetConfig, toPresetConfig } from './presets';
+
+// 在导出的文件中记录处理信息（模型、推理库版本、配置、时间、原图哈希），便于追溯和复现结果
+// PNG 写入 tEXt 块，WebP 和 JPEG 写入 XMP，SVG 写入 <metadata>；其他格式生成同名的 JSON 文件
+
+export const METADATA_GENERATOR = 'background-remove';
+// PNG tEXt 块的关键字，也用作 SVG <metadata> 的 id
+const METADATA_KEYWORD = 'background-removal';
+const XMP_NAMESPACE = 'https://github.com/LLmoskk/background-remove/ns/1.0/';
+
+export interface ProcessingMetadata {
+  generator: typeof METADATA_GENERATOR;
+  // 推理库及版本，例如 @imgly/background-removal@1.6.0
+  library: string;
+  // 实际使用的模型和设备（GPU 不可用时为 CPU）
+  model: ProcessingConfig['model'];
+  device: ProcessingConfig['device'];
+  // 与预设格式相同，可直接用于命令行的 --config
+  config: PresetConfig;
+  createdAt: string;
+  source: {
+    filename: string;
+    // 原图内容的 SHA-256；非安全上下文（HTTP）中无法计算，此时省略
+    sha256?: string;
+  };
+}
+
+export interface MetadataSource {
+  config: ProcessingConfig;
+  stats?: ProcessingStats;
+  filename: string;
+  // 原图文件，用于计算哈希
+  file: Blob;
+  library: string;
+}
+
+async function sha256(blob: Blob): Promise<string | undefined> {
+  if (!globalThis.crypto?.subtle) return undefined;
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export async function createMetadata({ config, stats, filename, file, library }: MetadataSource): Promise<ProcessingMetadata> {
+  return {
+    generator: METADATA_GENERATOR,
+    library,
+    model: stats?.model ?? config.model,
+    device: stats?.device ?? config.device,
+    config: toPresetConfig(config),
+    createdAt: new Date().toISOString(),
+    source: { filename, sha256: await sha256(file) },
+  };
+}
+
+// tEXt 块只能保存 Latin-1 文本，非 ASCII 字符（如中文文件名）转义为 \uXXXX
+function toAsciiJson(metadata: ProcessingMetadata): string {
+  return JSON.stringify(metadata).replace(/[\u007f-\uffff]/g, (char) => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`);
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function getSoftware(metadata: ProcessingMetadata): string {
+  return `${METADATA_GENERATOR} (${metadata.library})`;
+}
+
+function createXmpPacket(metadata: ProcessingMetadata): string {
+  return `<?xpacket begin="\ufeff" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+  <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+    <rdf:Description rdf:about="" xmlns:xmp="http://ns.adobe.com/xap/1.0/" xmlns:bgr="${XMP_NAMESPACE}">
+      <xmp:CreatorTool>${escapeXml(getSoftware(metadata))}</xmp:CreatorTool>
+      <xmp:CreateDate>${metadata.createdAt}</xmp:CreateDate>
+      <bgr:Processing>${escapeXml(JSON.stringify(metadata))}</bgr:Processing>
+    </rdf:Description>
+  </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+const crcTable = new Uint32Array(256).map((_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c;
+});
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function createPngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(strToU8(type, true), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+function createTextChunk(keyword: string, text: string): Uint8Array {
+  return createPngChunk('tEXt', strToU8(`${keyword}\0${text}`, true));
+}
+
+// 在 IEND 之前插入 tEXt 块
+function embedPng(bytes: Uint8Array, metadata: ProcessingMetadata): Uint8Array {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 8;
+  while (offset + 8 <= bytes.length) {
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    if (type === 'IEND') break;
+    offset += 12 + view.getUint32(offset);
+  }
+  return concatBytes([
+    bytes.subarray(0, offset),
+    createTextChunk('Software', getSoftware(metadata)),
+    createTextChunk(METADATA_KEYWORD, toAsciiJson(metadata)),
+    bytes.subarray(offset),
+  ]);
+}
+
+// JPEG 的 XMP 写在 APP1 段中，放在 JFIF（APP0）之后；单段不能超过 64KB
+const JPEG_XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+
+function embedJpeg(bytes: Uint8Array, metadata: ProcessingMetadata): Uint8Array | null {
+  const payload = concatBytes([strToU8(JPEG_XMP_HEADER, true), strToU8(createXmpPacket(metadata))]);
+  if (payload.length + 2 > 0xffff) return null;
+
+  let offset = 2;
+  if (bytes[offset] === 0xff && bytes[offset + 1] === 0xe0) {
+    offset += 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+  }
+  const segment = new Uint8Array(4 + payload.length);
+  segment.set([0xff, 0xe1, (payload.length + 2) >> 8, (payload.length + 2) & 0xff]);
+  segment.set(payload, 4);
+  return concatBytes([bytes.subarray(0, offset), segment, bytes.subarray(offset)]);
+}
+
+function createRiffChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(8 + data.length + (data.length % 2));
+  chunk.set(strToU8(type, true));
+  new DataView(chunk.buffer).setUint32(4, data.length, true);
+  chunk.set(data, 8);
+  return chunk;
+}
+
+// 简单格式（VP8/VP8L）的 WebP 没有扩展头，需要先补上 VP8X 并从图像数据中读取尺寸
+function createVp8xChunk(bytes: Uint8Array): Uint8Array | null {
+  const type = String.fromCharCode(...bytes.subarray(12, 16));
+  const data = bytes.subarray(20);
+  let width: number;
+  let height: number;
+  let alpha = false;
+
+  if (type === 'VP8L') {
+    const bits = data[1] | (data[2] << 8) | (data[3] << 16) | (data[4] << 24);
+    width = (bits & 0x3fff) + 1;
+    height = ((bits >>> 14) & 0x3fff) + 1;
+    alpha = ((bits >>> 28) & 1) === 1;
+  } else if (type === 'VP8 ') {
+    width = (data[6] | (data[7] << 8)) & 0x3fff;
+    height = (data[8] | (data[9] << 8)) & 0x3fff;
+  } else {
+    return null;
+  }
+
+  const header = new Uint8Array(10);
+  // 标志位：0x10 透明度，0x04 XMP
+  header[0] = 0x04 | (alpha ? 0x10 : 0);
+  header.set([(width - 1) & 0xff, ((width - 1) >> 8) & 0xff, (width - 1) >> 16], 4);
+  header.set([(height - 1) & 0xff, ((height - 1) >> 8) & 0xff, (height - 1) >> 16], 7);
+  return createRiffChunk('VP8X', header);
+}
+
+// XMP 块放在文件末尾，并在 VP8X 中标记
+function embedWebp(bytes: Uint8Array, metadata: ProcessingMetadata): Uint8Array | null {
+  let body: Uint8Array;
+  if (String.fromCharCode(...bytes.subarray(12, 16)) === 'VP8X') {
+    body = bytes.slice(12);
+    body[8] |= 0x04;
+  } else {
+    const vp8x = createVp8xChunk(bytes);
+    if (!vp8x) return null;
+    body = concatBytes([vp8x, bytes.subarray(12)]);
+  }
+
+  const result = concatBytes([bytes.subarray(0, 12), body, createRiffChunk('XMP ', strToU8(createXmpPacket(metadata)))]);
+  new DataView(result.buffer).setUint32(4, result.length - 8, true);
+  return result;
+}
+
+function embedSvg(text: string, metadata: ProcessingMetadata): string {
+  const start = text.indexOf('<svg');
+  const end = text.indexOf('>', start) + 1;
+  const element = `\n  <metadata id="${METADATA_KEYWORD}">${escapeXml(JSON.stringify(metadata))}</metadata>`;
+  return `${text.slice(0, end)}${element}${text.slice(end)}`;
+}
+
+// 写入元数据，格式不支持嵌入时返回 JSON 格式的附带文件
+export async function embedMetadata(
+  blob: Blob,
+  format: OutputFormat,
+  metadata: ProcessingMetadata
+): Promise<{ blob: Blob; sidecar?: Blob }> {
+  if (format === 'image/svg+xml') {
+    return { blob: new Blob([embedSvg(await blob.text(), metadata)], { type: blob.type }) };
+  }
+
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let embedded: Uint8Array | null = null;
+  switch (format) {
+    case 'image/png':
+      embedded = embedPng(bytes, metadata);
+      break;
+    case 'image/jpeg':
+      embedded = embedJpeg(bytes, metadata);
+      break;
+    case 'image/webp':
+      embedded = embedWebp(bytes, metadata);
+      break;
+  }
+
+  if (embedded) {
+    return { blob: new Blob([embedded], { type: blob.type }) };
+  }
+  return { blob, sidecar: new Blob([JSON.stringify(metadata, null, 2)], { type: 'application/json' }) };
+}
+
+// 按输出配置写入元数据；关闭时原样返回
+export async function attachMetadata(blob: Blob, source: MetadataSource): Promise<{ blob: Blob; sidecar?: Blob }> {
+  if (!source.config.output.metadata) return { blob };
+  return embedMetadata(blob, source.config.output.format, await createMetadata(source));
+}
+
+export function isProcessingMetadata(value: unknown): value is ProcessingMetadata {
+  return typeof value === 'object' && value !== null && (value as ProcessingMetadata).generator === METADATA_GENERATOR;
+}
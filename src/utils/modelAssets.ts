@@ -0,0 +1,160 @@
+import type { ProcessingConfig } from './backgroundRemoval';
+import { t } from '../i18n';
+
+// 模型与 WASM 资源默认从应用自身的域名加载（npm run fetch-models 下载到 public/background-removal-data）
+// 已下载的资源保存在 Cache Storage 中，由 Service Worker 在离线时提供
+
+// 跟随 Vite 的 base，部署在子路径下时同样从本站加载；命令行中没有 import.meta.env，使用站点根路径
+// 与 pwa/sw.js 中的 MODEL_PATH 保持一致
+export const DEFAULT_PUBLIC_PATH = `${import.meta.env?.BASE_URL ?? '/'}background-removal-data/`;
+
+const PUBLIC_PATH_KEY = 'background-removal:public-path';
+
+// 与 pwa/sw.js 中的缓存名称保持一致
+export const MODEL_CACHE_NAME = 'background-removal-models';
+
+type ModelName = ProcessingConfig['model'];
+type Device = ProcessingConfig['device'];
+
+interface ResourceChunk {
+  name: string;
+  offsets: [number, number];
+}
+
+interface ResourceEntry {
+  size: number;
+  mime: string;
+  chunks: ResourceChunk[];
+}
+
+type ResourceMap = Record<string, ResourceEntry>;
+
+export interface ModelCacheStatus {
+  model: ModelName;
+  // 模型及当前设备所需运行时的总大小和已缓存大小（字节）
+  totalBytes: number;
+  cachedBytes: number;
+  available: boolean;
+}
+
+export function loadPublicPath(): string {
+  return localStorage.getItem(PUBLIC_PATH_KEY) ?? DEFAULT_PUBLIC_PATH;
+}
+
+export function savePublicPath(publicPath: string) {
+  if (publicPath === DEFAULT_PUBLIC_PATH) {
+    localStorage.removeItem(PUBLIC_PATH_KEY);
+  } else {
+    localStorage.setItem(PUBLIC_PATH_KEY, publicPath);
+  }
+}
+
+// 补全结尾的斜杠，资源地址按目录解析
+export function normalizePublicPath(publicPath: string): string {
+  const trimmed = publicPath.trim() || DEFAULT_PUBLIC_PATH;
+  return trimmed.endsWith('/') ? trimmed : `${trimmed}/`;
+}
+
+// 库要求绝对地址；相对路径按当前域名解析，页面和 Worker 中结果一致
+export function resolvePublicPath(publicPath: string): string {
+  return new URL(normalizePublicPath(publicPath), self.location.origin).href;
+}
+
+export function isModelCacheSupported(): boolean {
+  return typeof caches !== 'undefined';
+}
+
+// 模型本身和推理所需的 ONNX Runtime 文件；GPU 不可用时会降级到 CPU，两套运行时都需要
+function getResourceKeys(model: ModelName, device: Device): string[] {
+  const runtimes = device === 'gpu'
+    ? ['ort-wasm-simd-threaded.jsep', 'ort-wasm-simd-threaded']
+    : ['ort-wasm-simd-threaded'];
+  return [
+    `/models/${model}`,
+    ...runtimes.flatMap((runtime) => [`/onnxruntime-web/${runtime}.wasm`, `/onnxruntime-web/${runtime}.mjs`]),
+  ];
+}
+
+function getChunkUrls(resources: ResourceMap, key: string, baseUrl: string): { url: string; size: number }[] {
+  const entry = resources[key];
+  if (!entry) {
+    throw new Error(t('offline.errors.missingResource', { key }));
+  }
+  return entry.chunks.map((chunk) => ({
+    url: new URL(chunk.name, baseUrl).href,
+    size: chunk.offsets[1] - chunk.offsets[0],
+  }));
+}
+
+// 优先从网络获取资源清单并更新缓存，离线时使用缓存中的版本
+async function loadResourceMap(baseUrl: string, cache: Cache): Promise<ResourceMap> {
+  const url = new URL('resources.json', baseUrl).href;
+  try {
+    const response = await fetch(url, { cache: 'no-cache' });
+    if (response.ok) {
+      await cache.put(url, response.clone());
+      return await response.json();
+    }
+  } catch {
+    // 网络不可用，尝试缓存
+  }
+
+  const cached = await cache.match(url);
+  if (!cached) {
+    throw new Error(t('offline.errors.manifest'));
+  }
+  return cached.json();
+}
+
+export async function getModelCacheStatus(
+  publicPath: string,
+  models: ModelName[],
+  device: Device
+): Promise<ModelCacheStatus[]> {
+  const baseUrl = resolvePublicPath(publicPath);
+  const cache = await caches.open(MODEL_CACHE_NAME);
+  const resources = await loadResourceMap(baseUrl, cache);
+
+  return Promise.all(models.map(async (model) => {
+    const chunks = getResourceKeys(model, device).flatMap((key) => getChunkUrls(resources, key, baseUrl));
+    const cached = await Promise.all(chunks.map(async (chunk) => (await cache.match(chunk.url)) !== undefined));
+    const totalBytes = chunks.reduce((sum, chunk) => sum + chunk.size, 0);
+    const cachedBytes = chunks.reduce((sum, chunk, index) => sum + (cached[index] ? chunk.size : 0), 0);
+    return { model, totalBytes, cachedBytes, available: cached.every(Boolean) };
+  }));
+}
+
+// 下载模型及其运行时到缓存，已缓存的分块会被跳过；progress 为 0-1
+export async function downloadModel(
+  publicPath: string,
+  model: ModelName,
+  device: Device,
+  onProgress?: (progress: number) => void
+): Promise<void> {
+  const baseUrl = resolvePublicPath(publicPath);
+  const cache = await caches.open(MODEL_CACHE_NAME);
+  const resources = await loadResourceMap(baseUrl, cache);
+  const chunks = getResourceKeys(model, device).flatMap((key) => getChunkUrls(resources, key, baseUrl));
+  const totalBytes = chunks.reduce((sum, chunk) => sum + chunk.size, 0);
+
+  let loadedBytes = 0;
+  for (const chunk of chunks) {
+    if (!(await cache.match(chunk.url))) {
+      const response = await fetch(chunk.url);
+      if (!response.ok) {
+        throw new Error(t('offline.errors.httpStatus', { status: response.status }));
+      }
+      await cache.put(chunk.url, response);
+    }
+    loadedBytes += chunk.size;
+    onProgress?.(loadedBytes / totalBytes);
+  }
+}
+
+// 从缓存中移除模型；运行时文件由所有模型共用，予以保留
+export async function evictModel(publicPath: string, model: ModelName): Promise<void> {
+  const baseUrl = resolvePublicPath(publicPath);
+  const cache = await caches.open(MODEL_CACHE_NAME);
+  const resources = await loadResourceMap(baseUrl, cache);
+  await Promise.all(getChunkUrls(resources, `/models/${model}`, baseUrl).map((chunk) => cache.delete(chunk.url)));
+}
@@ -0,0 +1,71 @@
+import type { ProcessingConfig } from './backgroundRemoval';
+import { localized } from '../i18n';
+
+// 处理结果的导出格式：常规位图、主体轮廓的矢量路径，以及包含原图、抠图和蒙版的分层文件
+
+export type OutputFormat =
+  | 'image/png'
+  | 'image/jpeg'
+  | 'image/webp'
+  | 'image/avif'
+  | 'image/svg+xml'
+  | 'image/vnd.adobe.photoshop'
+  | 'image/tiff';
+
+export interface OutputFormatOption {
+  value: OutputFormat;
+  label: string;
+  extension: string;
+  desc: string;
+  // 能否保存透明度；不能时透明区域填充为底色
+  alpha: boolean;
+  // 能否调节压缩质量
+  lossy: boolean;
+  // 浏览器无法直接显示，界面中使用 PNG 预览
+  preview: boolean;
+}
+
+export const outputFormats: OutputFormatOption[] = [
+  localized({ value: 'image/png', extension: 'png', alpha: true, lossy: false, preview: false }, { label: 'formats.png.label', desc: 'formats.png.desc' }),
+  localized({ value: 'image/jpeg', extension: 'jpg', alpha: false, lossy: true, preview: false }, { label: 'formats.jpeg.label', desc: 'formats.jpeg.desc' }),
+  localized({ value: 'image/webp', extension: 'webp', alpha: true, lossy: true, preview: false }, { label: 'formats.webp.label', desc: 'formats.webp.desc' }),
+  localized({ value: 'image/avif', extension: 'avif', alpha: true, lossy: true, preview: false }, { label: 'formats.avif.label', desc: 'formats.avif.desc' }),
+  localized({ value: 'image/svg+xml', extension: 'svg', alpha: true, lossy: false, preview: false }, { label: 'formats.svg.label', desc: 'formats.svg.desc' }),
+  localized({ value: 'image/vnd.adobe.photoshop', extension: 'psd', alpha: true, lossy: false, preview: true }, { label: 'formats.psd.label', desc: 'formats.psd.desc' }),
+  localized({ value: 'image/tiff', extension: 'tif', alpha: true, lossy: false, preview: true }, { label: 'formats.tiff.label', desc: 'formats.tiff.desc' }),
+];
+
+export function getOutputFormat(format: OutputFormat): OutputFormatOption {
+  return outputFormats.find((option) => option.value === format) ?? outputFormats[0];
+}
+
+// 输出是否包含透明区域：蒙版总是不透明；前景替换背景后也不再透明
+export function hasTransparency(config: Pick<ProcessingConfig, 'output' | 'background'>): boolean {
+  const { output, background } = config;
+  return output.type === 'background' || (output.type === 'foreground' && background.mode === 'none');
+}
+
+// 将图像按 alpha 叠加到纯色底色上，用于不支持透明度的格式
+export function flattenOnMatte(image: ImageData, matte: string): ImageData {
+  const r = parseInt(matte.slice(1, 3), 16);
+  const g = parseInt(matte.slice(3, 5), 16);
+  const b = parseInt(matte.slice(5, 7), 16);
+  const result = new ImageData(new Uint8ClampedArray(image.data), image.width, image.height);
+  const { data } = result;
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha = data[i + 3] / 255;
+    if (alpha === 1) continue;
+    data[i] = Math.round(data[i] * alpha + r * (1 - alpha));
+    data[i + 1] = Math.round(data[i + 1] * alpha + g * (1 - alpha));
+    data[i + 2] = Math.round(data[i + 2] * alpha + b * (1 - alpha));
+    data[i + 3] = 255;
+  }
+  return result;
+}
+
+// 使用 WASM 编码 AVIF，用于画布不支持导出 AVIF 的浏览器；编码器较大，按需加载
+export async function encodeAvif(image: ImageData, quality: number): Promise<Blob> {
+  const { default: encode } = await import('@jsquash/avif/encode.js');
+  const data = await encode(image, { quality: Math.round(quality * 100) });
+  return new Blob([data], { type: 'image/avif' });
+}
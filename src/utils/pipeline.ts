@@ -0,0 +1,177 @@
+import { segmentForeground, preload, Config } from '@imgly/background-removal';
+import { decodeImage, encodeImageData, extractMask, extractMaskFromGrayscale, maskToImageData, MaskData } from './imageUtils';
+import { compositeBackground } from './compositing';
+import { resizeImageData } from './cropping';
+import { renderOutput, RenderBackend } from './render';
+import { getWorkingSize, upsampleMask } from './largeImage';
+import { resolvePublicPath } from './modelAssets';
+import { getInferenceThreads, hasWebGPU } from './capabilities';
+import { DecodeError, toProcessingError } from './errors';
+import type { ProcessingConfig, ProcessingProgress, ProcessingResult, ProcessingStats, SegmentationResult } from './backgroundRemoval';
+
+// 该模块在 Web Worker 中运行，负责模型加载和推理
+
+type ProgressCallback = (progress: ProcessingProgress) => void;
+
+// 库内部按配置的 JSON 缓存模型会话，预加载与推理必须使用完全相同的配置
+function toLibraryConfig(config: ProcessingConfig, progress?: Config['progress']): Config {
+  return {
+    model: config.model,
+    device: config.device,
+    publicPath: resolvePublicPath(config.publicPath),
+    debug: config.debug,
+    output: { format: 'image/png', quality: 1 },
+    progress,
+  };
+}
+
+// 汇总各个资源的下载进度
+function createDownloadProgress(onProgress?: ProgressCallback): Config['progress'] {
+  const resources = new Map<string, { current: number; total: number }>();
+
+  return (key, current, total) => {
+    if (!key.startsWith('fetch:')) return;
+
+    resources.set(key, { current, total });
+    let downloaded = 0;
+    let size = 0;
+    resources.forEach((resource) => {
+      downloaded += resource.current;
+      size += resource.total;
+    });
+    onProgress?.({ stage: 'download', progress: size > 0 ? downloaded / size : 0 });
+  };
+}
+
+// 每个模型配置在本会话中的加载耗时
+const loadTimes = new Map<string, number>();
+
+function getLoadKey(config: ProcessingConfig): string {
+  return JSON.stringify(toLibraryConfig(config));
+}
+
+export async function preloadModel(config: ProcessingConfig, onProgress?: ProgressCallback): Promise<void> {
+  const key = getLoadKey(config);
+  if (!loadTimes.has(key)) {
+    const start = performance.now();
+    try {
+      await preload(toLibraryConfig(config, createDownloadProgress(onProgress)));
+    } catch (error) {
+      // 资源下载和创建推理会话都在预加载中完成，未识别的错误多为资源地址不可用
+      throw toProcessingError(error, 'MODEL_FETCH_FAILED');
+    }
+    loadTimes.set(key, performance.now() - start);
+  }
+  onProgress?.({ stage: 'download', progress: 1 });
+}
+
+// 浏览器端使用 OffscreenCanvas 完成缩放、背景合成与编码
+const canvasBackend: RenderBackend = {
+  resize: async (image, width, height) => resizeImageData(image, width, height),
+  composite: compositeBackground,
+  encode: encodeImageData,
+};
+
+async function decodeInput(imageFile: Blob): Promise<ImageData> {
+  try {
+    return await decodeImage(imageFile);
+  } catch (error) {
+    throw new DecodeError(undefined, error);
+  }
+}
+
+// 推理得到与原图同尺寸的蒙版
+async function inferMask(
+  imageFile: Blob,
+  image: ImageData,
+  config: ProcessingConfig,
+  onProgress?: ProgressCallback
+): Promise<{ mask: MaskData; stats: ProcessingStats }> {
+  // 大图先缩小到工作分辨率再推理，原图像素保持全分辨率用于输出
+  const working = getWorkingSize(image, config.largeImage.mode);
+  const isDownscaled = working.width < image.width;
+  const inferenceInput = isDownscaled
+    ? await encodeImageData(resizeImageData(image, working.width, working.height), { format: 'image/png', quality: 1 })
+    : imageFile;
+
+  await preloadModel(config);
+  onProgress?.({ stage: 'inference', progress: 0.1 });
+  const inferenceStart = performance.now();
+  let segmented: Blob;
+  try {
+    segmented = await segmentForeground(inferenceInput, toLibraryConfig(config));
+  } catch (error) {
+    // 使用 GPU 时推理失败通常是 WebGPU 的问题，改用 CPU 即可恢复
+    throw toProcessingError(error, config.device === 'gpu' ? 'DEVICE_UNAVAILABLE' : 'UNKNOWN');
+  }
+  const stats: ProcessingStats = {
+    device: config.device === 'gpu' && await hasWebGPU() ? 'gpu' : 'cpu',
+    model: config.model,
+    threads: getInferenceThreads(),
+    loadMs: loadTimes.get(getLoadKey(config)) ?? 0,
+    inferenceMs: performance.now() - inferenceStart,
+  };
+  let mask = extractMask(await decodeImage(segmented));
+
+  if (isDownscaled) {
+    onProgress?.({ stage: 'upsample', progress: 0.7 });
+    mask = upsampleMask(mask, image);
+  }
+  return { mask, stats };
+}
+
+export async function runBackgroundRemoval(
+  imageFile: Blob,
+  config: ProcessingConfig,
+  onProgress?: ProgressCallback
+): Promise<ProcessingResult> {
+  onProgress?.({ stage: 'decode', progress: 0 });
+  const image = await decodeInput(imageFile);
+
+  // 只运行一次推理得到蒙版，再按输出类型合成结果
+  const { mask, stats } = await inferMask(imageFile, image, config, onProgress);
+
+  onProgress?.({ stage: 'compose', progress: 0.8 });
+  const [rendered, maskBlob] = await Promise.all([
+    renderOutput(image, mask, config, canvasBackend),
+    encodeImageData(maskToImageData(mask), { format: 'image/png', quality: 1 }),
+  ]);
+
+  onProgress?.({ stage: 'encode', progress: 1 });
+  return { ...rendered, mask: maskBlob, stats };
+}
+
+// 只推理蒙版，不生成输出（例如视频需要先对蒙版做时间平滑）
+export async function runSegmentation(
+  imageFile: Blob,
+  config: ProcessingConfig,
+  onProgress?: ProgressCallback
+): Promise<SegmentationResult> {
+  onProgress?.({ stage: 'decode', progress: 0 });
+  const image = await decodeInput(imageFile);
+  const { mask, stats } = await inferMask(imageFile, image, config, onProgress);
+
+  onProgress?.({ stage: 'encode', progress: 0.9 });
+  const maskBlob = await encodeImageData(maskToImageData(mask), { format: 'image/png', quality: 1 });
+  onProgress?.({ stage: 'encode', progress: 1 });
+  return { mask: maskBlob, stats };
+}
+
+// 使用缓存的蒙版重新生成输出
+export async function renderFromMask(
+  imageFile: Blob,
+  maskFile: Blob,
+  config: ProcessingConfig,
+  onProgress?: ProgressCallback
+): Promise<ProcessingResult> {
+  onProgress?.({ stage: 'decode', progress: 0 });
+  const [image, maskImage] = await Promise.all([decodeInput(imageFile), decodeInput(maskFile)]);
+  // 蒙版以黑白图像保存，取红色通道作为透明度
+  const mask = extractMaskFromGrayscale(maskImage);
+
+  onProgress?.({ stage: 'compose', progress: 0.5 });
+  const rendered = await renderOutput(image, mask, config, canvasBackend);
+
+  onProgress?.({ stage: 'encode', progress: 1 });
+  return { ...rendered, mask: maskFile };
+}
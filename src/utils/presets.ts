@@ -0,0 +1,394 @@
+import { ProcessingConfig, defaultConfig } from './backgroundRemoval';
+import { cropPresets } from './cropping';
+import { outputFormats } from './outputFormats';
+import { outlinePositions } from './subjectEffects';
+import { localized, t } from '../i18n';
+
+// 命名的配置预设，保存在 localStorage 中，可导出为 JSON 文件在不同设备间共享
+
+const STORAGE_KEY = 'background-removal:presets';
+const ACTIVE_PRESET_KEY = 'background-removal:active-preset';
+const FILE_FORMAT = 'background-removal-presets';
+const FILE_VERSION = 1;
+
+// 预设中保存的配置；背景图片无法序列化，不会被保存
+export type PresetConfig = Pick<ProcessingConfig, 'debug' | 'device' | 'model' | 'output' | 'refinement' | 'crop' | 'effects' | 'largeImage'> & {
+  background: Omit<ProcessingConfig['background'], 'image'>;
+};
+
+export interface ConfigPreset {
+  id: string;
+  name: string;
+  config: PresetConfig;
+  updatedAt: number;
+}
+
+export interface PresetFile {
+  format: typeof FILE_FORMAT;
+  version: number;
+  presets: { name: string; config: PresetConfig }[];
+}
+
+// 预设文件校验失败，issues 中为每个问题的字段路径和原因
+export class PresetValidationError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(t('presets.issues.invalidFile', { issues: issues.join('\n') }));
+    this.name = 'PresetValidationError';
+    this.issues = issues;
+  }
+}
+
+interface FieldRule {
+  check: (value: unknown) => boolean;
+  // 校验失败时提示的取值要求，随界面语言变化
+  readonly expected: string;
+}
+
+// 与配置结构一一对应的校验规则，嵌套对象对应嵌套的规则
+type Schema<T> = {
+  [K in keyof T]-?: NonNullable<T[K]> extends object ? Schema<NonNullable<T[K]>> : FieldRule;
+};
+
+const isBoolean: FieldRule = localized({ check: (value: unknown) => typeof value === 'boolean' }, { expected: 'presets.issues.boolean' });
+
+const isColor: FieldRule = localized(
+  { check: (value: unknown) => typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value) },
+  { expected: 'presets.issues.color' }
+);
+
+function oneOf(values: readonly string[]): FieldRule {
+  return {
+    check: (value) => typeof value === 'string' && values.includes(value),
+    expected: values.map((value) => `"${value}"`).join(' | '),
+  };
+}
+
+function numberIn(min: number, max: number): FieldRule {
+  return {
+    check: (value) => typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max,
+    get expected() {
+      return t('presets.issues.numberRange', { min, max });
+    },
+  };
+}
+
+// 取值范围与设置面板保持一致
+const configSchema: Schema<PresetConfig> = {
+  debug: isBoolean,
+  device: oneOf(['cpu', 'gpu']),
+  model: oneOf(['isnet', 'isnet_fp16', 'isnet_quint8']),
+  output: {
+    format: oneOf(outputFormats.map((format) => format.value)),
+    quality: numberIn(0, 1),
+    type: oneOf(['foreground', 'background', 'mask']),
+    matte: isColor,
+    metadata: isBoolean,
+  },
+  refinement: {
+    minIslandSize: numberIn(0, 5),
+    edgeShift: numberIn(-20, 20),
+    threshold: numberIn(0, 254),
+    featherRadius: numberIn(0, 20),
+    despill: numberIn(0, 1),
+  },
+  crop: {
+    enabled: isBoolean,
+    preset: oneOf(cropPresets.map((preset) => preset.id)),
+    padding: numberIn(0, 50),
+    center: isBoolean,
+    resizeToTarget: isBoolean,
+  },
+  background: {
+    mode: oneOf(['none', 'color', 'gradient', 'blur', 'image']),
+    color: isColor,
+    gradientFrom: isColor,
+    gradientTo: isColor,
+    gradientAngle: numberIn(0, 360),
+    blurRadius: numberIn(2, 80),
+    imageFit: oneOf(['cover', 'contain', 'stretch']),
+    subjectScale: numberIn(0.2, 2),
+    subjectOffsetX: numberIn(-0.5, 0.5),
+    subjectOffsetY: numberIn(-0.5, 0.5),
+  },
+  effects: {
+    shadow: {
+      enabled: isBoolean,
+      offsetX: numberIn(-100, 100),
+      offsetY: numberIn(-100, 100),
+      blur: numberIn(0, 50),
+      opacity: numberIn(0, 1),
+      color: isColor,
+    },
+    floorShadow: {
+      enabled: isBoolean,
+      width: numberIn(20, 200),
+      height: numberIn(5, 50),
+      blur: numberIn(0, 50),
+      opacity: numberIn(0, 1),
+      color: isColor,
+    },
+    outline: {
+      enabled: isBoolean,
+      width: numberIn(1, 50),
+      color: isColor,
+      position: oneOf(outlinePositions.map((position) => position.value)),
+    },
+  },
+  largeImage: {
+    mode: oneOf(['fast', 'full']),
+    confirm: isBoolean,
+  },
+};
+
+function isRule(node: object): node is FieldRule {
+  return 'check' in node && typeof node.check === 'function';
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// 按 schema 校验对象，缺失的字段使用默认值补全，问题追加到 issues
+function validateObject<T extends object>(
+  value: unknown,
+  schema: Schema<T>,
+  defaults: T,
+  path: string,
+  issues: string[]
+): T {
+  if (!isPlainObject(value)) {
+    issues.push(t('presets.issues.notObject', { path }));
+    return defaults;
+  }
+
+  for (const key of Object.keys(value)) {
+    if (!(key in schema)) {
+      issues.push(t('presets.issues.unknownField', { path: `${path}.${key}` }));
+    }
+  }
+
+  const result = { ...defaults };
+  for (const key of Object.keys(schema) as (keyof T & string)[]) {
+    const node: object = schema[key];
+    const fieldPath = `${path}.${key}`;
+    const fieldValue = value[key];
+    if (fieldValue === undefined) continue;
+
+    if (isRule(node)) {
+      if (node.check(fieldValue)) {
+        // 规则校验通过，取值符合该字段的类型
+        result[key] = fieldValue as T[typeof key];
+      } else {
+        issues.push(t('presets.issues.invalidValue', { path: fieldPath, value: JSON.stringify(fieldValue), expected: node.expected }));
+      }
+    } else {
+      result[key] = validateObject(fieldValue, node as Schema<T[typeof key] & object>, defaults[key] as T[typeof key] & object, fieldPath, issues);
+    }
+  }
+  return result;
+}
+
+function validatePresetConfig(value: unknown, path: string, issues: string[]): PresetConfig {
+  return validateObject(value, configSchema, toPresetConfig(defaultConfig), path, issues);
+}
+
+// 校验单个配置对象（例如命令行直接传入的配置 JSON），存在问题时抛出 PresetValidationError
+export function parseConfigObject(data: unknown): PresetConfig {
+  const issues: string[] = [];
+  const config = validatePresetConfig(data, 'config', issues);
+  if (issues.length > 0) {
+    throw new PresetValidationError(issues);
+  }
+  return config;
+}
+
+// 从处理配置中提取可保存的部分
+export function toPresetConfig(config: ProcessingConfig): PresetConfig {
+  const { background } = config;
+  return {
+    debug: config.debug ?? false,
+    device: config.device,
+    model: config.model,
+    output: { ...config.output },
+    refinement: { ...config.refinement },
+    crop: { ...config.crop },
+    effects: {
+      shadow: { ...config.effects.shadow },
+      floorShadow: { ...config.effects.floorShadow },
+      outline: { ...config.effects.outline },
+    },
+    largeImage: { ...config.largeImage },
+    background: {
+      mode: background.mode,
+      color: background.color,
+      gradientFrom: background.gradientFrom,
+      gradientTo: background.gradientTo,
+      gradientAngle: background.gradientAngle,
+      blurRadius: background.blurRadius,
+      imageFit: background.imageFit,
+      subjectScale: background.subjectScale,
+      subjectOffsetX: background.subjectOffsetX,
+      subjectOffsetY: background.subjectOffsetY,
+    },
+  };
+}
+
+// 应用预设，保留当前已上传的背景图片
+export function applyPresetConfig(preset: PresetConfig, current: ProcessingConfig): ProcessingConfig {
+  return {
+    ...current,
+    ...preset,
+    background: { ...preset.background, image: current.background.image },
+  };
+}
+
+// 恢复历史记录中保存的完整配置：较早的记录缺少后来新增的字段，按预设规则校验并用默认值补全
+// 模型资源地址属于部署环境，使用当前的地址；背景图片沿用记录中保存的
+export function restoreStoredConfig(stored: ProcessingConfig, publicPath: string): ProcessingConfig {
+  const preset = validatePresetConfig(stored, 'config', []);
+  return applyPresetConfig(preset, {
+    ...defaultConfig,
+    publicPath,
+    background: { ...defaultConfig.background, image: stored.background?.image },
+  });
+}
+
+function createPresetId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export function createPreset(name: string, config: ProcessingConfig): ConfigPreset {
+  return { id: createPresetId(), name, config: toPresetConfig(config), updatedAt: Date.now() };
+}
+
+// 读取本地保存的预设，损坏的条目会被忽略
+export function loadPresets(): ConfigPreset[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+
+    const stored: unknown = JSON.parse(raw);
+    if (!Array.isArray(stored)) return [];
+
+    return stored.flatMap((item: unknown) => {
+      if (!isPlainObject(item) || typeof item.id !== 'string' || typeof item.name !== 'string') return [];
+      const issues: string[] = [];
+      const config = validatePresetConfig(item.config, 'config', issues);
+      if (issues.length > 0) {
+        console.warn(`预设「${item.name}」已损坏，已忽略:`, issues);
+        return [];
+      }
+      const updatedAt = typeof item.updatedAt === 'number' ? item.updatedAt : Date.now();
+      return [{ id: item.id, name: item.name, config, updatedAt }];
+    });
+  } catch (err) {
+    console.error('读取预设失败:', err);
+    return [];
+  }
+}
+
+export function savePresets(presets: ConfigPreset[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+}
+
+export function getActivePresetId(): string | null {
+  return localStorage.getItem(ACTIVE_PRESET_KEY);
+}
+
+export function setActivePresetId(id: string | null) {
+  if (id) {
+    localStorage.setItem(ACTIVE_PRESET_KEY, id);
+  } else {
+    localStorage.removeItem(ACTIVE_PRESET_KEY);
+  }
+}
+
+// 启动时恢复上次使用的预设
+export function loadInitialConfig(): ProcessingConfig {
+  const activeId = getActivePresetId();
+  const preset = activeId ? loadPresets().find((item) => item.id === activeId) : undefined;
+  return preset ? applyPresetConfig(preset.config, defaultConfig) : defaultConfig;
+}
+
+export function exportPresets(presets: ConfigPreset[]): Blob {
+  const file: PresetFile = {
+    format: FILE_FORMAT,
+    version: FILE_VERSION,
+    presets: presets.map(({ name, config }) => ({ name, config })),
+  };
+  return new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+}
+
+// 解析并校验预设文件，存在任何问题时抛出 PresetValidationError
+export function parsePresetFile(text: string): { name: string; config: PresetConfig }[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new PresetValidationError([t('presets.issues.invalidJson')]);
+  }
+
+  if (!isPlainObject(data)) {
+    throw new PresetValidationError([t('presets.issues.fileNotObject')]);
+  }
+
+  const issues: string[] = [];
+  if (data.format !== FILE_FORMAT) {
+    issues.push(t('presets.issues.format', { format: FILE_FORMAT }));
+  }
+  if (typeof data.version !== 'number' || data.version > FILE_VERSION) {
+    issues.push(t('presets.issues.version', { version: JSON.stringify(data.version) }));
+  }
+  for (const key of Object.keys(data)) {
+    if (!['format', 'version', 'presets'].includes(key)) {
+      issues.push(t('presets.issues.unknownField', { path: key }));
+    }
+  }
+  if (!Array.isArray(data.presets)) {
+    issues.push(t('presets.issues.presetsNotArray'));
+    throw new PresetValidationError(issues);
+  }
+
+  const presets = data.presets.map((item: unknown, index) => {
+    const path = `presets[${index}]`;
+    if (!isPlainObject(item)) {
+      issues.push(t('presets.issues.notObject', { path }));
+      return null;
+    }
+    for (const key of Object.keys(item)) {
+      if (key !== 'name' && key !== 'config') {
+        issues.push(t('presets.issues.unknownField', { path: `${path}.${key}` }));
+      }
+    }
+    const name = typeof item.name === 'string' ? item.name.trim() : '';
+    if (!name) {
+      issues.push(t('presets.issues.emptyName', { path: `${path}.name` }));
+    }
+    return { name, config: validatePresetConfig(item.config, `${path}.config`, issues) };
+  });
+
+  if (issues.length > 0) {
+    throw new PresetValidationError(issues);
+  }
+  return presets.filter((preset): preset is { name: string; config: PresetConfig } => preset !== null);
+}
+
+// 合并导入的预设，同名预设会被覆盖
+export function mergePresets(
+  presets: ConfigPreset[],
+  imported: { name: string; config: PresetConfig }[]
+): ConfigPreset[] {
+  const result = [...presets];
+  for (const { name, config } of imported) {
+    const index = result.findIndex((preset) => preset.name === name);
+    const updated = { id: index >= 0 ? result[index].id : createPresetId(), name, config, updatedAt: Date.now() };
+    if (index >= 0) {
+      result[index] = updated;
+    } else {
+      result.push(updated);
+    }
+  }
+  return result;
+}
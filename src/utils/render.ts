@@ -0,0 +1,110 @@
+import { composeOutput, maskToImageData, MaskData } from './imageUtils';
+import { decontaminateColors, refineMask } from './maskProcessing';
+import { computeCropRect, cropImageData, cropMask, getCropPreset } from './cropping';
+import { flattenOnMatte, getOutputFormat } from './outputFormats';
+import { createOutlineSvg } from './maskOutline';
+import { ImageLayer, encodeMultiPageTiff, encodePsd } from './layeredExport';
+import { applySubjectEffects, expandBoundsForEffects, isEffectsActive } from './subjectEffects';
+import type { BackgroundReplacement } from './compositing';
+import type { ProcessingConfig, ProcessingResult } from './backgroundRemoval';
+
+// 根据蒙版生成最终输出，浏览器（Worker）与命令行共用
+// 依赖画布的步骤由 RenderBackend 提供：浏览器使用 OffscreenCanvas，命令行使用 sharp
+
+export interface RenderBackend {
+  resize(image: ImageData, width: number, height: number): Promise<ImageData>;
+  composite(foreground: ImageData, original: ImageData, background: BackgroundReplacement): Promise<ImageData>;
+  encode(image: ImageData, output: Pick<ProcessingConfig['output'], 'format' | 'quality'>): Promise<Blob>;
+}
+
+// 分层文件的图层（从下到上）：原图、当前输出（蒙版输出时省略）、蒙版；只显示当前输出所在的图层
+function getLayers(original: ImageData, output: ImageData, maskImage: ImageData, type: ProcessingConfig['output']['type']): ImageLayer[] {
+  return [
+    { name: 'Original', image: original, visible: false },
+    ...(type === 'mask' ? [] : [{ name: type === 'foreground' ? 'Cutout' : 'Background', image: output, visible: true }]),
+    { name: 'Mask', image: maskImage, visible: type === 'mask', grayscale: true },
+  ];
+}
+
+// 按输出格式编码：SVG 轮廓和分层文件由共享模块生成，位图格式交给后端
+async function encodeResult(
+  output: ImageData,
+  original: ImageData,
+  maskImage: ImageData,
+  mask: MaskData,
+  config: ProcessingConfig,
+  backend: RenderBackend
+): Promise<Pick<ProcessingResult, 'blob' | 'preview'>> {
+  switch (config.output.format) {
+    case 'image/svg+xml':
+      return { blob: createOutlineSvg(mask, output.width, output.height) };
+    case 'image/vnd.adobe.photoshop':
+    case 'image/tiff': {
+      const layers = getLayers(original, output, maskImage, config.output.type);
+      const [blob, preview] = await Promise.all([
+        config.output.format === 'image/tiff' ? encodeMultiPageTiff(layers) : encodePsd(layers, output),
+        backend.encode(output, { format: 'image/png', quality: 1 }),
+      ]);
+      return { blob, preview };
+    }
+    default: {
+      // 不支持透明度的格式先叠加到底色上，避免透明区域变成黑色
+      const image = getOutputFormat(config.output.format).alpha ? output : flattenOnMatte(output, config.output.matte);
+      return { blob: await backend.encode(image, config.output) };
+    }
+  }
+}
+
+// 对蒙版进行后处理，并根据输出类型、裁剪和背景设置生成最终图像
+export async function renderOutput(
+  image: ImageData,
+  mask: MaskData,
+  config: ProcessingConfig,
+  backend: RenderBackend
+): Promise<Omit<ProcessingResult, 'mask'>> {
+  let refinedMask = refineMask(mask, config.refinement);
+  let original = image;
+
+  let source = image;
+  if (config.output.type === 'foreground' && config.refinement.despill > 0) {
+    source = decontaminateColors(image, refinedMask, config.refinement.despill);
+  }
+
+  // 阴影和描边只作用于前景输出
+  const effectsActive = config.output.type === 'foreground' && isEffectsActive(config.effects);
+
+  // 先裁剪到主体区域（含阴影和描边），再合成背景，保证背景铺满裁剪后的画面
+  const cropRect = config.crop.enabled
+    ? computeCropRect(refinedMask, config.crop, effectsActive ? (bounds) => expandBoundsForEffects(bounds, config.effects) : undefined)
+    : null;
+  if (cropRect) {
+    original = cropImageData(image, cropRect);
+    source = source === image ? original : cropImageData(source, cropRect);
+    refinedMask = cropMask(refinedMask, cropRect);
+  }
+
+  let output = composeOutput(source, refinedMask, config.output.type);
+  if (effectsActive) {
+    output = applySubjectEffects(output, refinedMask, config.effects);
+  }
+  if (config.output.type === 'foreground' && config.background.mode !== 'none') {
+    output = await backend.composite(output, original, config.background);
+  }
+
+  let maskImage = maskToImageData(refinedMask);
+  const preset = getCropPreset(config.crop.preset);
+  if (cropRect && config.crop.resizeToTarget && preset.width && preset.height) {
+    [output, maskImage, original] = await Promise.all([
+      backend.resize(output, preset.width, preset.height),
+      backend.resize(maskImage, preset.width, preset.height),
+      // 原图只在分层文件中使用
+      getOutputFormat(config.output.format).preview ? backend.resize(original, preset.width, preset.height) : original,
+    ]);
+  }
+
+  const [encoded, refinedMaskBlob] = await Promise.all([
+    encodeResult(output, original, maskImage, refinedMask, config, backend),
+    backend.encode(maskImage, { format: 'image/png', quality: 1 }),
+  ]);
+  return { ...encoded, refinedMask: refinedMaskBlob };
+}
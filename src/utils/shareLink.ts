@@ -0,0 +1,58 @@
+import { deflateSync, inflateSync, strFromU8, strToU8 } from 'fflate';
+import type { ProcessingConfig } from './backgroundRemoval';
+import { PresetConfig, PresetValidationError, parseConfigObject, toPresetConfig } from './presets';
+import { t } from '../i18n';
+
+// 将完整配置压缩后编码到链接的 hash 中，打开链接即可使用相同的设置
+// 与预设相同，不包含背景图片和模型资源地址
+
+const HASH_KEY = 'config';
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+export function createShareUrl(config: ProcessingConfig, baseUrl: string): string {
+  const url = new URL(baseUrl);
+  const encoded = toBase64Url(deflateSync(strToU8(JSON.stringify(toPresetConfig(config))), { level: 9 }));
+  url.hash = `${HASH_KEY}=${encoded}`;
+  return url.toString();
+}
+
+// 读取 hash 中的配置；没有时返回 null，内容无效时抛出 PresetValidationError
+export function parseConfigHash(hash: string): PresetConfig | null {
+  const encoded = new URLSearchParams(hash.replace(/^#/, '')).get(HASH_KEY);
+  if (!encoded) return null;
+
+  let data: unknown;
+  try {
+    data = JSON.parse(strFromU8(inflateSync(fromBase64Url(encoded))));
+  } catch {
+    throw new PresetValidationError([t('shareLink.unparsable')]);
+  }
+  return parseConfigObject(data);
+}
+
+// 读取当前页面链接中的配置
+export function readLinkedConfig(): { config: PresetConfig | null; error: string | null } {
+  try {
+    return { config: parseConfigHash(window.location.hash), error: null };
+  } catch (err) {
+    const issues = err instanceof PresetValidationError ? err.issues : [String(err)];
+    return { config: null, error: t('shareLink.invalid', { issues: issues.join(t('common.listSeparator')) }) };
+  }
+}
+
+// 应用后从地址栏移除配置，避免刷新页面时覆盖之后的修改
+export function clearConfigHash() {
+  history.replaceState(null, '', window.location.pathname + window.location.search);
+}
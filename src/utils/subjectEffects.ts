@@ -0,0 +1,352 @@
+import type { MaskData } from './imageUtils';
+import { findSubjectBounds, Rect } from './cropping';
+import { blurChannel } from './maskProcessing';
+import { localized } from '../i18n';
+
+// 根据蒙版为抠出的主体添加投影、地面阴影和描边，用于电商主图和贴纸
+// 只依赖像素数据，浏览器与命令行共用
+
+// 描边位置：主体外侧、跨越边缘、主体内侧
+export type OutlinePosition = 'outside' | 'center' | 'inside';
+
+export interface DropShadow {
+  enabled: boolean;
+  // 阴影相对主体的偏移（像素）
+  offsetX: number;
+  offsetY: number;
+  // 模糊半径（像素）
+  blur: number;
+  // 不透明度（0-1）
+  opacity: number;
+  color: string;
+}
+
+// 地面阴影：主体底部的椭圆形阴影，模拟放在地面上的接触阴影
+export interface FloorShadow {
+  enabled: boolean;
+  // 阴影宽度占主体宽度的百分比
+  width: number;
+  // 阴影高度占阴影宽度的百分比
+  height: number;
+  blur: number;
+  opacity: number;
+  color: string;
+}
+
+export interface SubjectOutline {
+  enabled: boolean;
+  // 描边宽度（像素）
+  width: number;
+  color: string;
+  position: OutlinePosition;
+}
+
+export interface SubjectEffects {
+  shadow: DropShadow;
+  floorShadow: FloorShadow;
+  outline: SubjectOutline;
+}
+
+export const defaultSubjectEffects: SubjectEffects = {
+  shadow: {
+    enabled: false,
+    offsetX: 10,
+    offsetY: 10,
+    blur: 15,
+    opacity: 0.5,
+    color: '#000000',
+  },
+  floorShadow: {
+    enabled: false,
+    width: 90,
+    height: 12,
+    blur: 20,
+    opacity: 0.4,
+    color: '#000000',
+  },
+  outline: {
+    enabled: false,
+    width: 8,
+    color: '#ffffff',
+    position: 'outside',
+  },
+};
+
+export const outlinePositions: { value: OutlinePosition; label: string }[] = [
+  localized({ value: 'outside' }, { label: 'effects.outline.outside' }),
+  localized({ value: 'center' }, { label: 'effects.outline.center' }),
+  localized({ value: 'inside' }, { label: 'effects.outline.inside' }),
+];
+
+export function isEffectsActive(effects: SubjectEffects): boolean {
+  return effects.shadow.enabled || effects.floorShadow.enabled || (effects.outline.enabled && effects.outline.width > 0);
+}
+
+// 不透明度不低于一半的像素视为主体内部，用于计算描边
+const SOLID_ALPHA = 128;
+// 三次盒式模糊向外扩散约 1.7 倍半径，超过 1.5 倍后几乎不可见
+const BLUR_EXTENT = 1.5;
+const INF = 1e20;
+
+// 描边在主体外侧的宽度
+function getOuterWidth(outline: SubjectOutline): number {
+  if (!outline.enabled) return 0;
+  if (outline.position === 'outside') return outline.width;
+  return outline.position === 'center' ? outline.width / 2 : 0;
+}
+
+function getFloorEllipse(bounds: Rect, floorShadow: FloorShadow) {
+  const radiusX = (bounds.width * floorShadow.width) / 200;
+  return {
+    centerX: bounds.x + bounds.width / 2,
+    centerY: bounds.y + bounds.height,
+    radiusX,
+    radiusY: (radiusX * floorShadow.height) / 100,
+  };
+}
+
+function unionRect(a: Rect, b: Rect): Rect {
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return {
+    x,
+    y,
+    width: Math.max(a.x + a.width, b.x + b.width) - x,
+    height: Math.max(a.y + a.height, b.y + b.height) - y,
+  };
+}
+
+function expandRect(rect: Rect, amount: number): Rect {
+  return { x: rect.x - amount, y: rect.y - amount, width: rect.width + amount * 2, height: rect.height + amount * 2 };
+}
+
+// 主体加上阴影和描边后的范围，自动裁剪时据此留出空间
+export function expandBoundsForEffects(bounds: Rect, effects: SubjectEffects): Rect {
+  const outlined = expandRect(bounds, Math.ceil(getOuterWidth(effects.outline)));
+  let result = outlined;
+
+  const { shadow, floorShadow } = effects;
+  if (shadow.enabled) {
+    const shifted = { ...outlined, x: outlined.x + shadow.offsetX, y: outlined.y + shadow.offsetY };
+    result = unionRect(result, expandRect(shifted, Math.ceil(shadow.blur * BLUR_EXTENT)));
+  }
+  if (floorShadow.enabled) {
+    const { centerX, centerY, radiusX, radiusY } = getFloorEllipse(bounds, floorShadow);
+    const ellipse = { x: centerX - radiusX, y: centerY - radiusY, width: radiusX * 2, height: radiusY * 2 };
+    result = unionRect(result, expandRect(ellipse, Math.ceil(floorShadow.blur * BLUR_EXTENT)));
+  }
+
+  return {
+    x: Math.floor(result.x),
+    y: Math.floor(result.y),
+    width: Math.ceil(result.width),
+    height: Math.ceil(result.height),
+  };
+}
+
+// 一维距离平方变换（Felzenszwalb 下包络算法），结果写回 grid
+function transformLine(
+  grid: Float64Array,
+  offset: number,
+  stride: number,
+  length: number,
+  f: Float64Array,
+  v: Int32Array,
+  z: Float64Array
+) {
+  for (let i = 0; i < length; i++) {
+    f[i] = grid[offset + i * stride];
+  }
+
+  let k = 0;
+  v[0] = 0;
+  z[0] = -INF;
+  z[1] = INF;
+  for (let q = 1; q < length; q++) {
+    let s: number;
+    do {
+      const r = v[k];
+      s = (f[q] + q * q - f[r] - r * r) / (2 * q - 2 * r);
+    } while (s <= z[k] && --k >= 0);
+    k++;
+    v[k] = q;
+    z[k] = s;
+    z[k + 1] = INF;
+  }
+
+  k = 0;
+  for (let q = 0; q < length; q++) {
+    while (z[k + 1] < q) k++;
+    grid[offset + q * stride] = (q - v[k]) ** 2 + f[v[k]];
+  }
+}
+
+// 每个像素到最近的目标像素的欧氏距离，目标像素自身为 0
+function distanceTo(isTarget: (index: number) => boolean, width: number, height: number): Float64Array {
+  const grid = new Float64Array(width * height);
+  for (let i = 0; i < grid.length; i++) {
+    grid[i] = isTarget(i) ? 0 : INF;
+  }
+
+  const size = Math.max(width, height);
+  const f = new Float64Array(size);
+  const v = new Int32Array(size);
+  const z = new Float64Array(size + 1);
+  for (let x = 0; x < width; x++) {
+    transformLine(grid, x, width, height, f, v, z);
+  }
+  for (let y = 0; y < height; y++) {
+    transformLine(grid, y * width, 1, width, f, v, z);
+  }
+
+  for (let i = 0; i < grid.length; i++) {
+    grid[i] = Math.sqrt(grid[i]);
+  }
+  return grid;
+}
+
+// 距离边缘不超过 width 的像素属于描边，最外一圈按距离抗锯齿
+function strokeCoverage(distance: Float64Array, width: number): Float32Array {
+  const coverage = new Float32Array(distance.length);
+  for (let i = 0; i < coverage.length; i++) {
+    coverage[i] = Math.min(1, Math.max(0, width + 1 - distance[i]));
+  }
+  return coverage;
+}
+
+function castDropShadow(silhouette: Float32Array, width: number, height: number, shadow: DropShadow): Float32Array {
+  const offsetX = Math.round(shadow.offsetX);
+  const offsetY = Math.round(shadow.offsetY);
+  const shifted = new Float32Array(silhouette.length);
+  for (let y = 0; y < height; y++) {
+    const sourceY = y - offsetY;
+    if (sourceY < 0 || sourceY >= height) continue;
+    for (let x = 0; x < width; x++) {
+      const sourceX = x - offsetX;
+      if (sourceX < 0 || sourceX >= width) continue;
+      shifted[y * width + x] = silhouette[sourceY * width + sourceX];
+    }
+  }
+
+  const result = blurChannel(shifted, width, height, shadow.blur);
+  for (let i = 0; i < result.length; i++) {
+    result[i] *= shadow.opacity;
+  }
+  return result;
+}
+
+// 椭圆中心最暗、向边缘逐渐变淡，再模糊得到柔和的接触阴影
+function castFloorShadow(bounds: Rect, width: number, height: number, floorShadow: FloorShadow): Float32Array {
+  const { centerX, centerY, radiusX, radiusY } = getFloorEllipse(bounds, floorShadow);
+  const values = new Float32Array(width * height);
+  if (radiusX <= 0 || radiusY <= 0) return values;
+
+  const startY = Math.max(0, Math.floor(centerY - radiusY));
+  const endY = Math.min(height - 1, Math.ceil(centerY + radiusY));
+  const startX = Math.max(0, Math.floor(centerX - radiusX));
+  const endX = Math.min(width - 1, Math.ceil(centerX + radiusX));
+  for (let y = startY; y <= endY; y++) {
+    const dy = (y + 0.5 - centerY) / radiusY;
+    for (let x = startX; x <= endX; x++) {
+      const dx = (x + 0.5 - centerX) / radiusX;
+      const distance = dx * dx + dy * dy;
+      if (distance < 1) values[y * width + x] = 1 - distance;
+    }
+  }
+
+  const result = blurChannel(values, width, height, floorShadow.blur);
+  for (let i = 0; i < result.length; i++) {
+    result[i] *= floorShadow.opacity;
+  }
+  return result;
+}
+
+function parseHexColor(color: string): [number, number, number] {
+  return [parseInt(color.slice(1, 3), 16), parseInt(color.slice(3, 5), 16), parseInt(color.slice(5, 7), 16)];
+}
+
+interface EffectLayer {
+  alpha: Float32Array;
+  color: [number, number, number];
+}
+
+// 在去除背景的主体上叠加效果：图层从下到上依次为地面阴影、投影、外侧描边、主体、内侧描边
+export function applySubjectEffects(foreground: ImageData, mask: MaskData, effects: SubjectEffects): ImageData {
+  const bounds = findSubjectBounds(mask);
+  if (!bounds || !isEffectsActive(effects)) return foreground;
+
+  const { width, height } = foreground;
+  const pixelCount = width * height;
+  const { shadow, floorShadow, outline } = effects;
+  const below: EffectLayer[] = [];
+  const above: EffectLayer[] = [];
+
+  // 描边属于主体的一部分，投影由主体和外侧描边共同形成
+  const silhouette = new Float32Array(pixelCount);
+  for (let i = 0; i < pixelCount; i++) {
+    silhouette[i] = mask.data[i] / 255;
+  }
+
+  let outerStroke: EffectLayer | null = null;
+  const outerWidth = getOuterWidth(outline);
+  if (outerWidth > 0) {
+    const distance = distanceTo((i) => mask.data[i] >= SOLID_ALPHA, width, height);
+    outerStroke = { alpha: strokeCoverage(distance, outerWidth), color: parseHexColor(outline.color) };
+    for (let i = 0; i < pixelCount; i++) {
+      silhouette[i] = Math.max(silhouette[i], outerStroke.alpha[i]);
+    }
+  }
+
+  const innerWidth = outline.enabled ? outline.width - outerWidth : 0;
+  if (innerWidth > 0) {
+    const distance = distanceTo((i) => mask.data[i] < SOLID_ALPHA, width, height);
+    const alpha = strokeCoverage(distance, innerWidth);
+    // 内侧描边不超出主体边缘
+    for (let i = 0; i < pixelCount; i++) {
+      alpha[i] *= mask.data[i] / 255;
+    }
+    above.push({ alpha, color: parseHexColor(outline.color) });
+  }
+
+  if (floorShadow.enabled) {
+    below.push({ alpha: castFloorShadow(bounds, width, height, floorShadow), color: parseHexColor(floorShadow.color) });
+  }
+  if (shadow.enabled) {
+    below.push({ alpha: castDropShadow(silhouette, width, height, shadow), color: parseHexColor(shadow.color) });
+  }
+  if (outerStroke) {
+    below.push(outerStroke);
+  }
+
+  // 按 source-over 规则逐层叠加（预乘颜色）
+  const result = new ImageData(width, height);
+  const source = foreground.data;
+  const target = result.data;
+  const accumulator = new Float32Array(4);
+  const over = (r: number, g: number, b: number, alpha: number) => {
+    accumulator[0] = r * alpha + accumulator[0] * (1 - alpha);
+    accumulator[1] = g * alpha + accumulator[1] * (1 - alpha);
+    accumulator[2] = b * alpha + accumulator[2] * (1 - alpha);
+    accumulator[3] = alpha + accumulator[3] * (1 - alpha);
+  };
+
+  for (let i = 0; i < pixelCount; i++) {
+    const index = i * 4;
+    accumulator.fill(0);
+    for (const layer of below) {
+      if (layer.alpha[i] > 0) over(...layer.color, layer.alpha[i]);
+    }
+    over(source[index], source[index + 1], source[index + 2], source[index + 3] / 255);
+    for (const layer of above) {
+      if (layer.alpha[i] > 0) over(...layer.color, layer.alpha[i]);
+    }
+
+    const alpha = accumulator[3];
+    if (alpha <= 0) continue;
+    target[index] = accumulator[0] / alpha;
+    target[index + 1] = accumulator[1] / alpha;
+    target[index + 2] = accumulator[2] / alpha;
+    target[index + 3] = alpha * 255;
+  }
+  return result;
+}
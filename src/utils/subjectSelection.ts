@@ -0,0 +1,220 @@
+import type { MaskData } from './imageUtils';
+import type { Rect } from './cropping';
+
+// 多主体图片中按点击或框选保留指定主体：将蒙版分成连通区域，根据提示选择需要保留的区域
+
+// 正向点选择所在的主体，负向点排除所在的主体；框选选择大部分位于框内的主体
+export type SelectionPrompt =
+  | { type: 'point'; x: number; y: number; positive: boolean }
+  | { type: 'box'; rect: Rect };
+
+export interface Subject {
+  id: number;
+  // 不透明部分的像素数
+  area: number;
+  bounds: Rect;
+}
+
+export interface SubjectLabels {
+  width: number;
+  height: number;
+  // 每个像素所属主体的编号，背景为 -1
+  labels: Int32Array;
+  subjects: Subject[];
+}
+
+// 不透明度不低于该值的像素用于划分连通区域
+const CORE_ALPHA = 128;
+// 小于图片面积该比例的区域视为噪点，不作为独立主体
+const MIN_SUBJECT_RATIO = 0.0005;
+// 框选时主体至少有该比例的面积位于框内
+const BOX_COVERAGE = 0.5;
+// 点击位置偏离主体时的搜索半径（占图片较短边的比例）
+const POINT_SEARCH_RATIO = 0.02;
+
+// 先按 8 邻域划分不透明区域，再从各区域同时向外扩展，半透明边缘（如发丝）归属最近的主体
+export function labelSubjects(mask: MaskData): SubjectLabels {
+  const { width, height, data } = mask;
+  const labels = new Int32Array(data.length).fill(-1);
+  const queue = new Int32Array(data.length);
+  const minArea = Math.max(16, Math.round(data.length * MIN_SUBJECT_RATIO));
+  const subjects: Subject[] = [];
+
+  for (let start = 0; start < data.length; start++) {
+    if (labels[start] !== -1 || data[start] < CORE_ALPHA) continue;
+
+    const id = subjects.length;
+    let head = 0;
+    let tail = 0;
+    queue[tail++] = start;
+    labels[start] = id;
+    let minX = width;
+    let minY = height;
+    let maxX = -1;
+    let maxY = -1;
+
+    while (head < tail) {
+      const index = queue[head++];
+      const x = index % width;
+      const y = (index - x) / width;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+
+      for (let dy = -1; dy <= 1; dy++) {
+        const ny = y + dy;
+        if (ny < 0 || ny >= height) continue;
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          if (nx < 0 || nx >= width) continue;
+          const neighbor = ny * width + nx;
+          if (labels[neighbor] === -1 && data[neighbor] >= CORE_ALPHA) {
+            labels[neighbor] = id;
+            queue[tail++] = neighbor;
+          }
+        }
+      }
+    }
+
+    subjects.push({ id, area: tail, bounds: { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 } });
+  }
+
+  // 噪点并入背景
+  const noise = new Uint8Array(subjects.length);
+  subjects.forEach((subject) => {
+    if (subject.area < minArea) noise[subject.id] = 1;
+  });
+  let tail = 0;
+  for (let i = 0; i < labels.length; i++) {
+    if (labels[i] === -1) continue;
+    if (noise[labels[i]]) {
+      labels[i] = -1;
+    } else {
+      queue[tail++] = i;
+    }
+  }
+
+  // 多源广度优先扩展到所有半透明像素
+  let head = 0;
+  let id = -1;
+  const grow = (neighbor: number) => {
+    if (labels[neighbor] === -1 && data[neighbor] > 0) {
+      labels[neighbor] = id;
+      queue[tail++] = neighbor;
+    }
+  };
+  while (head < tail) {
+    const index = queue[head++];
+    const x = index % width;
+    id = labels[index];
+    if (x > 0) grow(index - 1);
+    if (x < width - 1) grow(index + 1);
+    if (index >= width) grow(index - width);
+    if (index + width < labels.length) grow(index + width);
+  }
+
+  return { width, height, labels, subjects: subjects.filter((subject) => !noise[subject.id]) };
+}
+
+// 点击位置所在的主体；落在背景上时取附近最近的主体
+function findSubjectAt({ width, height, labels }: SubjectLabels, x: number, y: number): number {
+  const px = Math.round(x);
+  const py = Math.round(y);
+  const radius = Math.max(4, Math.round(Math.min(width, height) * POINT_SEARCH_RATIO));
+  let found = -1;
+  let bestDistance = Infinity;
+
+  for (let ny = Math.max(0, py - radius); ny <= Math.min(height - 1, py + radius); ny++) {
+    for (let nx = Math.max(0, px - radius); nx <= Math.min(width - 1, px + radius); nx++) {
+      const id = labels[ny * width + nx];
+      if (id === -1) continue;
+      const distance = (nx - px) ** 2 + (ny - py) ** 2;
+      if (distance < bestDistance) {
+        found = id;
+        bestDistance = distance;
+      }
+    }
+  }
+  return found;
+}
+
+// 统计每个主体位于框内的像素比例
+function findSubjectsInBox({ width, labels, subjects }: SubjectLabels, rect: Rect): number[] {
+  const inside = new Map<number, number>();
+  const startX = Math.max(0, Math.floor(rect.x));
+  const endX = Math.min(width, Math.ceil(rect.x + rect.width));
+  const startY = Math.max(0, Math.floor(rect.y));
+  const endY = Math.min(labels.length / width, Math.ceil(rect.y + rect.height));
+
+  for (let y = startY; y < endY; y++) {
+    for (let x = startX; x < endX; x++) {
+      const id = labels[y * width + x];
+      if (id !== -1) inside.set(id, (inside.get(id) ?? 0) + 1);
+    }
+  }
+
+  // 面积按包含半透明边缘的像素数计算，与框内统计口径一致
+  const totals = new Map<number, number>();
+  for (let i = 0; i < labels.length; i++) {
+    if (labels[i] !== -1 && inside.has(labels[i])) totals.set(labels[i], (totals.get(labels[i]) ?? 0) + 1);
+  }
+  return subjects
+    .filter((subject) => (inside.get(subject.id) ?? 0) >= (totals.get(subject.id) ?? Infinity) * BOX_COVERAGE)
+    .map((subject) => subject.id);
+}
+
+// 根据提示计算保留的主体：有正向点或框时只保留它们选中的主体，否则保留全部；负向点总是排除
+export function resolveSelection(labels: SubjectLabels, prompts: SelectionPrompt[]): Set<number> {
+  const included = new Set<number>();
+  const excluded = new Set<number>();
+  let hasInclusive = false;
+
+  for (const prompt of prompts) {
+    if (prompt.type === 'box') {
+      hasInclusive = true;
+      findSubjectsInBox(labels, prompt.rect).forEach((id) => included.add(id));
+      continue;
+    }
+
+    const id = findSubjectAt(labels, prompt.x, prompt.y);
+    if (prompt.positive) {
+      hasInclusive = true;
+      if (id !== -1) {
+        included.add(id);
+        excluded.delete(id);
+      }
+    } else if (id !== -1) {
+      excluded.add(id);
+      included.delete(id);
+    }
+  }
+
+  const selected = hasInclusive ? included : new Set(labels.subjects.map((subject) => subject.id));
+  excluded.forEach((id) => selected.delete(id));
+  return selected;
+}
+
+// 只保留选中主体的蒙版
+export function applySelection(mask: MaskData, { labels }: SubjectLabels, selected: Set<number>): MaskData {
+  const data = new Uint8ClampedArray(mask.data.length);
+  for (let i = 0; i < data.length; i++) {
+    if (selected.has(labels[i])) data[i] = mask.data[i];
+  }
+  return { width: mask.width, height: mask.height, data };
+}
+
+// 将局部推理得到的蒙版放回原图尺寸，区域外为背景
+export function placeRegionMask(regionMask: MaskData, rect: Rect, width: number, height: number): MaskData {
+  const data = new Uint8ClampedArray(width * height);
+  for (let y = 0; y < regionMask.height; y++) {
+    const targetY = y + rect.y;
+    if (targetY < 0 || targetY >= height) continue;
+    for (let x = 0; x < regionMask.width; x++) {
+      const targetX = x + rect.x;
+      if (targetX < 0 || targetX >= width) continue;
+      data[targetY * width + targetX] = regionMask.data[y * regionMask.width + x];
+    }
+  }
+  return { width, height, data };
+}
@@ -0,0 +1,147 @@
+import { createCanvas, getContext2D, MaskData } from './imageUtils';
+import { BackgroundReplacement, drawFittedImage, drawSubject, fillGradient } from './compositing';
+import { localized, t } from '../i18n';
+
+// 摄像头实时去背景：在主线程画布上按最新的蒙版合成每一帧，推理在 Worker 中异步进行
+
+export type WebcamQuality = 'speed' | 'balanced' | 'quality';
+
+// 采集分辨率越高画面越清晰；推理边长决定蒙版的精细程度和推理前后的编解码开销
+export const webcamQualityOptions: {
+  value: WebcamQuality;
+  label: string;
+  desc: string;
+  width: number;
+  height: number;
+  inferenceEdge: number;
+}[] = [
+  localized({ value: 'speed', width: 640, height: 360, inferenceEdge: 320 }, { label: 'webcam.quality.speed.label', desc: 'webcam.quality.speed.desc' }),
+  localized({ value: 'balanced', width: 1280, height: 720, inferenceEdge: 512 }, { label: 'webcam.quality.balanced.label', desc: 'webcam.quality.balanced.desc' }),
+  localized({ value: 'quality', width: 1920, height: 1080, inferenceEdge: 1024 }, { label: 'webcam.quality.quality.label', desc: 'webcam.quality.quality.desc' }),
+];
+
+// 蒙版刷新率上限，推理比这更快时也不会更频繁地占用 Worker
+export const MAX_MASK_FPS = 30;
+
+export function isWebcamSupported(): boolean {
+  return typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+}
+
+export async function openCamera(quality: WebcamQuality): Promise<MediaStream> {
+  if (!isWebcamSupported()) {
+    throw new Error(t('webcam.errors.unsupported'));
+  }
+
+  const option = webcamQualityOptions.find((item) => item.value === quality)!;
+  try {
+    return await navigator.mediaDevices.getUserMedia({
+      video: { width: { ideal: option.width }, height: { ideal: option.height }, facingMode: 'user' },
+      audio: false,
+    });
+  } catch (error) {
+    const name = error instanceof DOMException ? error.name : '';
+    if (name === 'NotAllowedError' || name === 'SecurityError') {
+      throw new Error(t('webcam.errors.denied'));
+    }
+    if (name === 'NotFoundError' || name === 'OverconstrainedError') {
+      throw new Error(t('webcam.errors.notFound'));
+    }
+    if (name === 'NotReadableError') {
+      throw new Error(t('webcam.errors.busy'));
+    }
+    throw new Error(t('webcam.errors.failed'));
+  }
+}
+
+export function stopCamera(stream: MediaStream): void {
+  stream.getTracks().forEach((track) => track.stop());
+}
+
+// 截取当前视频帧，maxEdge 为长边上限（不传时保持原始分辨率）
+export function captureFrame(video: HTMLVideoElement, maxEdge?: number): ImageData {
+  const scale = maxEdge ? Math.min(1, maxEdge / Math.max(video.videoWidth, video.videoHeight)) : 1;
+  const width = Math.max(1, Math.round(video.videoWidth * scale));
+  const height = Math.max(1, Math.round(video.videoHeight * scale));
+  const context = getContext2D(createCanvas(width, height));
+  context.drawImage(video, 0, 0, width, height);
+  return context.getImageData(0, 0, width, height);
+}
+
+// 将蒙版转换为只有透明度的图像，用于 destination-in 合成
+export function maskToAlphaCanvas(mask: MaskData): OffscreenCanvas {
+  const image = new ImageData(mask.width, mask.height);
+  for (let i = 0; i < mask.data.length; i++) {
+    image.data[i * 4 + 3] = mask.data[i];
+  }
+  const canvas = createCanvas(mask.width, mask.height);
+  getContext2D(canvas).putImageData(image, 0, 0);
+  return canvas;
+}
+
+// 统计最近一秒内的次数
+export function createRateMeter() {
+  const times: number[] = [];
+  return {
+    tick() {
+      const now = performance.now();
+      times.push(now);
+      while (times[0] < now - 1000) times.shift();
+    },
+    get rate() {
+      const now = performance.now();
+      return times.filter((time) => time >= now - 1000).length;
+    },
+  };
+}
+
+// 在画布上合成一帧：先绘制替换背景，再绘制按蒙版抠出的主体；没有蒙版时显示原始画面
+export function drawLiveFrame(
+  context: CanvasRenderingContext2D,
+  video: HTMLVideoElement,
+  alphaMask: OffscreenCanvas | null,
+  background: BackgroundReplacement,
+  backgroundImage: ImageBitmap | null,
+  foreground: OffscreenCanvas
+): void {
+  const { width, height } = context.canvas;
+  context.clearRect(0, 0, width, height);
+  if (!alphaMask) {
+    context.drawImage(video, 0, 0, width, height);
+    return;
+  }
+
+  switch (background.mode) {
+    case 'color':
+      context.fillStyle = background.color;
+      context.fillRect(0, 0, width, height);
+      break;
+    case 'gradient':
+      fillGradient(context, width, height, background);
+      break;
+    case 'blur':
+      // 向外扩展绘制，避免模糊后边缘透出透明像素
+      context.filter = `blur(${background.blurRadius}px)`;
+      context.drawImage(video, -background.blurRadius, -background.blurRadius, width + background.blurRadius * 2, height + background.blurRadius * 2);
+      context.filter = 'none';
+      break;
+    case 'image':
+      if (backgroundImage) drawFittedImage(context, backgroundImage, width, height, background.imageFit);
+      break;
+    case 'none':
+      break;
+  }
+
+  if (foreground.width !== width || foreground.height !== height) {
+    foreground.width = width;
+    foreground.height = height;
+  }
+  const foregroundContext = getContext2D(foreground);
+  foregroundContext.globalCompositeOperation = 'copy';
+  foregroundContext.drawImage(video, 0, 0, width, height);
+  foregroundContext.globalCompositeOperation = 'destination-in';
+  foregroundContext.imageSmoothingQuality = 'high';
+  foregroundContext.drawImage(alphaMask, 0, 0, width, height);
+  foregroundContext.globalCompositeOperation = 'source-over';
+
+  drawSubject(context, foreground, width, height, background);
+}
@@ -1 +1,4 @@
 /// <reference types="vite/client" />
+
+// 构建时由 vite.config.ts 注入的 @imgly/background-removal 版本
+declare const __LIBRARY_VERSION__: string;
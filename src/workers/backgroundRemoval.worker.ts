@@ -0,0 +1,52 @@
+import { preloadModel, renderFromMask, runBackgroundRemoval, runSegmentation } from '../utils/pipeline';
+import type { ProcessingProgress } from '../utils/backgroundRemoval';
+import { errorGuides, serializeError, toProcessingError } from '../utils/errors';
+import type { WorkerRequest, WorkerResponse } from './protocol';
+
+function post(message: WorkerResponse) {
+  self.postMessage(message);
+}
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+  const onProgress = (progress: ProcessingProgress) => {
+    post({ type: 'progress', id: request.id, progress });
+  };
+
+  try {
+    switch (request.type) {
+      case 'load':
+        await preloadModel(request.config, onProgress);
+        post({ type: 'loaded', id: request.id });
+        break;
+      case 'process': {
+        const result = await runBackgroundRemoval(request.file, request.config, onProgress);
+        post({ type: 'result', id: request.id, result });
+        break;
+      }
+      case 'segment': {
+        const result = await runSegmentation(request.file, request.config, onProgress);
+        post({ type: 'segmented', id: request.id, result });
+        break;
+      }
+      case 'render': {
+        const result = await renderFromMask(request.file, request.mask, request.config, onProgress);
+        post({ type: 'result', id: request.id, result });
+        break;
+      }
+    }
+  } catch (error) {
+    console.error('Worker request failed:', error);
+    // 错误对象跨线程会丢失类型，按错误码传递，由主线程还原
+    // 默认信息不传递，由主线程按界面语言生成（Worker 中无法读取用户选择的语言）
+    const processingError = toProcessingError(error);
+    const isDefaultMessage = processingError.message === errorGuides[processingError.code].message;
+    post({
+      type: 'error',
+      id: request.id,
+      code: processingError.code,
+      message: isDefaultMessage ? undefined : processingError.message,
+      cause: processingError.cause === undefined ? undefined : serializeError(processingError.cause),
+    });
+  }
+};
@@ -0,0 +1,17 @@
+import type { ProcessingConfig, ProcessingProgress, ProcessingResult, SegmentationResult } from '../utils/backgroundRemoval';
+import type { ProcessingErrorCode, SerializedError } from '../utils/errors';
+
+// 主线程与背景去除 Worker 之间的消息协议
+
+export type WorkerRequest =
+  | { type: 'load'; id: number; config: ProcessingConfig }
+  | { type: 'process'; id: number; file: Blob; config: ProcessingConfig }
+  | { type: 'segment'; id: number; file: Blob; config: ProcessingConfig }
+  | { type: 'render'; id: number; file: Blob; mask: Blob; config: ProcessingConfig };
+
+export type WorkerResponse =
+  | { type: 'progress'; id: number; progress: ProcessingProgress }
+  | { type: 'loaded'; id: number }
+  | { type: 'result'; id: number; result: ProcessingResult }
+  | { type: 'segmented'; id: number; result: SegmentationResult }
+  | { type: 'error'; id: number; code: ProcessingErrorCode; message?: string; cause?: SerializedError };
@@ -1,10 +1,56 @@
-import { defineConfig } from 'vite';
+import { createHash } from 'node:crypto';
+import { existsSync, readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { getPackageVersion } from './cli/packages';
+
+const MODEL_ASSETS_DIR = 'public/background-removal-data';
+// 推理库版本，写入导出文件的元数据
+const LIBRARY_VERSION = await getPackageVersion('@imgly/background-removal');
+
+// 从 pwa/sw.js 生成 Service Worker，注入需要预缓存的构建产物和版本号
+function serviceWorker(): Plugin {
+  return {
+    name: 'service-worker',
+    apply: 'build',
+    generateBundle(_, bundle) {
+      // onnxruntime 打包进来的 wasm 不会被使用（库从模型资源地址加载运行时），不做预缓存；AVIF 编码器的 wasm 需要离线可用
+      const assets = Object.keys(bundle).filter((file) => !file.endsWith('.map') && !/(^|\/)ort-wasm[^/]*\.wasm$/.test(file));
+      const files = ['./', ...assets, 'manifest.webmanifest', 'icon.svg'];
+      const version = createHash('sha256').update(files.join('\n')).digest('hex').slice(0, 12);
+      const source = readFileSync(fileURLToPath(new URL('./pwa/sw.js', import.meta.url)), 'utf8')
+        .replace('self.__PRECACHE_FILES__', JSON.stringify(files))
+        .replace('self.__BUILD_VERSION__', JSON.stringify(version));
+      this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+    },
+  };
+}
+
+// 模型资源默认从本站加载，缺少时提示运行 npm run fetch-models
+function checkModelAssets(): Plugin {
+  return {
+    name: 'check-model-assets',
+    buildStart() {
+      if (!existsSync(`${MODEL_ASSETS_DIR}/resources.json`)) {
+        this.warn(`未找到 ${MODEL_ASSETS_DIR}，请先运行 npm run fetch-models，或在设置中修改模型资源地址`);
+      }
+    },
+  };
+}
 
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), serviceWorker(), checkModelAssets()],
+  define: {
+    __LIBRARY_VERSION__: JSON.stringify(LIBRARY_VERSION),
+  },
+  worker: {
+    // 推理 Worker 依赖动态导入，需要使用 ES 模块格式
+    format: 'es',
+  },
   optimizeDeps: {
-    exclude: ['lucide-react'],
+    // AVIF 编码器按相对路径加载 wasm，预构建后路径会失效
+    exclude: ['lucide-react', '@jsquash/avif'],
   },
 });
@@ -0,0 +1,52 @@
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { defineConfig, Plugin } from 'vite';
+import react from '@vitejs/plugin-react';
+
+// 库模式下 Vite 会把 new URL('...', import.meta.url) 引用的文件内联为 base64，
+// onnxruntime 与 AVIF 编码器因此会生成几十 MB 的 JS：wasm 改为输出独立文件，
+// 模块对自身的引用（onnxruntime 仅在 file: 协议下使用）直接指向打包后的模块
+function urlAssets(): Plugin {
+  const pattern = /new URL\(\s*(['"])([^'"]+)\1\s*,\s*import\.meta\.url\s*\)/g;
+  return {
+    name: 'url-assets',
+    enforce: 'pre',
+    transform(code, id) {
+      const file = id.split('?')[0];
+      const result = code.replace(pattern, (match, _, url: string) => {
+        if (url === path.basename(file)) return 'new URL(import.meta.url)';
+        if (!url.endsWith('.wasm')) return match;
+        const referenceId = this.emitFile({
+          type: 'asset',
+          name: path.basename(url),
+          source: readFileSync(path.resolve(path.dirname(file), url)),
+        });
+        return `new URL(import.meta.ROLLUP_FILE_URL_${referenceId})`;
+      });
+      return result === code ? null : { code: result, map: null };
+    },
+  };
+}
+
+// 构建可嵌入的组件库：<BackgroundRemover> 与 createRemover，推理 Worker 单独输出
+export default defineConfig({
+  plugins: [react()],
+  worker: {
+    format: 'es',
+    // wasm 只在推理 Worker 中使用
+    plugins: () => [urlAssets()],
+  },
+  build: {
+    outDir: 'dist-lib',
+    // 模型资源由使用方通过 config.publicPath 提供，不复制 public 目录
+    copyPublicDir: false,
+    lib: {
+      entry: 'src/lib.ts',
+      formats: ['es'],
+      fileName: 'background-remover',
+    },
+    rollupOptions: {
+      external: ['react', 'react-dom', 'react/jsx-runtime'],
+    },
+  },
+});